@@ -0,0 +1,146 @@
+/**
+ * Claude Code CLI target — the default.
+ *
+ * Terminal mode types the prompt into a running Claude session, or starts
+ * `claude` in a new terminal (continuing/resuming a session if the item asks).
+ * Headless mode (`promptQueue.deliveryMode: "headless"`) runs `claude -p`
+ * and captures the answer.
+ */
+import * as vscode from "vscode";
+import { QueueItem } from "../queue/QueueStore";
+import {
+  claudeLaunchCommand,
+  isValidSessionId,
+} from "../util/claudeSessions";
+import { claudePrintArgs, HeadlessResult, runHeadless } from "./headless";
+import {
+  DeliveryContext,
+  DeliveryResult,
+  NonRetryableDeliveryError,
+} from "./IDeliveryTarget";
+import { TerminalCliTarget } from "./TerminalCliTarget";
+
+/**
+ * Name heuristic of the Claude target: the configured terminal name, or any
+ * name containing "claude".
+ */
+export function isClaudeTerminalName(
+  name: string,
+  configuredName: string,
+): boolean {
+  return (
+    (!!configuredName && name === configuredName) ||
+    name.toLowerCase().includes("claude")
+  );
+}
+
+/**
+ * Configured Claude terminal name. Falls back to the pre-target setting
+ * `promptQueue.targetTerminalName`.
+ */
+export function claudeTerminalSetting(): string {
+  const cfg = vscode.workspace.getConfiguration("promptQueue");
+  return (
+    cfg.get<string>("claude.terminalName", "") ||
+    cfg.get<string>("targetTerminalName", "")
+  );
+}
+
+export class ClaudeCliTarget extends TerminalCliTarget {
+  readonly id = "claude";
+  readonly name = "Claude CLI";
+  protected readonly terminalName = "Claude";
+  protected readonly terminalSetting = "claude.terminalName";
+
+  configuredTerminalName(): string {
+    return claudeTerminalSetting();
+  }
+
+  protected launchCommand(promptFile: string, item: QueueItem): string {
+    return claudeLaunchCommand(promptFile, item.sessionMode, item.sessionId);
+  }
+
+  /**
+   * Continued and resumed sessions get their own terminal: typing into
+   * whichever Claude terminal is open would land in another conversation.
+   */
+  protected sessionKey(item: QueueItem, cwd: string): string | undefined {
+    if (
+      item.sessionMode === "resume" &&
+      item.sessionId &&
+      isValidSessionId(item.sessionId)
+    ) {
+      return `resume ${item.sessionId}`;
+    }
+    return item.sessionMode === "resume" || item.sessionMode === "continue"
+      ? `continue ${cwd}`
+      : undefined;
+  }
+
+  async deliver(
+    item: QueueItem,
+    ctx: DeliveryContext,
+  ): Promise<DeliveryResult | undefined> {
+    const mode = vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<string>("deliveryMode", "terminal");
+    return mode === "headless"
+      ? this.deliverHeadless(item, ctx)
+      : super.deliver(item, ctx);
+  }
+
+  /**
+   * Run `claude -p` in the item's workspace folder and wait for the answer.
+   * A missing CLI is non-retryable; a non-zero exit or timeout goes through
+   * the retry path.
+   */
+  private async deliverHeadless(
+    item: QueueItem,
+    ctx: DeliveryContext,
+  ): Promise<DeliveryResult> {
+    const cfg = vscode.workspace.getConfiguration("promptQueue");
+    const command: string = cfg.get("claudePath", "claude") || "claude";
+    const timeoutMs = cfg.get<number>("headlessTimeoutMinutes", 30) * 60_000;
+    ctx.log.appendLine(
+      `[ClaudeCliTarget] Running ${command} -p for ${item.id} in ${ctx.cwd}`,
+    );
+
+    let result: HeadlessResult;
+    try {
+      result = await runHeadless({
+        command,
+        args: claudePrintArgs(item.sessionMode, item.sessionId),
+        cwd: ctx.cwd,
+        promptText: item.promptText,
+        timeoutMs,
+      });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new NonRetryableDeliveryError(
+          `"${command}" not found — install the Claude CLI or set promptQueue.claudePath`,
+        );
+      }
+      throw err;
+    }
+
+    if (result.timedOut) {
+      throw new Error(
+        `claude -p timed out after ${Math.round(timeoutMs / 60_000)}min`,
+      );
+    }
+    if (result.exitCode !== 0) {
+      const detail = (result.stderr || result.stdout).trim().slice(-300);
+      throw new Error(
+        `claude -p exited with code ${result.exitCode}${detail ? `: ${detail}` : ""}`,
+      );
+    }
+    ctx.log.appendLine(
+      `[ClaudeCliTarget] claude -p finished for ${item.id} (${result.stdout.length} chars)`,
+    );
+    return {
+      response: result.stdout,
+      ...(result.stderr ? { stderr: result.stderr } : {}),
+      exitCode: result.exitCode,
+    };
+  }
+}
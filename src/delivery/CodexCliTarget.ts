@@ -0,0 +1,22 @@
+/**
+ * Codex CLI target — same terminal flow as Claude: type into a running
+ * `codex` session, or start `codex "<prompt>"` in a new terminal.
+ */
+import * as vscode from "vscode";
+import { QueueItem } from "../queue/QueueStore";
+import { TerminalCliTarget } from "./TerminalCliTarget";
+
+export class CodexCliTarget extends TerminalCliTarget {
+  readonly id = "codex";
+  readonly name = "Codex CLI";
+  protected readonly terminalName = "Codex";
+  protected readonly terminalSetting = "codex.terminalName";
+
+  protected launchCommand(promptFile: string, _item: QueueItem): string {
+    const command: string =
+      vscode.workspace
+        .getConfiguration("promptQueue")
+        .get("codex.command", "codex") || "codex";
+    return `${command} "$(cat '${promptFile}')" ; rm -f '${promptFile}'`;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Generic command target — runs `promptQueue.command.template` through the
+ * shell in the item's workspace folder, e.g.
+ *
+ *   aider --yes --message-file {file}
+ *   ./scripts/ask.sh {id}
+ *
+ * The prompt is also written to the command's stdin. Output and exit code
+ * are captured like headless Claude deliveries.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { QueueItem } from "../queue/QueueStore";
+import { runHeadless } from "./headless";
+import {
+  DeliveryContext,
+  DeliveryResult,
+  IDeliveryTarget,
+  NonRetryableDeliveryError,
+} from "./IDeliveryTarget";
+
+/** Quote a value for a POSIX shell. */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Expand `{file}`, `{id}` and `{workspace}` in a command template. Values are
+ * shell-quoted; unknown placeholders are left as-is.
+ */
+export function expandCommandTemplate(
+  template: string,
+  vars: { file: string; id: string; workspace: string },
+): string {
+  return template.replace(/\{(file|id|workspace)\}/g, (_m, key: string) =>
+    shellQuote(vars[key as keyof typeof vars]),
+  );
+}
+
+export class CommandTemplateTarget implements IDeliveryTarget {
+  readonly id = "command";
+  readonly name = "Command template";
+
+  async deliver(
+    item: QueueItem,
+    ctx: DeliveryContext,
+  ): Promise<DeliveryResult | undefined> {
+    const cfg = vscode.workspace.getConfiguration("promptQueue");
+    const template = cfg.get<string>("command.template", "").trim();
+    if (!template) {
+      throw new NonRetryableDeliveryError(
+        "No command configured — set promptQueue.command.template",
+      );
+    }
+    const timeoutMs = cfg.get<number>("headlessTimeoutMinutes", 30) * 60_000;
+
+    const tmpFile = path.join(os.tmpdir(), `cq-${item.id}.txt`);
+    fs.writeFileSync(tmpFile, item.promptText, "utf8");
+    const command = expandCommandTemplate(template, {
+      file: tmpFile,
+      id: item.id,
+      workspace: ctx.cwd,
+    });
+    ctx.log.appendLine(`[CommandTemplateTarget] Running: ${command}`);
+
+    try {
+      const result = await runHeadless({
+        command,
+        args: [],
+        shell: true,
+        cwd: ctx.cwd,
+        promptText: item.promptText,
+        timeoutMs,
+      });
+      if (result.timedOut) {
+        throw new Error(
+          `Command timed out after ${Math.round(timeoutMs / 60_000)}min`,
+        );
+      }
+      if (result.exitCode !== 0) {
+        const detail = (result.stderr || result.stdout).trim().slice(-300);
+        throw new Error(
+          `Command exited with code ${result.exitCode}${detail ? `: ${detail}` : ""}`,
+        );
+      }
+      return {
+        response: result.stdout,
+        ...(result.stderr ? { stderr: result.stderr } : {}),
+        exitCode: result.exitCode,
+      };
+    } finally {
+      fs.rmSync(tmpFile, { force: true });
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * DeliveryTargetRegistry — the delivery targets known to the queue.
+ *
+ * Items name their target by id (`QueueItem.target`); items without one use
+ * `promptQueue.defaultTarget`.
+ */
+import * as vscode from "vscode";
+import { QueueItem } from "../queue/QueueStore";
+import { IDeliveryTarget, NonRetryableDeliveryError } from "./IDeliveryTarget";
+import { ClaudeCliTarget } from "./ClaudeCliTarget";
+import { CodexCliTarget } from "./CodexCliTarget";
+import { CommandTemplateTarget } from "./CommandTemplateTarget";
+import { FileTarget } from "./FileTarget";
+import { TerminalCliTarget } from "./TerminalCliTarget";
+
+export const DEFAULT_TARGET_ID = "claude";
+
+export class DeliveryTargetRegistry {
+  private readonly targets = new Map<string, IDeliveryTarget>();
+
+  constructor(targets: IDeliveryTarget[]) {
+    targets.forEach((t) => this.register(t));
+  }
+
+  /** Add (or replace) a target. */
+  register(target: IDeliveryTarget): void {
+    this.targets.set(target.id, target);
+  }
+
+  get(id: string): IDeliveryTarget | undefined {
+    return this.targets.get(id);
+  }
+
+  list(): IDeliveryTarget[] {
+    return [...this.targets.values()];
+  }
+
+  /** Target for items that do not name one (`promptQueue.defaultTarget`). */
+  defaultTargetId(): string {
+    return (
+      vscode.workspace
+        .getConfiguration("promptQueue")
+        .get<string>("defaultTarget", DEFAULT_TARGET_ID) || DEFAULT_TARGET_ID
+    );
+  }
+
+  /** Target id an item will be delivered to. */
+  targetIdFor(item: QueueItem): string {
+    return item.target || this.defaultTargetId();
+  }
+
+  /**
+   * Delivery hint for a new item (QueueItem.targetTerminalName): the active
+   * terminal, when it belongs to the item's target.
+   */
+  terminalHint(targetId?: string): string | undefined {
+    const target = this.targets.get(targetId || this.defaultTargetId());
+    const name = vscode.window.activeTerminal?.name;
+    return name &&
+      target instanceof TerminalCliTarget &&
+      target.ownsTerminal(name)
+      ? name
+      : undefined;
+  }
+
+  /** Resolve an item's target; an unknown id is a configuration problem. */
+  resolve(item: QueueItem): IDeliveryTarget {
+    const id = this.targetIdFor(item);
+    const target = this.targets.get(id);
+    if (!target) {
+      throw new NonRetryableDeliveryError(
+        `Unknown delivery target "${id}" — pick another target for this prompt`,
+      );
+    }
+    return target;
+  }
+}
+
+/** The targets that ship with the extension. */
+export function builtInDeliveryTargets(): IDeliveryTarget[] {
+  return [
+    new ClaudeCliTarget(),
+    new CodexCliTarget(),
+    new CommandTemplateTarget(),
+    new FileTarget(),
+  ];
+}
@@ -0,0 +1,71 @@
+/**
+ * File-drop target — writes each due prompt as a `.md` file into
+ * `<workspace>/<promptQueue.outputDir>/`, named by `promptQueue.filenameTemplate`,
+ * with the item's metadata as frontmatter. Other tools and agents watch that
+ * folder as an inbox.
+ */
+import * as vscode from "vscode";
+import { QueueItem } from "../queue/QueueStore";
+import { ensureDir, resolveCollision, writeText } from "../util/fs";
+import {
+  buildPromptFile,
+  filenameVars,
+  renderFilename,
+} from "../util/promptFile";
+import {
+  DeliveryContext,
+  DeliveryResult,
+  IDeliveryTarget,
+  NonRetryableDeliveryError,
+} from "./IDeliveryTarget";
+
+const DEFAULT_TEMPLATE = "{timestamp}_{id}.md";
+
+export class FileTarget implements IDeliveryTarget {
+  readonly id = "file";
+  readonly name = "File drop";
+
+  async deliver(
+    item: QueueItem,
+    ctx: DeliveryContext,
+  ): Promise<DeliveryResult | undefined> {
+    if (!ctx.workspaceFolder) {
+      throw new NonRetryableDeliveryError(
+        "Writing prompts to files needs an open workspace folder",
+      );
+    }
+    const cfg = vscode.workspace.getConfiguration("promptQueue");
+    const outputDir = cfg.get<string>("outputDir", ".prompt-queue");
+    const template =
+      cfg.get<string>("filenameTemplate", DEFAULT_TEMPLATE) || DEFAULT_TEMPLATE;
+
+    const now = new Date();
+    const workspaceName = ctx.workspaceFolder.name;
+    const segments = renderFilename(
+      template,
+      filenameVars(item, workspaceName, now),
+    );
+    if (segments.length === 0) {
+      throw new NonRetryableDeliveryError(
+        `promptQueue.filenameTemplate "${template}" produces no file name`,
+      );
+    }
+    const dir = vscode.Uri.joinPath(
+      ctx.workspaceFolder.uri,
+      outputDir,
+      ...segments.slice(0, -1),
+    );
+    await ensureDir(dir);
+    const uri = await resolveCollision(
+      vscode.Uri.joinPath(dir, segments[segments.length - 1]),
+    );
+
+    // Write under a dot-name first and rename, so inbox watchers never pick
+    // up a half-written file.
+    const tmp = vscode.Uri.joinPath(dir, `.${item.id}.tmp`);
+    await writeText(tmp, buildPromptFile(item, now, workspaceName));
+    await vscode.workspace.fs.rename(tmp, uri, { overwrite: false });
+    ctx.log.appendLine(`[FileTarget] Wrote ${item.id} to ${uri.fsPath}`);
+    return undefined;
+  }
+}
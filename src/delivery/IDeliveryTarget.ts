@@ -0,0 +1,54 @@
+/**
+ * Shared interface and types for delivery targets — where a due prompt goes
+ * (Claude CLI, Codex CLI, a command template, a file…).
+ */
+import * as vscode from "vscode";
+import { QueueItem } from "../queue/QueueStore";
+
+export interface DeliveryContext {
+  log: vscode.OutputChannel;
+  /** Workspace folder the item belongs to (first folder as fallback). */
+  workspaceFolder: vscode.WorkspaceFolder | undefined;
+  /** Working directory for terminals and child processes. */
+  cwd: string;
+}
+
+/** Output captured by targets that run a process to completion. */
+export interface DeliveryResult {
+  response: string;
+  stderr?: string;
+  exitCode?: number;
+}
+
+export interface IDeliveryTarget {
+  /** Stable id stored on queue items (`QueueItem.target`). */
+  readonly id: string;
+  /** Human-readable name shown in the UI. */
+  readonly name: string;
+  /**
+   * Deliver the prompt. Resolves with captured output for targets that wait
+   * for completion, undefined for fire-and-forget targets (terminals).
+   * Throw NonRetryableDeliveryError for configuration problems; any other
+   * error is retried with backoff.
+   */
+  deliver(
+    item: QueueItem,
+    ctx: DeliveryContext,
+  ): Promise<DeliveryResult | undefined>;
+}
+
+/**
+ * Thrown when delivery cannot proceed due to permanent/config issues.
+ * These errors keep the item in queue for the user to manually retry —
+ * they are NOT rescheduled with exponential backoff.
+ *
+ * Examples: configured terminal name not found, wrong terminal name.
+ * (Contrast with transient errors like momentary storage failures, which
+ * go through the normal retry path.)
+ */
+export class NonRetryableDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NonRetryableDeliveryError";
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Base class for targets that drive an interactive CLI in a VS Code terminal
+ * (Claude Code, Codex…): type the prompt into a running session, or start
+ * the CLI in a new terminal with the prompt as its first message.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import * as fs from "fs";
+import * as os from "os";
+import { QueueItem } from "../queue/QueueStore";
+import {
+  DeliveryContext,
+  DeliveryResult,
+  IDeliveryTarget,
+  NonRetryableDeliveryError,
+} from "./IDeliveryTarget";
+
+export abstract class TerminalCliTarget implements IDeliveryTarget {
+  abstract readonly id: string;
+  abstract readonly name: string;
+  /** Name of terminals this target creates ("Claude", "Codex"). */
+  protected abstract readonly terminalName: string;
+  /** Setting holding the exact terminal name to use, e.g. "codex.terminalName". */
+  protected abstract readonly terminalSetting: string;
+
+  /** Shell command that starts the CLI with the prompt stored in `promptFile`. */
+  protected abstract launchCommand(promptFile: string, item: QueueItem): string;
+
+  /** Terminals this target started for a specific session → session key. */
+  private readonly sessionTerminals = new WeakMap<vscode.Terminal, string>();
+
+  /**
+   * Session the item must be delivered into, e.g. "resume <id>"; such
+   * items only go to a terminal started for that session. Undefined when
+   * any terminal of this CLI will do.
+   */
+  protected sessionKey(_item: QueueItem, _cwd: string): string | undefined {
+    return undefined;
+  }
+
+  /** User-configured terminal name ("" = auto-detect). */
+  configuredTerminalName(): string {
+    return vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<string>(this.terminalSetting, "");
+  }
+
+  /** Whether an auto-detected terminal name belongs to this CLI. */
+  matchesTerminalName(name: string): boolean {
+    return name.toLowerCase().includes(this.terminalName.toLowerCase());
+  }
+
+  /** Whether prompts for this target may be typed into the terminal `name`. */
+  ownsTerminal(name: string): boolean {
+    const configuredName = this.configuredTerminalName();
+    return configuredName
+      ? name === configuredName
+      : this.matchesTerminalName(name);
+  }
+
+  async deliver(
+    item: QueueItem,
+    ctx: DeliveryContext,
+  ): Promise<DeliveryResult | undefined> {
+    const configuredName = this.configuredTerminalName();
+    const session = this.sessionKey(item, ctx.cwd);
+
+    // When a target terminal is explicitly configured but not found, this is a
+    // non-retryable error — the item stays in queue for the user to fix manually
+    // (open the terminal or clear the setting).
+    if (
+      !session &&
+      configuredName &&
+      !vscode.window.terminals.some((t) => t.name === configuredName)
+    ) {
+      throw new NonRetryableDeliveryError(
+        `Terminal "${configuredName}" not found — open it or clear promptQueue.${this.terminalSetting}`,
+      );
+    }
+
+    const existing = session
+      ? this.findSessionTerminal(session)
+      : this.findTerminal(item.targetTerminalName);
+
+    if (existing) {
+      ctx.log.appendLine(
+        `[${this.constructor.name}] Sending to existing terminal "${existing.name}"`,
+      );
+
+      // Best-effort check: if the terminal process has already exited before we
+      // even send, warn immediately (checked BEFORE sendText for reliability —
+      // exitStatus is set synchronously when the process exits, so this catches
+      // zombie terminals that VS Code still lists but whose process is gone).
+      if (existing.exitStatus !== undefined) {
+        ctx.log.appendLine(
+          `[${this.constructor.name}] Warning: terminal "${existing.name}" process has already exited ` +
+            `(code=${existing.exitStatus.code})`,
+        );
+        vscode.window.showWarningMessage(
+          `PromptQueue: terminal "${existing.name}" process has already exited — prompt may not be received.`,
+        );
+      }
+
+      existing.show(true);
+      // Strip ESC chars to avoid interfering with the CLI's TUI keybindings.
+      const safe = item.promptText.replace(/\x1b/g, "");
+      existing.sendText(safe, false);
+      existing.sendText("\r", false); // Press Enter to submit
+    } else {
+      const tmpFile = path.join(os.tmpdir(), `cq-${item.id}.txt`);
+      fs.writeFileSync(tmpFile, item.promptText, "utf8");
+      const command = this.launchCommand(tmpFile, item);
+      ctx.log.appendLine(
+        `[${this.constructor.name}] No ${this.name} terminal found, launching: ${command}`,
+      );
+      const terminal = vscode.window.createTerminal({
+        name: session
+          ? `${this.terminalName} (${session.split(" ")[0]})`
+          : this.terminalName,
+        cwd: ctx.cwd,
+      });
+      if (session) {
+        this.sessionTerminals.set(terminal, session);
+      }
+      terminal.show(true);
+      terminal.sendText(command);
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the terminal to deliver to.
+   *
+   * Priority:
+   *  1. User-configured terminal name (exact match).
+   *  2. Terminal whose name matches the hint recorded at queue time, if it
+   *     belongs to this target.
+   *  3. Terminal named exactly like the ones this target creates.
+   *  4. Any terminal whose name contains the CLI name (case-insensitive).
+   * Other terminals are never used — a Codex prompt typed into a Claude
+   * session or a plain shell would run there. Undefined = start a new one.
+   */
+  findTerminal(hint?: string): vscode.Terminal | undefined {
+    const terminals = vscode.window.terminals;
+
+    const configuredName = this.configuredTerminalName();
+    if (configuredName) {
+      const byConfig = terminals.find((t) => t.name === configuredName);
+      if (byConfig) {
+        return byConfig;
+      }
+    }
+
+    if (hint && this.ownsTerminal(hint)) {
+      const byHint = terminals.find((t) => t.name === hint);
+      if (byHint) {
+        return byHint;
+      }
+    }
+    return (
+      terminals.find((t) => t.name === this.terminalName) ??
+      terminals.find((t) => this.matchesTerminalName(t.name))
+    );
+  }
+
+  /** A running terminal this target started for `session`. */
+  private findSessionTerminal(session: string): vscode.Terminal | undefined {
+    return vscode.window.terminals.find(
+      (t) =>
+        this.sessionTerminals.get(t) === session && t.exitStatus === undefined,
+    );
+  }
+}
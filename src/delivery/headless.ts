@@ -0,0 +1,96 @@
+/**
+ * Headless delivery — runs a CLI as a child process (the Claude CLI in print
+ * mode, `claude -p`, or a user command template) and captures its output.
+ *
+ * No VS Code dependency: the caller resolves settings and the working
+ * directory. The prompt is written to stdin, so its length and quoting never
+ * reach a shell.
+ */
+import { spawn } from "child_process";
+import { isValidSessionId, SessionMode } from "../util/claudeSessions";
+
+/** Captured output is truncated beyond this many characters per stream. */
+export const HEADLESS_OUTPUT_MAX_CHARS = 100_000;
+
+export interface HeadlessRunOptions {
+  /** Executable to run, or a full command line when `shell` is set. */
+  command: string;
+  args: string[];
+  /** Run `command` through the system shell (command templates). */
+  shell?: boolean;
+  /** Working directory — the item's workspace folder. */
+  cwd: string;
+  promptText: string;
+  /** Kill the process after this many ms. */
+  timeoutMs: number;
+}
+
+export interface HeadlessResult {
+  /** Exit code; null when the process was killed (timeout). */
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+/** CLI arguments for print mode, continuing or resuming a session if asked. */
+export function claudePrintArgs(
+  mode: SessionMode = "new",
+  sessionId?: string,
+): string[] {
+  if (mode === "resume" && sessionId && isValidSessionId(sessionId)) {
+    return ["-p", "--resume", sessionId];
+  }
+  if (mode === "resume" || mode === "continue") {
+    return ["-p", "--continue"];
+  }
+  return ["-p"];
+}
+
+function appendCapped(buf: string, chunk: Buffer): string {
+  return buf.length >= HEADLESS_OUTPUT_MAX_CHARS
+    ? buf
+    : (buf + chunk.toString("utf8")).slice(0, HEADLESS_OUTPUT_MAX_CHARS);
+}
+
+/**
+ * Run the command, feed the prompt on stdin and collect its output.
+ * Rejects only when the process cannot be started (e.g. ENOENT) — a non-zero
+ * exit code is reported in the result for the caller to judge.
+ */
+export function runHeadless(opts: HeadlessRunOptions): Promise<HeadlessResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(opts.command, opts.args, {
+      cwd: opts.cwd,
+      shell: opts.shell ?? false,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill();
+    }, opts.timeoutMs);
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      stdout = appendCapped(stdout, chunk);
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr = appendCapped(stderr, chunk);
+    });
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      resolve({ exitCode: code, stdout, stderr, timedOut });
+    });
+
+    // A process that exits without reading stdin raises EPIPE — the exit
+    // code tells the real story, so ignore it here.
+    child.stdin.on("error", () => undefined);
+    child.stdin.end(opts.promptText, "utf8");
+  });
+}
@@ -2,26 +2,67 @@
  * Extension entry point — Prompt Queue + Usage Monitor
  */
 import * as vscode from "vscode";
-import { QueueStore } from "./queue/QueueStore";
+import {
+  PromptContext,
+  QueueScope,
+  QueueStore,
+  WINDOW_RESET_BUFFER_MS,
+  workspaceFolderForScope,
+} from "./queue/QueueStore";
 import { QueueProcessor } from "./queue/QueueProcessor";
+import { HistoryEntry, HistoryStore } from "./queue/HistoryStore";
+import { PromptFolderWatcher } from "./queue/PromptFolderWatcher";
+import {
+  createQueueBackend,
+  prepareQueueStorage,
+} from "./storage/queueBackends";
+import { FileClaimLock } from "./storage/ClaimLock";
 import { ClaudeLocalProvider } from "./usage/ClaudeLocalProvider";
 import { OpenAIUsageProvider } from "./usage/OpenAIUsageProvider";
 import { AnthropicUsageProvider } from "./usage/AnthropicUsageProvider";
 import { UsageService } from "./usage/UsageService";
+import { RateLimitWatcher } from "./usage/RateLimitWatcher";
 import { UsageWebviewProvider } from "./ui/UsageWebviewProvider";
 import { QueueWebviewProvider } from "./ui/QueueWebviewProvider";
 import { ClaudeCommandsWebviewProvider } from "./ui/ClaudeCommandsWebviewProvider";
 import { ClaudeSettingsWebviewProvider } from "./ui/ClaudeSettingsWebviewProvider";
+import { HistoryPanel } from "./ui/HistoryPanel";
+import { QueueCodeLensProvider } from "./ui/QueueCodeLensProvider";
+import { QueueStatusBar } from "./ui/QueueStatusBar";
+import {
+  deliveryVariables,
+  PromptTemplate,
+} from "./templates/promptTemplates";
+import {
+  TemplateLibrary,
+  templatePickItem,
+} from "./templates/TemplateLibrary";
 import { SETTINGS_PATH } from "./settings/ClaudeSettingsService";
+import {
+  readLastUserPrompt,
+  resolveSessionTarget,
+  SessionMode,
+} from "./util/claudeSessions";
 import { generateShortId } from "./util/crypto";
 import {
   addHours,
-  addMinutes,
   formatDisplayTime,
   parseRateLimitDelay,
   parseRateLimitMessage,
+  parseScheduleInput,
   RateLimitInfo,
 } from "./util/time";
+import {
+  captureContext,
+  changesPrompt,
+  CodeAction,
+  ContextDelivery,
+  contextLabel,
+  editorContext,
+  FILE_PROMPT,
+  SELECTION_PROMPT,
+  symbolPrompt,
+} from "./util/promptContext";
 
 export function activate(context: vscode.ExtensionContext): void {
   // ── Output channel ─────────────────────────────────────────────────────────
@@ -30,8 +71,20 @@ export function activate(context: vscode.ExtensionContext): void {
   context.subscriptions.push(log);
 
   // ── Queue ──────────────────────────────────────────────────────────────────
-  const store = new QueueStore(context.globalState);
-  const processor = new QueueProcessor(store, log);
+  const backend = createQueueBackend(
+    context.globalState,
+    context.globalStorageUri,
+    log,
+  );
+  // Claim files decide which window delivers an item (see storage/ClaimLock).
+  const store = new QueueStore(
+    context.globalState,
+    backend,
+    new FileClaimLock(
+      vscode.Uri.joinPath(context.globalStorageUri, "claims").fsPath,
+    ),
+  );
+  log.appendLine(`[Extension] Queue storage: ${backend.location}`);
 
   // ── Usage providers ────────────────────────────────────────────────────────
   const claudeLocalProvider = new ClaudeLocalProvider(log);
@@ -41,11 +94,37 @@ export function activate(context: vscode.ExtensionContext): void {
     [claudeLocalProvider, openaiProvider, anthropicProvider],
     log,
   );
+  const processor = new QueueProcessor(store, log, usageService);
+
+  // ── History ────────────────────────────────────────────────────────────────
+  const history = new HistoryStore(
+    vscode.Uri.joinPath(context.globalStorageUri, "history.json").fsPath,
+    log,
+  );
+  context.subscriptions.push(
+    processor.onDidFinishDelivery((outcome) =>
+      history
+        .record(outcome)
+        .catch((err) =>
+          log.appendLine(`[Extension] History write error: ${err}`),
+        ),
+    ),
+  );
 
   // ── Views ───────────────────────────────────────────────────────────────────
+  const templateLibrary = new TemplateLibrary(log);
   const usageWebviewProvider = new UsageWebviewProvider(usageService);
-  const queueWebviewProvider = new QueueWebviewProvider(store, processor, log);
-  const claudeCommandsProvider = new ClaudeCommandsWebviewProvider();
+  const queueWebviewProvider = new QueueWebviewProvider(
+    store,
+    processor,
+    usageService,
+    log,
+    templateLibrary,
+  );
+  const claudeCommandsProvider = new ClaudeCommandsWebviewProvider({
+    queue: (promptText) => enqueuePrompt(promptText),
+    sendNow: sendPromptNow,
+  });
   const claudeSettingsProvider = new ClaudeSettingsWebviewProvider();
 
   context.subscriptions.push(
@@ -71,6 +150,9 @@ export function activate(context: vscode.ExtensionContext): void {
     ),
   );
 
+  const statusBar = new QueueStatusBar(store, processor, usageService);
+  context.subscriptions.push(statusBar);
+
   // ── Commands — Queue ───────────────────────────────────────────────────────
 
   /**
@@ -118,7 +200,29 @@ export function activate(context: vscode.ExtensionContext): void {
         vscode.window.showWarningMessage("Editor / selection is empty.");
         return;
       }
-      await enqueuePrompt(text);
+      // A prompt about a file on disk refers to it instead of pasting it.
+      const reference = editorContext(editor, contextSnapshots());
+      if (!reference) {
+        await enqueuePrompt(text);
+        return;
+      }
+      const label = contextLabel(
+        reference,
+        vscode.workspace.getWorkspaceFolder(editor.document.uri)?.uri.fsPath,
+      );
+      const question = await vscode.window.showInputBox({
+        title: `Queue prompt about ${label}`,
+        prompt: `What should Claude do with ${label}? Leave empty to queue the ${selection.isEmpty ? "file's" : "selected"} text itself.`,
+        ignoreFocusOut: true,
+      });
+      if (question === undefined) {
+        return;
+      }
+      if (!question.trim()) {
+        await enqueuePrompt(text);
+        return;
+      }
+      await enqueuePrompt(question, { context: reference });
     },
   );
 
@@ -275,39 +379,137 @@ export function activate(context: vscode.ExtensionContext): void {
       }
 
       // ── Step 6: queue ──────────────────────────────────────────────────────
-      const now = new Date();
-      const notBefore = addHours(now, finalDelay);
-      const workspaceFolder =
-        vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "";
-
-      const item = {
-        id: generateShortId(),
-        createdAt: now.toISOString(),
-        notBefore: notBefore.toISOString(),
-        promptText,
-        workspaceFolder,
-        processed: false,
-        targetTerminalName: vscode.window.activeTerminal?.name,
-      };
-
-      await store.add(item);
-      queueWebviewProvider.refresh();
-
       // Anchor the usage window to the known reset time for accurate token display
       if (rateLimitInfo.resetAt) {
         usageService.setWindowHint(rateLimitInfo.resetAt);
       }
+      await queueRateLimitedPrompt(promptText, finalDelay);
+    },
+  );
+
+  // ── Commands — Queue about code (Explorer, editor, SCM, CodeLens) ─────────
+  // Each opens the queue form with a prompt and a file reference filled in.
+
+  const cmdQueueAboutFile = vscode.commands.registerCommand(
+    "promptQueue.queueAboutFile",
+    async (uri?: vscode.Uri) => {
+      const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+      if (!target || target.scheme !== "file") {
+        vscode.window.showWarningMessage("No file to queue a prompt about.");
+        return;
+      }
+      const doc = await openDocument(target);
+      if (doc) {
+        await queueWebviewProvider.prefill(
+          FILE_PROMPT,
+          captureContext(
+            target.fsPath,
+            doc.getText(),
+            undefined,
+            contextSnapshots(),
+          ),
+        );
+      }
+    },
+  );
 
-      const resetStr = formatDisplayTime(notBefore);
-      log.appendLine(
-        `[Extension] Rate-limited queue: ${item.id} notBefore=${item.notBefore}`,
-      );
-      vscode.window.showInformationMessage(
-        `⏰ PromptQueue: Prompt queued — will be delivered at ${resetStr}  [id: ${item.id}]`,
+  const cmdQueueAboutSelection = vscode.commands.registerCommand(
+    "promptQueue.queueAboutSelection",
+    async () => {
+      const editor = vscode.window.activeTextEditor;
+      const reference = editor && editorContext(editor, contextSnapshots());
+      if (!reference) {
+        vscode.window.showWarningMessage(
+          "Open a saved file to queue a prompt about its selection.",
+        );
+        return;
+      }
+      await queueWebviewProvider.prefill(
+        reference.startLine === undefined ? FILE_PROMPT : SELECTION_PROMPT,
+        reference,
       );
     },
   );
 
+  /** From a CodeLens: arguments as built by QueueCodeLensProvider. */
+  const cmdQueueAboutSymbol = vscode.commands.registerCommand(
+    "promptQueue.queueAboutSymbol",
+    async (
+      uri: vscode.Uri,
+      startLine: number,
+      endLine: number,
+      name: string,
+      action: CodeAction,
+    ) => {
+      const doc = await openDocument(uri);
+      if (doc) {
+        await queueWebviewProvider.prefill(
+          symbolPrompt(action, name),
+          captureContext(
+            uri.fsPath,
+            doc.getText(),
+            { startLine, endLine },
+            contextSnapshots(),
+          ),
+        );
+      }
+    },
+  );
+
+  /**
+   * From the SCM view: the selected changed files (resource states), or —
+   * from the title bar — all uncommitted changes.
+   */
+  const cmdQueueReviewChanges = vscode.commands.registerCommand(
+    "promptQueue.queueReviewChanges",
+    async (...args: unknown[]) => {
+      const files = args
+        .flat()
+        .filter(
+          (a): a is vscode.SourceControlResourceState =>
+            !!a && typeof a === "object" && "resourceUri" in a,
+        )
+        .map((state) => vscode.workspace.asRelativePath(state.resourceUri));
+      await queueWebviewProvider.prefill(changesPrompt([...new Set(files)]));
+    },
+  );
+
+  const codeLensProvider = new QueueCodeLensProvider();
+  context.subscriptions.push(
+    codeLensProvider,
+    vscode.languages.registerCodeLensProvider(
+      { scheme: "file" },
+      codeLensProvider,
+    ),
+  );
+
+  // ── Automatic rate-limit detection ─────────────────────────────────────────
+
+  const rateLimitWatcher = new RateLimitWatcher(log);
+  rateLimitWatcher.onDidDetect(async ({ info, source }) => {
+    if (info.resetAt) {
+      usageService.setWindowHint(info.resetAt);
+    }
+    const resetLabel = info.resetAt
+      ? formatDisplayTime(info.resetAt)
+      : `in ${info.delayHours}h`;
+    const choice = await vscode.window.showWarningMessage(
+      `PromptQueue: Claude rate limit detected in ${source} — resets ${resetLabel}.`,
+      "Queue Last Prompt for Reset",
+      "Dismiss",
+    );
+    if (choice !== "Queue Last Prompt for Reset") {
+      return;
+    }
+    const promptText = await getRateLimitedPromptText();
+    if (!promptText) {
+      return;
+    }
+    await queueRateLimitedPrompt(promptText, info.delayHours);
+  });
+  rateLimitWatcher.start();
+  context.subscriptions.push(rateLimitWatcher);
+
   // ── Commands — Usage ───────────────────────────────────────────────────────
 
   const cmdRefreshUsage = vscode.commands.registerCommand(
@@ -424,12 +626,32 @@ export function activate(context: vscode.ExtensionContext): void {
 
   const cmdExportQueue = vscode.commands.registerCommand(
     "promptQueue.exportQueue",
-    () => queueWebviewProvider.exportQueue(),
+    (uri?: vscode.Uri) => queueWebviewProvider.exportQueue(uri),
   );
 
   const cmdImportQueue = vscode.commands.registerCommand(
     "promptQueue.importQueue",
-    () => queueWebviewProvider.importQueue(),
+    (uri?: vscode.Uri) => queueWebviewProvider.importQueue(uri),
+  );
+
+  const cmdShowHistory = vscode.commands.registerCommand(
+    "promptQueue.showHistory",
+    () =>
+      HistoryPanel.show(
+        history,
+        processor.getTargets(),
+        (entry: HistoryEntry) =>
+          enqueuePrompt(entry.promptText, {
+            target: entry.target,
+            workspaceFolder: entry.workspaceFolder,
+          }),
+        log,
+      ),
+  );
+
+  const cmdNewTemplate = vscode.commands.registerCommand(
+    "promptQueue.newTemplate",
+    () => templateLibrary.create(),
   );
 
   const cmdTogglePause = vscode.commands.registerCommand(
@@ -450,6 +672,11 @@ export function activate(context: vscode.ExtensionContext): void {
     },
   );
 
+  const cmdStatusBarMenu = vscode.commands.registerCommand(
+    "promptQueue.statusBarMenu",
+    () => statusBar.showMenu(),
+  );
+
   const cmdOpenRawSettings = vscode.commands.registerCommand(
     "claude.openRawSettings",
     async () => {
@@ -463,11 +690,18 @@ export function activate(context: vscode.ExtensionContext): void {
     cmdQueuePrompt,
     cmdQueueFromClipboard,
     cmdQueueFromEditor,
+    cmdQueueAboutFile,
+    cmdQueueAboutSelection,
+    cmdQueueAboutSymbol,
+    cmdQueueReviewChanges,
     cmdImRateLimited,
     cmdProcessNow,
     cmdExportQueue,
     cmdImportQueue,
+    cmdShowHistory,
+    cmdNewTemplate,
     cmdTogglePause,
+    cmdStatusBarMenu,
     cmdRefreshUsage,
     cmdSetLimits,
     cmdShowSummary,
@@ -488,7 +722,46 @@ export function activate(context: vscode.ExtensionContext): void {
     );
   }
 
-  processor.start();
+  // Schema upgrades and the globalState → file move run before delivery starts.
+  const storageReady = prepareQueueStorage(backend, context.globalState, log)
+    .catch((err) =>
+      log.appendLine(`[Extension] Queue storage preparation error: ${err}`),
+    )
+    .then(() => queueWebviewProvider.refresh());
+
+  // The backend is chosen at activation.
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(async (e) => {
+      if (
+        !e.affectsConfiguration("promptQueue.storage") &&
+        !e.affectsConfiguration("promptQueue.storagePath")
+      ) {
+        return;
+      }
+      const answer = await vscode.window.showInformationMessage(
+        "PromptQueue: reload the window to switch queue storage.",
+        "Reload",
+      );
+      if (answer === "Reload") {
+        await vscode.commands.executeCommand("workbench.action.reloadWindow");
+      }
+    }),
+  );
+
+  storageReady.then(() => processor.start());
+
+  // ── Prompt files in the workspace ──────────────────────────────────────────
+  const promptFolderWatcher = new PromptFolderWatcher(
+    store,
+    processor,
+    context.globalState,
+    log,
+  );
+  context.subscriptions.push(
+    promptFolderWatcher,
+    promptFolderWatcher.onDidChange(() => queueWebviewProvider.refresh()),
+  );
+  storageReady.then(() => promptFolderWatcher.start());
 
   // Also trigger processing when VS Code window gains focus (handles wake-from-sleep).
   context.subscriptions.push(
@@ -503,14 +776,31 @@ export function activate(context: vscode.ExtensionContext): void {
     }),
   );
 
+  // Items queued "at next window reset" follow the detected window end.
+  context.subscriptions.push(
+    usageService.onDidChange(async (usage) => {
+      try {
+        const moved = await store.followWindowReset(usage.bestWindowEnd);
+        if (moved > 0) {
+          log.appendLine(
+            `[Extension] Re-timed ${moved} window-reset item(s) to ${usage.bestWindowEnd?.toISOString()}`,
+          );
+          queueWebviewProvider.refresh();
+        }
+      } catch (err) {
+        log.appendLine(`[Extension] Window-reset follow error: ${err}`);
+      }
+    }),
+  );
+
   const config = vscode.workspace.getConfiguration("usage");
   const refreshInterval: number = config.get("refreshIntervalMinutes", 10);
   usageService.start(refreshInterval);
 
   // Initial processing pass + usage refresh (deferred slightly)
   setTimeout(() => {
-    processor
-      .process()
+    storageReady
+      .then(() => processor.process())
       .catch((err) =>
         log.appendLine(`[Extension] Initial process error: ${err}`),
       );
@@ -532,17 +822,109 @@ export function activate(context: vscode.ExtensionContext): void {
 
   // ── Helpers ────────────────────────────────────────────────────────────────
 
+  /**
+   * Session fields for items queued from commands, per
+   * promptQueue.defaultSessionMode ("new" is the default and is not stored).
+   */
+  function defaultSessionFields(
+    workspaceFolder: string,
+  ): { sessionMode?: SessionMode; sessionId?: string } {
+    const mode = vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<SessionMode>("defaultSessionMode", "new");
+    const session = resolveSessionTarget(mode, workspaceFolder);
+    return session.sessionMode === "new" ? {} : session;
+  }
+
+  /** The document at `uri`, or undefined (after a warning) when it cannot be read. */
+  async function openDocument(
+    uri: vscode.Uri,
+  ): Promise<vscode.TextDocument | undefined> {
+    try {
+      return await vscode.workspace.openTextDocument(uri);
+    } catch (err) {
+      vscode.window.showWarningMessage(
+        `PromptQueue: Cannot read ${vscode.workspace.asRelativePath(uri)}: ${err}`,
+      );
+      return undefined;
+    }
+  }
+
+  /** Whether file references store a snapshot (promptQueue.contextDelivery). */
+  function contextSnapshots(): boolean {
+    return (
+      vscode.workspace
+        .getConfiguration("promptQueue")
+        .get<ContextDelivery>("contextDelivery", "mention") === "snapshot"
+    );
+  }
+
+  /** Workspace folder for items queued from commands (promptQueue.defaultScope). */
+  function defaultWorkspaceFolder(): string {
+    return workspaceFolderForScope(
+      vscode.workspace
+        .getConfiguration("promptQueue")
+        .get<QueueScope>("defaultScope", "workspace"),
+      (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath),
+    );
+  }
+
+  /** Queue `promptText` to be delivered `delayHours` from now (rate-limit flows). */
+  async function queueRateLimitedPrompt(
+    promptText: string,
+    delayHours: number,
+  ): Promise<void> {
+    const now = new Date();
+    const notBefore = addHours(now, delayHours);
+    const workspaceFolder = defaultWorkspaceFolder();
+
+    const item = {
+      id: generateShortId(),
+      createdAt: now.toISOString(),
+      notBefore: notBefore.toISOString(),
+      promptText,
+      workspaceFolder,
+      processed: false,
+      targetTerminalName: processor.getTargets().terminalHint(),
+      ...defaultSessionFields(workspaceFolder),
+    };
+
+    await store.add(item);
+    queueWebviewProvider.refresh();
+
+    const resetStr = formatDisplayTime(notBefore);
+    log.appendLine(
+      `[Extension] Rate-limited queue: ${item.id} notBefore=${item.notBefore}`,
+    );
+    vscode.window.showInformationMessage(
+      `⏰ PromptQueue: Prompt queued — will be delivered at ${resetStr}  [id: ${item.id}]`,
+    );
+  }
+
   /**
    * Specifically for "I'm rate limited" flow:
-   * Offers 3 sources in a QuickPick so the user can pick the right one.
+   * Offers the available sources in a QuickPick so the user can pick the right one.
+   * The prompt rejected by the limit — the last one typed in the workspace's
+   * newest Claude session — comes first when it can be found.
    */
   async function getRateLimitedPromptText(): Promise<string | undefined> {
     const editor = vscode.window.activeTextEditor;
     const hasSelection = editor && !editor.selection.isEmpty;
     const hasEditorContent = !!editor;
+    const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const lastPrompt = workspacePath
+      ? readLastUserPrompt(workspacePath)
+      : undefined;
 
     const sources: vscode.QuickPickItem[] = [];
 
+    if (lastPrompt) {
+      sources.push({
+        label: "$(history) Last prompt from Claude session",
+        description: lastPrompt.replace(/\s+/g, " ").slice(0, 60),
+      });
+    }
+
     if (hasSelection) {
       sources.push({
         label: "$(selection) Use current editor selection",
@@ -573,6 +955,14 @@ export function activate(context: vscode.ExtensionContext): void {
       return undefined;
     }
 
+    if (pick.label.includes("Last prompt")) {
+      // Editable: the user may want to tweak it before re-queuing.
+      return vscode.window.showInputBox({
+        title: "Prompt to queue",
+        value: lastPrompt,
+        ignoreFocusOut: true,
+      });
+    }
     if (pick.label.includes("selection")) {
       return editor!.document.getText(editor!.selection);
     }
@@ -597,14 +987,41 @@ export function activate(context: vscode.ExtensionContext): void {
 
   /**
    * Get prompt text:
-   *   1. Active editor selection
-   *   2. If no selection → show input box
+   *   1. A prompt template, when there are any (see TemplateLibrary)
+   *   2. Active editor selection
+   *   3. If no selection → show input box
    */
   async function getPromptText(
     placeholder: string,
   ): Promise<string | undefined> {
     const editor = vscode.window.activeTextEditor;
-    if (editor && !editor.selection.isEmpty) {
+    const hasSelection = !!editor && !editor.selection.isEmpty;
+    const templates = templateLibrary.list();
+    if (templates.length > 0) {
+      const picked = await vscode.window.showQuickPick<
+        vscode.QuickPickItem & { template?: PromptTemplate }
+      >(
+        [
+          hasSelection
+            ? { label: "$(selection) Use current editor selection" }
+            : { label: "$(edit) Type a prompt now" },
+          { label: "Templates", kind: vscode.QuickPickItemKind.Separator },
+          ...templates.map(templatePickItem),
+        ],
+        {
+          title: "What prompt do you want to queue?",
+          matchOnDescription: true,
+          ignoreFocusOut: true,
+        },
+      );
+      if (!picked) {
+        return undefined;
+      }
+      if (picked.template) {
+        return templateLibrary.expand(picked.template);
+      }
+    }
+    if (hasSelection) {
       return editor.document.getText(editor.selection);
     }
 
@@ -617,9 +1034,18 @@ export function activate(context: vscode.ExtensionContext): void {
   }
 
   /**
-   * Ask for delay, create queue item.
+   * Ask for a delay or an absolute time, create queue item.
+   * The input box previews the resolved delivery time as the user types.
+   * `overrides` keeps the target and workspace of a re-queued history entry.
    */
-  async function enqueuePrompt(promptText: string): Promise<void> {
+  async function enqueuePrompt(
+    promptText: string,
+    overrides: {
+      target?: string;
+      workspaceFolder?: string;
+      context?: PromptContext;
+    } = {},
+  ): Promise<void> {
     const cfg = vscode.workspace.getConfiguration("promptQueue");
     const defaultDelayMinutes: number = cfg.get("defaultDelayMinutes", 30);
 
@@ -635,19 +1061,35 @@ export function activate(context: vscode.ExtensionContext): void {
       /* ignore */
     }
 
+    const windowEnd = usageService.getCached()?.bestWindowEnd;
+
     const delayStr = await vscode.window.showInputBox({
-      prompt: `Delay in minutes (e.g. 30) or a specific time (e.g. 22:00). Detected: ${suggestedMinutes}min`,
+      prompt:
+        `When? Minutes (30), a time (22:00, 9am), "tomorrow 9am", ` +
+        `"next monday 08:00", an ISO timestamp or "reset" (next window reset). ` +
+        `Detected: ${suggestedMinutes}min`,
       value: String(suggestedMinutes),
       validateInput: (v) => {
-        const trimmed = v.trim();
-        if (/^\d{1,2}:\d{2}$/.test(trimmed)) {
-          return null;
-        } // HH:MM format
-        const n = parseFloat(trimmed);
-        if (isNaN(n) || n < 0) {
-          return "Enter minutes (e.g. 30) or a time (e.g. 22:00)";
+        if (isWindowResetInput(v)) {
+          return windowEnd
+            ? {
+                message: `→ Follows the window reset, currently ${formatDisplayTime(windowEnd)}`,
+                severity: vscode.InputBoxValidationSeverity.Info,
+              }
+            : 'No active rate-limit window detected — run "Usage: Refresh" or enter a time';
+        }
+        const checkedAt = new Date();
+        const at = parseScheduleInput(v, checkedAt);
+        if (!at) {
+          return 'Enter minutes (30), a time (22:00), "tomorrow 9am" or an ISO timestamp';
         }
-        return null;
+        if (at.getTime() < checkedAt.getTime()) {
+          return `${formatDisplayTime(at)} is in the past`;
+        }
+        return {
+          message: `→ Delivers at ${formatDisplayTime(at)}`,
+          severity: vscode.InputBoxValidationSeverity.Info,
+        };
       },
       ignoreFocusOut: true,
     });
@@ -657,26 +1099,17 @@ export function activate(context: vscode.ExtensionContext): void {
     } // User cancelled
 
     const now = new Date();
-    let notBefore: Date;
-    const timeMatch = delayStr.trim().match(/^(\d{1,2}):(\d{2})$/);
-    if (timeMatch) {
-      const target = new Date(now);
-      target.setHours(
-        parseInt(timeMatch[1], 10),
-        parseInt(timeMatch[2], 10),
-        0,
-        0,
-      );
-      if (target.getTime() <= now.getTime()) {
-        target.setDate(target.getDate() + 1); // next day if time already passed
-      }
-      notBefore = target;
-    } else {
-      notBefore = addMinutes(now, parseFloat(delayStr));
+    const followReset = isWindowResetInput(delayStr) && !!windowEnd;
+    const notBefore = followReset
+      ? new Date(windowEnd.getTime() + WINDOW_RESET_BUFFER_MS)
+      : parseScheduleInput(delayStr, now);
+    if (!notBefore) {
+      return;
     }
 
     const workspaceFolder =
-      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "";
+      overrides.workspaceFolder ?? defaultWorkspaceFolder();
+    const deferred = deliveryVariables(promptText);
 
     const item = {
       id: generateShortId(),
@@ -685,18 +1118,59 @@ export function activate(context: vscode.ExtensionContext): void {
       promptText,
       workspaceFolder,
       processed: false,
-      targetTerminalName: vscode.window.activeTerminal?.name,
+      targetTerminalName: processor
+        .getTargets()
+        .terminalHint(overrides.target),
+      ...(overrides.target ? { target: overrides.target } : {}),
+      ...(followReset ? { scheduleMode: "windowReset" as const } : {}),
+      ...defaultSessionFields(workspaceFolder),
+      ...(deferred.length > 0 ? { deliveryVariables: deferred } : {}),
+      ...(overrides.context ? { context: overrides.context } : {}),
     };
 
     await store.add(item);
     queueWebviewProvider.refresh();
 
     vscode.window.showInformationMessage(
-      `PromptQueue: Queued for ${formatDisplayTime(notBefore)}  [id: ${item.id}]`,
+      followReset
+        ? `PromptQueue: Queued for the next window reset (currently ${formatDisplayTime(notBefore)})  [id: ${item.id}]`
+        : `PromptQueue: Queued for ${formatDisplayTime(notBefore)}  [id: ${item.id}]`,
     );
 
     log.appendLine(`[Extension] Queued ${item.id} notBefore=${item.notBefore}`);
   }
+
+  /**
+   * Queue `promptText` as due now and deliver it right away, the way
+   * the ➤ button in the queue view does — it stays queued if delivery fails.
+   */
+  async function sendPromptNow(promptText: string): Promise<void> {
+    const now = new Date();
+    const workspaceFolder = defaultWorkspaceFolder();
+    const deferred = deliveryVariables(promptText);
+
+    const item = {
+      id: generateShortId(),
+      createdAt: now.toISOString(),
+      notBefore: now.toISOString(),
+      promptText,
+      workspaceFolder,
+      processed: false,
+      targetTerminalName: processor.getTargets().terminalHint(),
+      ...defaultSessionFields(workspaceFolder),
+      ...(deferred.length > 0 ? { deliveryVariables: deferred } : {}),
+    };
+
+    await store.add(item);
+    queueWebviewProvider.refresh();
+    log.appendLine(`[Extension] Sending ${item.id} now`);
+    await processor.forceDeliver(item.id);
+  }
+}
+
+/** "reset" / "at reset" / "window reset" → deliver at the next window reset. */
+function isWindowResetInput(value: string): boolean {
+  return /^(?:at )?(?:next )?(?:window )?reset$/i.test(value.trim());
 }
 
 export function deactivate(): void {
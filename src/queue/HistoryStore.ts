@@ -0,0 +1,224 @@
+/**
+ * HistoryStore — every delivered or failed prompt, with its full text.
+ *
+ * Unlike the 20-entry delivery log in globalState, history lives in a JSON
+ * file under the extension's global storage so it can grow (bounded by
+ * `promptQueue.historyRetentionDays` / `historyMaxEntries`).
+ *
+ * The file is shared by all VS Code windows: every write re-reads it first
+ * and replaces it atomically (temp file → rename, as in ClaudeSettingsService).
+ * Within a window, changes run one at a time so none is lost.
+ */
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { DeliveryOutcome, QueuePriority } from "./QueueStore";
+import { generateShortId } from "../util/crypto";
+
+export interface HistoryEntry {
+  /** Unique id of this history entry. */
+  id: string;
+  /** Id of the queue item (recurring items produce several entries). */
+  itemId: string;
+  status: "delivered" | "failed";
+  /** The full prompt text. */
+  promptText: string;
+  /** Delivery target id. */
+  target: string;
+  /** Workspace folder of the item ('' = global). */
+  workspaceFolder: string;
+  priority?: QueuePriority;
+  /** Delivery attempts including the last one. */
+  attempts: number;
+  /** ISO 8601 — when the item was queued. */
+  createdAt: string;
+  /** ISO 8601 — the item's notBefore when it was sent. */
+  scheduledFor: string;
+  /** ISO 8601 — when delivery finished (or finally failed). */
+  finishedAt: string;
+  /** Duration of the last attempt. */
+  durationMs?: number;
+  /** Error message of the last attempt, for failed entries. */
+  error?: string;
+}
+
+export interface HistoryFilter {
+  /** Case-insensitive substring of the prompt text, error or item id. */
+  text?: string;
+  status?: "delivered" | "failed";
+  target?: string;
+  /** Exact workspace folder ('' = global items). */
+  workspaceFolder?: string;
+}
+
+export interface HistoryRetention {
+  /** Drop entries older than this many days (0 = keep forever). */
+  retentionDays: number;
+  /** Keep at most this many entries (0 = no limit). */
+  maxEntries: number;
+}
+
+export function historyEntryFromOutcome(
+  outcome: DeliveryOutcome,
+): HistoryEntry {
+  const { item } = outcome;
+  return {
+    id: generateShortId(),
+    itemId: item.id,
+    status: outcome.status,
+    promptText: item.promptText,
+    target: outcome.target,
+    workspaceFolder: item.workspaceFolder,
+    ...(item.priority ? { priority: item.priority } : {}),
+    attempts: outcome.attempts,
+    createdAt: item.createdAt,
+    scheduledFor: item.notBefore,
+    finishedAt: outcome.finishedAt.toISOString(),
+    durationMs: outcome.finishedAt.getTime() - outcome.startedAt.getTime(),
+    ...(outcome.error ? { error: outcome.error } : {}),
+  };
+}
+
+/** Entries matching every given criterion (order preserved). */
+export function filterHistory(
+  entries: HistoryEntry[],
+  filter: HistoryFilter,
+): HistoryEntry[] {
+  const text = filter.text?.trim().toLowerCase();
+  return entries.filter(
+    (e) =>
+      (!filter.status || e.status === filter.status) &&
+      (!filter.target || e.target === filter.target) &&
+      (filter.workspaceFolder === undefined ||
+        e.workspaceFolder === filter.workspaceFolder) &&
+      (!text ||
+        e.promptText.toLowerCase().includes(text) ||
+        (e.error ?? "").toLowerCase().includes(text) ||
+        e.itemId.includes(text)),
+  );
+}
+
+/** Apply retention to entries sorted newest first. */
+export function pruneHistory(
+  entries: HistoryEntry[],
+  retention: HistoryRetention,
+  now = Date.now(),
+): HistoryEntry[] {
+  let kept = entries;
+  if (retention.retentionDays > 0) {
+    const cutoff = now - retention.retentionDays * 24 * 60 * 60_000;
+    kept = kept.filter((e) => Date.parse(e.finishedAt) >= cutoff);
+  }
+  if (retention.maxEntries > 0 && kept.length > retention.maxEntries) {
+    kept = kept.slice(0, retention.maxEntries);
+  }
+  return kept;
+}
+
+export class HistoryStore {
+  private cache: { mtimeMs: number; entries: HistoryEntry[] } | undefined;
+  /** Tail of the running changes — each one starts after the previous. */
+  private writes: Promise<void> = Promise.resolve();
+
+  /** Fires after this window changed the history. */
+  readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly log: vscode.OutputChannel,
+  ) {}
+
+  /** All entries, newest first. Re-reads the file after other windows wrote it. */
+  getAll(): HistoryEntry[] {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.filePath).mtimeMs;
+    } catch {
+      return [];
+    }
+    if (this.cache?.mtimeMs === mtimeMs) {
+      return this.cache.entries;
+    }
+    let entries: HistoryEntry[] = [];
+    try {
+      const parsed: unknown = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8"),
+      );
+      if (!Array.isArray(parsed)) {
+        throw new Error("not an array");
+      }
+      entries = parsed as HistoryEntry[];
+    } catch (err) {
+      // Keep the unreadable file for inspection and start over.
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      this.log.appendLine(
+        `[HistoryStore] Cannot read ${this.filePath} (${err}) — moved to ${aside}`,
+      );
+      try {
+        fs.renameSync(this.filePath, aside);
+      } catch {
+        /* ignore */
+      }
+      this.cache = undefined;
+      return [];
+    }
+    this.cache = { mtimeMs, entries };
+    return entries;
+  }
+
+  get(id: string): HistoryEntry | undefined {
+    return this.getAll().find((e) => e.id === id);
+  }
+
+  /** Record a finished delivery, then apply retention. */
+  async record(outcome: DeliveryOutcome): Promise<void> {
+    const entry = historyEntryFromOutcome(outcome);
+    await this.change((entries) =>
+      pruneHistory([entry, ...entries], this.retention()),
+    );
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.change((entries) => entries.filter((e) => e.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    await this.change(() => []);
+  }
+
+  /**
+   * Read, modify and write the history after the changes already running
+   * in this window, so concurrent deliveries do not overwrite each other.
+   */
+  private change(
+    modify: (entries: HistoryEntry[]) => HistoryEntry[],
+  ): Promise<void> {
+    const run = this.writes.then(() => this.write(modify(this.getAll())));
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private retention(): HistoryRetention {
+    const cfg = vscode.workspace.getConfiguration("promptQueue");
+    return {
+      retentionDays: cfg.get<number>("historyRetentionDays", 90),
+      maxEntries: cfg.get<number>("historyMaxEntries", 5000),
+    };
+  }
+
+  /** Atomic write: sibling temp file, then rename over the history file. */
+  private async write(entries: HistoryEntry[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmp = `${this.filePath}.${process.pid}.${generateShortId()}.tmp`;
+    try {
+      await fs.promises.writeFile(tmp, JSON.stringify(entries), "utf8");
+      await fs.promises.rename(tmp, this.filePath);
+    } catch (err) {
+      await fs.promises.unlink(tmp).catch(() => undefined);
+      throw err;
+    }
+    this.cache = undefined;
+    this.onDidChangeEmitter.fire();
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * PromptFolderWatcher — prompt files checked into the workspace as a queue
+ * source. Every Markdown file with frontmatter directly in the prompt folder
+ * (`promptQueue.promptFolder`, e.g. `.claude/queue`; off by default) of a
+ * workspace folder is a queued prompt:
+ *
+ *   ---
+ *   delay: 30
+ *   priority: high
+ *   ---
+ *   Review the changes in src/queue.
+ *
+ * The file is the source: creating it queues the prompt, editing it
+ * updates the item, deleting it removes the item. Once delivered, the file
+ * is moved to `done/` or annotated with a `delivered` field
+ * (`promptQueue.promptFolderAfterDelivery`) so it is not queued again.
+ *
+ * A checked-out repository decides what gets sent to the agent, so folders
+ * are only watched in trusted workspaces, and the user approves each prompt
+ * folder before its first prompt is queued.
+ */
+import * as vscode from "vscode";
+import * as path from "path";
+import { QueueItem, QueueStore } from "./QueueStore";
+import { QueueProcessor } from "./QueueProcessor";
+import { DELIVERED_FIELD, parsePromptFile, resolveScope } from "./exchange";
+import { validateQueueItem } from "./schema";
+import { generateShortId } from "../util/crypto";
+import { setFrontmatterField } from "../util/frontmatter";
+import { ensureDir, readText, resolveCollision, writeText } from "../util/fs";
+
+export type PromptFileAfterDelivery = "move" | "annotate";
+
+/** Subfolder delivered prompt files are moved to ("move"). */
+const DONE_FOLDER = "done";
+
+/** Prompt folders (absolute paths) the user agreed to queue prompts from. */
+const APPROVED_FOLDERS_KEY = "promptQueue.approvedPromptFolders";
+
+export class PromptFolderWatcher implements vscode.Disposable {
+  private readonly disposables: vscode.Disposable[] = [];
+  private watchers: vscode.Disposable[] = [];
+  /** File events are handled one at a time, in order. */
+  private pending: Promise<void> = Promise.resolve();
+  /** Prompt folders the user was asked about in this window. */
+  private readonly asked = new Set<string>();
+
+  /** Fires after the queue changed because of a prompt file. */
+  readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  constructor(
+    private readonly store: QueueStore,
+    private readonly processor: QueueProcessor,
+    private readonly globalState: vscode.Memento,
+    private readonly log: vscode.OutputChannel,
+  ) {}
+
+  start(): void {
+    this.disposables.push(
+      this.processor.onDidFinishDelivery(({ item, status }) => {
+        // Recurring prompts stay queued; their file stays in place.
+        if (status === "delivered" && item.sourceFile && !item.recurrence) {
+          this.enqueue(() => this.settle(item.sourceFile as string));
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("promptQueue.promptFolder")) {
+          this.watch();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.watch()),
+      vscode.workspace.onDidGrantWorkspaceTrust(() => this.watch()),
+    );
+    this.watch();
+  }
+
+  dispose(): void {
+    this.watchers.forEach((w) => w.dispose());
+    this.disposables.forEach((d) => d.dispose());
+    this.onDidChangeEmitter.dispose();
+  }
+
+  /** (Re)create a watcher per workspace folder and queue existing files. */
+  private watch(): void {
+    this.watchers.forEach((w) => w.dispose());
+    this.watchers = [];
+    const folder = vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<string>("promptFolder", "")
+      .trim()
+      .replace(/^\/+|\/+$/g, "");
+    if (!folder) {
+      return;
+    }
+    if (!vscode.workspace.isTrusted) {
+      this.log.appendLine(
+        "[PromptFolderWatcher] Workspace not trusted — prompt folder ignored",
+      );
+      return;
+    }
+    for (const ws of vscode.workspace.workspaceFolders ?? []) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(ws, `${folder}/*.md`),
+      );
+      watcher.onDidCreate((uri) => this.enqueue(() => this.sync(uri, ws)));
+      watcher.onDidChange((uri) => this.enqueue(() => this.sync(uri, ws)));
+      watcher.onDidDelete((uri) => this.enqueue(() => this.forget(uri)));
+      this.watchers.push(watcher);
+      this.enqueue(() => this.scan(vscode.Uri.joinPath(ws.uri, folder), ws));
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.pending = this.pending
+      .then(task)
+      .catch((err) =>
+        this.log.appendLine(`[PromptFolderWatcher] Error: ${err}`),
+      );
+  }
+
+  /**
+   * Queue every prompt file in `dir`, and drop items whose file was deleted
+   * while VS Code was closed.
+   */
+  private async scan(
+    dir: vscode.Uri,
+    ws: vscode.WorkspaceFolder,
+  ): Promise<void> {
+    let entries: [string, vscode.FileType][] = [];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(dir);
+    } catch {
+      /* no prompt folder */
+    }
+    const files = entries
+      .filter(
+        ([name, type]) =>
+          type === vscode.FileType.File && name.toLowerCase().endsWith(".md"),
+      )
+      .map(([name]) => vscode.Uri.joinPath(dir, name));
+    for (const uri of files) {
+      await this.sync(uri, ws);
+    }
+    const present = new Set(files.map((f) => f.fsPath));
+    for (const item of this.store.getPending()) {
+      if (
+        item.sourceFile &&
+        path.dirname(item.sourceFile) === dir.fsPath &&
+        !present.has(item.sourceFile)
+      ) {
+        await this.remove(item, "file no longer exists");
+      }
+    }
+  }
+
+  /** Queue, update or drop the item of a created or edited file. */
+  private async sync(
+    uri: vscode.Uri,
+    ws: vscode.WorkspaceFolder,
+  ): Promise<void> {
+    let text: string;
+    try {
+      text = await readText(uri);
+    } catch {
+      return this.forget(uri);
+    }
+    const existing = this.itemFor(uri.fsPath);
+    const label = vscode.workspace.asRelativePath(uri);
+    // Delays count from when the file was first queued.
+    const file = parsePromptFile(
+      text,
+      label,
+      existing ? new Date(existing.createdAt) : new Date(),
+    );
+    if (!file || file.delivered) {
+      if (existing) {
+        await this.remove(
+          existing,
+          file ? "file marked delivered" : "frontmatter removed",
+        );
+      }
+      return;
+    }
+
+    const record = resolveScope(file.record, [ws.uri.fsPath]);
+    const result = validateQueueItem(record.raw);
+    const errors = [...record.errors, ...(result.ok ? [] : result.errors)];
+    if (!result.ok || errors.length > 0) {
+      // Keep the queued item (if any) until the file is fixed.
+      errors.forEach((e) =>
+        this.log.appendLine(`[PromptFolderWatcher] ${label}: ${e}`),
+      );
+      vscode.window.showWarningMessage(
+        `PromptQueue: ${label} was not queued — ${errors[0]}`,
+      );
+      return;
+    }
+
+    const fromFile = result.item;
+    if (!existing) {
+      if (!this.isApproved(path.dirname(uri.fsPath), ws)) {
+        return;
+      }
+      const taken = this.store.getAll().some((i) => i.id === fromFile.id);
+      const item: QueueItem = {
+        ...fromFile,
+        id: taken ? generateShortId() : fromFile.id,
+        processed: false,
+        sourceFile: uri.fsPath,
+      };
+      await this.store.add(item);
+      this.log.appendLine(
+        `[PromptFolderWatcher] Queued ${label} [id: ${item.id}] for ${item.notBefore}`,
+      );
+      this.onDidChangeEmitter.fire();
+      return;
+    }
+
+    const updated: QueueItem = {
+      ...fromFile,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      processed: false,
+      position: existing.position,
+      deliveryAttempts: existing.deliveryAttempts,
+      targetTerminalName: existing.targetTerminalName,
+      lease: existing.lease,
+      sourceFile: existing.sourceFile,
+      // A recurring prompt that already ran keeps its next run.
+      notBefore:
+        existing.recurrence && existing.notBefore > fromFile.notBefore
+          ? existing.notBefore
+          : fromFile.notBefore,
+    };
+    if (fileFields(updated) === fileFields(existing)) {
+      return;
+    }
+    await this.store.replace(updated);
+    this.log.appendLine(
+      `[PromptFolderWatcher] Updated [id: ${existing.id}] from ${label}`,
+    );
+    this.onDidChangeEmitter.fire();
+  }
+
+  private async forget(uri: vscode.Uri): Promise<void> {
+    const existing = this.itemFor(uri.fsPath);
+    if (existing) {
+      await this.remove(existing, "file deleted");
+    }
+  }
+
+  private async remove(item: QueueItem, reason: string): Promise<void> {
+    await this.store.remove(item.id);
+    this.log.appendLine(
+      `[PromptFolderWatcher] Removed [id: ${item.id}] — ${reason}`,
+    );
+    this.onDidChangeEmitter.fire();
+  }
+
+  /** Move or annotate a delivered prompt file so it is not queued again. */
+  private async settle(sourceFile: string): Promise<void> {
+    const uri = vscode.Uri.file(sourceFile);
+    const label = vscode.workspace.asRelativePath(uri);
+    const mode = vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<PromptFileAfterDelivery>("promptFolderAfterDelivery", "move");
+    try {
+      if (mode === "annotate") {
+        const text = await readText(uri);
+        await writeText(
+          uri,
+          setFrontmatterField(text, DELIVERED_FIELD, new Date().toISOString()),
+        );
+        this.log.appendLine(`[PromptFolderWatcher] Marked ${label} delivered`);
+        return;
+      }
+      const done = vscode.Uri.file(
+        path.join(path.dirname(sourceFile), DONE_FOLDER),
+      );
+      await ensureDir(done);
+      const target = await resolveCollision(
+        vscode.Uri.joinPath(done, path.basename(sourceFile)),
+      );
+      await vscode.workspace.fs.rename(uri, target);
+      this.log.appendLine(
+        `[PromptFolderWatcher] Moved ${label} to ${vscode.workspace.asRelativePath(target)}`,
+      );
+    } catch (err) {
+      this.log.appendLine(
+        `[PromptFolderWatcher] Cannot ${mode} ${label}: ${err}`,
+      );
+      vscode.window.showWarningMessage(
+        `PromptQueue: ${label} was delivered but could not be ${mode === "move" ? "moved to done/" : "annotated"} — remove it, or it will be queued again.`,
+      );
+    }
+  }
+
+  /**
+   * Whether prompts may be queued from the prompt folder `dir`. The first
+   * time, the user is asked — without holding up other file events — and
+   * the folder is scanned again once approved.
+   */
+  private isApproved(dir: string, ws: vscode.WorkspaceFolder): boolean {
+    const approved = this.globalState.get<string[]>(APPROVED_FOLDERS_KEY, []);
+    if (approved.includes(dir)) {
+      return true;
+    }
+    if (!this.asked.has(dir)) {
+      this.asked.add(dir);
+      this.askApproval(dir, ws).catch((err) =>
+        this.log.appendLine(`[PromptFolderWatcher] Error: ${err}`),
+      );
+    }
+    return false;
+  }
+
+  private async askApproval(
+    dir: string,
+    ws: vscode.WorkspaceFolder,
+  ): Promise<void> {
+    const label = vscode.workspace.asRelativePath(dir);
+    const answer = await vscode.window.showWarningMessage(
+      `PromptQueue: Queue the prompt files in ${label}? Their prompts will be sent to your agent when due — only allow this for folders you trust.`,
+      "Queue Prompts",
+      "Not Now",
+    );
+    if (answer !== "Queue Prompts") {
+      this.log.appendLine(
+        `[PromptFolderWatcher] Prompt files in ${label} not queued`,
+      );
+      return;
+    }
+    const approved = this.globalState.get<string[]>(APPROVED_FOLDERS_KEY, []);
+    await this.globalState.update(APPROVED_FOLDERS_KEY, [...approved, dir]);
+    this.enqueue(() => this.scan(vscode.Uri.file(dir), ws));
+  }
+
+  /** The pending item read from `sourceFile`, if any. */
+  private itemFor(sourceFile: string): QueueItem | undefined {
+    return this.store.getPending().find((i) => i.sourceFile === sourceFile);
+  }
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+/** The item fields a prompt file sets, for change detection. */
+function fileFields(item: QueueItem): string {
+  return JSON.stringify([
+    item.promptText,
+    item.notBefore,
+    item.priority,
+    item.target,
+    item.workspaceFolder,
+    item.dependsOn,
+    item.recurrence,
+    item.scheduleMode,
+    item.sessionMode,
+    item.sessionId,
+  ]);
+}
@@ -1,45 +1,99 @@
 import * as vscode from "vscode";
-import * as path from "path";
 import * as fs from "fs";
 import * as os from "os";
-import { QueueStore, QueueItem, DeliveryLogEntry } from "./QueueStore";
-import { isOverdue } from "../util/time";
+import {
+  QueueStore,
+  QueueItem,
+  DeliveryOutcome,
+  PromptContext,
+  getDependencyStatus,
+  isRoutedTo,
+  sortForDelivery,
+} from "./QueueStore";
+import { generateShortId } from "../util/crypto";
+import { formatDisplayTime, isOverdue } from "../util/time";
+import { describeRecurrence, nextOccurrence } from "../util/recurrence";
+import {
+  findLatestSessionFile,
+  isSessionIdle,
+  lastConversationEntry,
+  readLastEntries,
+} from "../util/claudeSessions";
+import { checkQuota, estimatePromptCost } from "../util/quota";
+import {
+  contextChanged,
+  contextLabel,
+  expandContext,
+} from "../util/promptContext";
+import { fillPlaceholders } from "../templates/promptTemplates";
+import { resolveVariables } from "../templates/TemplateLibrary";
+import { UsageService } from "../usage/UsageService";
+import {
+  builtInDeliveryTargets,
+  DEFAULT_TARGET_ID,
+  DeliveryTargetRegistry,
+} from "../delivery/DeliveryTargetRegistry";
+import {
+  DeliveryResult,
+  NonRetryableDeliveryError,
+} from "../delivery/IDeliveryTarget";
 
 const PROCESS_INTERVAL_MS = 60_000; // 1 minute
-
-/**
- * Thrown when delivery cannot proceed due to permanent/config issues.
- * These errors keep the item in queue for the user to manually retry —
- * they are NOT rescheduled with exponential backoff.
- *
- * Examples: configured terminal name not found, wrong terminal name.
- * (Contrast with transient errors like momentary storage failures, which
- * go through the normal retry path.)
- */
-class NonRetryableDeliveryError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "NonRetryableDeliveryError";
-  }
-}
+/** Re-check interval while due items wait for the Claude session to go idle. */
+const IDLE_POLL_MS = 5_000;
+/** Added to the delivery timeout to get the lease duration. */
+const LEASE_MARGIN_MINUTES = 5;
 
 export class QueueProcessor {
   private readonly store: QueueStore;
   private readonly log: vscode.OutputChannel;
   private timer: ReturnType<typeof setInterval> | undefined;
+  private idlePoll: ReturnType<typeof setTimeout> | undefined;
   private _paused = false;
+  /** Last successful send — the session that must go idle in waitForIdle mode. */
+  private lastSent: { at: number; workspaceFolder: string } | undefined;
+  /** Due items held back by the quota gate in the last tick → reason. */
+  private readonly quotaHolds = new Map<string, string>();
+  /** Estimated tokens sent since the last usage refresh. */
+  private unaccountedTokens = 0;
+  /** True while process() runs — headless deliveries can outlast a tick. */
+  private processing = false;
+  /** Items being delivered right now (guards forceDeliver against a tick). */
+  private readonly inFlight = new Set<string>();
+  /**
+   * Identifies this window's processor in leases and heartbeats — every
+   * VS Code window runs its own processor against the shared globalState.
+   */
+  readonly ownerId = generateShortId();
 
   /** Fires whenever items change (for tree-view refresh). */
   readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
   readonly onDidChange = this.onDidChangeEmitter.event;
 
-  constructor(store: QueueStore, log: vscode.OutputChannel) {
+  /** Fires when an item was delivered or finally failed (for history). */
+  readonly onDidFinishDeliveryEmitter =
+    new vscode.EventEmitter<DeliveryOutcome>();
+  readonly onDidFinishDelivery = this.onDidFinishDeliveryEmitter.event;
+
+  constructor(
+    store: QueueStore,
+    log: vscode.OutputChannel,
+    private readonly usage?: UsageService,
+    private readonly targets = new DeliveryTargetRegistry(
+      builtInDeliveryTargets(),
+    ),
+  ) {
     this.store = store;
     this.log = log;
+    // Fresh usage data includes everything sent so far.
+    usage?.onDidChange(() => {
+      this.unaccountedTokens = 0;
+    });
   }
 
   /** Start the background polling interval. */
   start(): void {
+    this.heartbeat();
     this.timer = setInterval(() => this.process(), PROCESS_INTERVAL_MS);
   }
 
@@ -47,6 +101,16 @@ export class QueueProcessor {
     return this._paused;
   }
 
+  /** Delivery targets items can be sent to. */
+  getTargets(): DeliveryTargetRegistry {
+    return this.targets;
+  }
+
+  /** Reasons for due items currently held back by the quota gate, by item id. */
+  getQuotaHolds(): Record<string, string> {
+    return Object.fromEntries(this.quotaHolds);
+  }
+
   /** Toggle queue processing on/off. Fires onDidChange so UI updates immediately. */
   togglePause(): void {
     this._paused = !this._paused;
@@ -62,6 +126,16 @@ export class QueueProcessor {
       clearInterval(this.timer);
       this.timer = undefined;
     }
+    if (this.idlePoll !== undefined) {
+      clearTimeout(this.idlePoll);
+      this.idlePoll = undefined;
+    }
+    // Hand this window's folders to other windows right away.
+    this.store
+      .removeWindow(this.ownerId)
+      .catch((err) =>
+        this.log.appendLine(`[QueueProcessor] Window cleanup error: ${err}`),
+      );
   }
 
   /** Process all due items immediately. Returns number of items delivered. */
@@ -70,12 +144,41 @@ export class QueueProcessor {
       this.log.appendLine("[QueueProcessor] Skipping — queue is paused.");
       return 0;
     }
+    if (this.processing) {
+      this.log.appendLine(
+        "[QueueProcessor] Skipping — previous tick still delivering.",
+      );
+      return 0;
+    }
+    this.processing = true;
+    try {
+      return await this.processDue();
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async processDue(): Promise<number> {
+    await this.heartbeat();
+    const expired = await this.store.releaseExpiredLeases();
+    if (expired > 0) {
+      this.log.appendLine(
+        `[QueueProcessor] Released ${expired} expired delivery lease(s)`,
+      );
+    }
+    const windows = this.store.getLiveWindows();
     const pending = this.store.getPending();
-    const due = pending.filter((i) => isOverdue(new Date(i.notBefore)));
+    // Items that become due in the same tick are sent by priority, then by
+    // the user's explicit ordering — the first prompt after a reset gets the
+    // freshest quota.
+    const due = sortForDelivery(
+      pending.filter((i) => isOverdue(new Date(i.notBefore))),
+    );
 
     this.log.appendLine(
       `[QueueProcessor] Tick: ${pending.length} pending, ${due.length} overdue`,
     );
+    this.quotaHolds.clear();
 
     if (due.length === 0) {
       return 0;
@@ -83,12 +186,57 @@ export class QueueProcessor {
 
     const cfg = vscode.workspace.getConfiguration("promptQueue");
     const maxRetries: number = cfg.get("maxDeliveryRetries", 3);
+    const waitForIdle: boolean = cfg.get("waitForIdle", false);
+    let skipped = 0;
+    let deferred = 0;
+    let sentThisTick = false;
 
     for (const item of due) {
+      // Re-evaluated per item: a prerequisite delivered earlier in this tick
+      // unblocks its dependents immediately.
+      const depStatus = getDependencyStatus(
+        item,
+        this.store.getAll(),
+        this.store.getPrerequisiteLog(),
+      );
+      if (depStatus !== "ready") {
+        this.log.appendLine(
+          `[QueueProcessor] Skipping ${item.id} — prerequisites ${depStatus} (${(item.dependsOn ?? []).join(", ")})`,
+        );
+        skipped++;
+        continue;
+      }
+      if (!isRoutedTo(item, this.ownerId, windows)) {
+        this.log.appendLine(
+          `[QueueProcessor] Skipping ${item.id} — left to the window with ${item.workspaceFolder} open`,
+        );
+        skipped++;
+        continue;
+      }
+      const hold = this.checkQuotaHold(item);
+      if (hold) {
+        this.log.appendLine(
+          `[QueueProcessor] Holding ${item.id} — quota: ${hold}`,
+        );
+        this.quotaHolds.set(item.id, hold);
+        skipped++;
+        continue;
+      }
+      // waitForIdle: one prompt at a time — later items stay pending until
+      // the session that received the previous prompt has finished with it.
+      if (waitForIdle && (sentThisTick || !this.isLastSessionIdle())) {
+        deferred++;
+        continue;
+      }
+      const startedAt = new Date();
       try {
         // deliver() writes the success log entry before removing the item,
         // so a failure in the log write leaves the item in queue for retry.
-        await this.deliver(item);
+        if (!(await this.deliver(item))) {
+          skipped++;
+          continue;
+        }
+        sentThisTick = true;
       } catch (err) {
         if (err instanceof NonRetryableDeliveryError) {
           // Config/permanent issue — keep item in queue, user must resolve manually.
@@ -117,13 +265,7 @@ export class QueueProcessor {
             this.log.appendLine(
               `[QueueProcessor] Max retries (${maxRetries}) reached for ${item.id}: ${err}`,
             );
-            await this.store.addDeliveryLogEntry({
-              itemId: item.id,
-              timestamp: new Date().toISOString(),
-              status: "failed",
-              error: String(err),
-              promptPreview: item.promptText.slice(0, 80),
-            });
+            await this.recordFailure(item, err, attempts, startedAt);
             vscode.window.showErrorMessage(
               `PromptQueue: failed to deliver prompt ${item.id} after ${maxRetries} attempts: ${err}`,
             );
@@ -132,33 +274,45 @@ export class QueueProcessor {
       }
     }
 
+    if (deferred > 0) {
+      this.log.appendLine(
+        `[QueueProcessor] Waiting for Claude session to go idle — ${deferred} item(s) deferred`,
+      );
+      this.scheduleIdlePoll();
+    }
+
     this.onDidChangeEmitter.fire();
-    return due.length;
+    return due.length - skipped - deferred;
   }
 
   /**
    * Force-deliver a specific item immediately, regardless of its notBefore time.
-   * Intentionally bypasses the `_paused` flag — "force" means the user explicitly
-   * overrides all scheduling constraints, including a manual pause.
+   * Intentionally bypasses the `_paused` flag, the quota gate and `dependsOn` prerequisites —
+   * "force" means the user explicitly overrides all scheduling constraints.
    */
   async forceDeliver(id: string): Promise<void> {
     const item = this.store.getAll().find((i) => i.id === id && !i.processed);
-    if (!item) {
+    if (!item || this.inFlight.has(id)) {
       return;
     }
+    const startedAt = new Date();
     try {
-      await this.deliver(item);
+      if (!(await this.deliver(item))) {
+        vscode.window.showInformationMessage(
+          `PromptQueue: prompt ${id} is being delivered by another window.`,
+        );
+        return;
+      }
     } catch (err) {
       this.log.appendLine(
         `[QueueProcessor] Error force-delivering ${id}: ${err}`,
       );
-      await this.store.addDeliveryLogEntry({
-        itemId: item.id,
-        timestamp: new Date().toISOString(),
-        status: "failed",
-        error: String(err),
-        promptPreview: item.promptText.slice(0, 80),
-      });
+      await this.recordFailure(
+        item,
+        err,
+        (item.deliveryAttempts ?? 0) + 1,
+        startedAt,
+      );
       vscode.window.showErrorMessage(
         `PromptQueue: failed to deliver ${id}: ${err}`,
       );
@@ -166,114 +320,297 @@ export class QueueProcessor {
     this.onDidChangeEmitter.fire();
   }
 
-  private async deliver(item: QueueItem): Promise<void> {
-    const cfg = vscode.workspace.getConfiguration("promptQueue");
-    const configuredName: string = cfg.get("targetTerminalName", "");
-
-    // When a target terminal is explicitly configured but not found, this is a
-    // non-retryable error — the item stays in queue for the user to fix manually
-    // (open the terminal or clear promptQueue.targetTerminalName).
-    if (configuredName) {
-      const target = vscode.window.terminals.find(
-        (t) => t.name === configuredName,
+  /**
+   * The item's prompt with its file reference expanded. Warns when the file
+   * changed (or is gone) since the prompt was queued — the referenced lines
+   * may no longer be the ones the prompt is about.
+   */
+  private async withContext(
+    item: QueueItem,
+    ctx: PromptContext,
+    cwd: string,
+  ): Promise<string> {
+    let content: string | undefined;
+    try {
+      content = await fs.promises.readFile(ctx.path, "utf8");
+    } catch {
+      content = undefined;
+    }
+    if (contextChanged(ctx, content)) {
+      const label = contextLabel(ctx, cwd);
+      const what = content === undefined ? "no longer exists" : "changed";
+      this.log.appendLine(
+        `[QueueProcessor] ${label} ${what} since ${item.id} was queued`,
+      );
+      vscode.window.showWarningMessage(
+        ctx.snapshot !== undefined
+          ? `PromptQueue: ${label} ${what} since prompt ${item.id} was queued — it was sent with the code as it was then.`
+          : `PromptQueue: ${label} ${what} since prompt ${item.id} was queued — the referenced lines may no longer match.`,
       );
-      if (!target) {
-        throw new NonRetryableDeliveryError(
-          `Terminal "${configuredName}" not found — open it or clear promptQueue.targetTerminalName`,
-        );
-      }
     }
+    return expandContext(item.promptText, ctx, cwd);
+  }
 
-    const existing = this.findClaudeTerminal(item.targetTerminalName);
+  /** Log a final delivery failure and report it to history listeners. */
+  private async recordFailure(
+    item: QueueItem,
+    err: unknown,
+    attempts: number,
+    startedAt: Date,
+  ): Promise<void> {
+    const finishedAt = new Date();
+    await this.store.addDeliveryLogEntry({
+      itemId: item.id,
+      timestamp: finishedAt.toISOString(),
+      status: "failed",
+      error: String(err),
+      promptPreview: item.promptText.slice(0, 80),
+    });
+    this.onDidFinishDeliveryEmitter.fire({
+      item,
+      status: "failed",
+      target: this.targets.targetIdFor(item),
+      attempts,
+      startedAt,
+      finishedAt,
+      error: String(err),
+    });
+  }
 
-    if (existing) {
+  /**
+   * Claim the item, deliver it, release the claim. Returns false (without
+   * delivering) when another window holds the item's lease.
+   */
+  private async deliver(item: QueueItem): Promise<boolean> {
+    if (!(await this.store.claim(item.id, this.ownerId, this.leaseTtlMs()))) {
       this.log.appendLine(
-        `[QueueProcessor] Sending to existing terminal "${existing.name}"`,
+        `[QueueProcessor] Skipping ${item.id} — claimed by another window`,
       );
+      return false;
+    }
+    this.inFlight.add(item.id);
+    try {
+      await this.deliverItem(item, new Date());
+    } finally {
+      this.inFlight.delete(item.id);
+      await this.store.release(item.id, this.ownerId);
+    }
+    return true;
+  }
 
-      // Best-effort check: if the terminal process has already exited before we
-      // even send, warn immediately (checked BEFORE sendText for reliability —
-      // exitStatus is set synchronously when the process exits, so this catches
-      // zombie terminals that VS Code still lists but whose process is gone).
-      if (existing.exitStatus !== undefined) {
-        this.log.appendLine(
-          `[QueueProcessor] Warning: terminal "${existing.name}" process has already exited ` +
-            `(code=${existing.exitStatus.code})`,
-        );
-        vscode.window.showWarningMessage(
-          `PromptQueue: terminal "${existing.name}" process has already exited — prompt may not be received.`,
-        );
-      }
+  /**
+   * Lease duration: long enough for the slowest delivery (a headless run or
+   * template command up to its timeout), so it only lapses when a window
+   * died mid-delivery.
+   */
+  private leaseTtlMs(): number {
+    const timeoutMinutes = vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<number>("headlessTimeoutMinutes", 30);
+    return (timeoutMinutes + LEASE_MARGIN_MINUTES) * 60_000;
+  }
 
-      existing.show(true);
-      // Strip ESC chars to avoid interfering with Claude Code CLI's TUI keybindings.
-      const safe = item.promptText.replace(/\x1b/g, "");
-      existing.sendText(safe, false);
-      existing.sendText("\r", false); // Press Enter to submit
-    } else {
-      // No Claude terminal found — create one and launch Claude Code CLI.
-      this.log.appendLine(
-        `[QueueProcessor] No Claude terminal found, creating new session`,
+  /** Announce this window and its workspace folders to the other windows. */
+  private async heartbeat(): Promise<void> {
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(
+      (f) => f.uri.fsPath,
+    );
+    try {
+      await this.store.heartbeat(this.ownerId, folders);
+    } catch (err) {
+      this.log.appendLine(`[QueueProcessor] Heartbeat error: ${err}`);
+    }
+  }
+
+  private async deliverItem(queued: QueueItem, startedAt: Date): Promise<void> {
+    const cfg = vscode.workspace.getConfiguration("promptQueue");
+    const target = this.targets.resolve(queued);
+    const folder = this.resolveWorkspaceFolder(queued);
+    const cwd = folder?.uri.fsPath ?? os.homedir();
+    // Template variables that capture the state at delivery ({{git.diff}}).
+    // The queued text keeps its placeholders for the next run of a repeat.
+    let item: QueueItem = queued.deliveryVariables?.length
+      ? {
+          ...queued,
+          promptText: fillPlaceholders(
+            queued.promptText,
+            await resolveVariables(queued.deliveryVariables, { cwd }),
+          ),
+        }
+      : queued;
+    if (item.context) {
+      item = {
+        ...item,
+        promptText: await this.withContext(item, item.context, cwd),
+      };
+    }
+    const result: DeliveryResult | undefined = await target.deliver(item, {
+      log: this.log,
+      workspaceFolder: folder,
+      cwd,
+    });
+
+    if (target.id === DEFAULT_TARGET_ID) {
+      // Only Claude deliveries count against the Claude quota, and only an
+      // interactive Claude session has a transcript for waitForIdle to watch.
+      this.unaccountedTokens += estimatePromptCost(
+        item.promptText,
+        cfg.get<number>("quotaPromptOverheadTokens", 20_000),
       );
-      const folder = this.resolveWorkspaceFolder(item);
-      const cwd = folder?.uri.fsPath ?? os.homedir();
-      const tmpFile = path.join(os.tmpdir(), `cq-${item.id}.txt`);
-      fs.writeFileSync(tmpFile, item.promptText, "utf8");
-      const terminal = vscode.window.createTerminal({ name: "Claude", cwd });
-      terminal.show(true);
-      terminal.sendText(`claude "$(cat '${tmpFile}')" ; rm -f '${tmpFile}'`);
+      if (!result) {
+        this.lastSent = {
+          at: Date.now(),
+          workspaceFolder: item.workspaceFolder,
+        };
+      }
     }
 
     // Write success log entry BEFORE removing from queue:
     // if this write fails, the item stays in queue and can be retried.
+    const finishedAt = new Date();
     await this.store.addDeliveryLogEntry({
       itemId: item.id,
-      timestamp: new Date().toISOString(),
+      timestamp: finishedAt.toISOString(),
       status: "delivered",
       promptPreview: item.promptText.slice(0, 80),
+      target: target.id,
+      ...(result
+        ? {
+            response: result.response,
+            ...(result.stderr ? { stderr: result.stderr } : {}),
+            ...(result.exitCode !== undefined
+              ? { exitCode: result.exitCode }
+              : {}),
+          }
+        : {}),
     });
+    this.onDidFinishDeliveryEmitter.fire({
+      item,
+      status: "delivered",
+      target: target.id,
+      attempts: (item.deliveryAttempts ?? 0) + 1,
+      startedAt,
+      finishedAt,
+    });
+    const sentLabel = `${result ? "answered by" : "delivered to"} ${target.name}`;
+
+    const next = item.recurrence
+      ? nextOccurrence(item.recurrence, new Date())
+      : undefined;
+    if (item.recurrence && next) {
+      // Recurring item: put the next occurrence back in the queue.
+      await this.store.update(item.id, {
+        notBefore: next.toISOString(),
+        deliveryAttempts: 0,
+      });
+      this.log.appendLine(
+        `[QueueProcessor] Delivered ${item.id} (${describeRecurrence(item.recurrence)}), next run ${next.toISOString()}`,
+      );
+      vscode.window.showInformationMessage(
+        `PromptQueue: Prompt ${sentLabel} — next run ${formatDisplayTime(next)}  [id: ${item.id}]`,
+      );
+      return;
+    }
 
     await this.store.remove(item.id);
 
     this.log.appendLine(`[QueueProcessor] Delivered ${item.id}`);
     vscode.window.showInformationMessage(
-      `PromptQueue: Prompt sent to Claude  [id: ${item.id}]`,
+      `PromptQueue: Prompt ${sentLabel}  [id: ${item.id}]`,
     );
   }
 
   /**
-   * Find the terminal to deliver to.
-   *
-   * Priority:
-   *  1. User-configured `promptQueue.targetTerminalName` (exact match).
-   *  2. Terminal whose name matches the hint recorded at queue time.
-   *  3. Terminal named exactly 'Claude' (created by a previous delivery).
-   *  4. Any terminal whose name contains 'claude' (case-insensitive).
-   *  5. The currently active terminal (last resort — user may have it focused).
+   * Quota gate (`promptQueue.quotaGate`): returns the reason to hold `item`,
+   * or undefined when it may be sent. Only Claude-target items are gated.
+   * Needs a configured claude.tokenLimit5h and usage data — without them
+   * nothing is held.
    */
-  private findClaudeTerminal(hint?: string): vscode.Terminal | undefined {
-    const terminals = vscode.window.terminals;
+  private checkQuotaHold(item: QueueItem): string | undefined {
+    const cfg = vscode.workspace.getConfiguration("promptQueue");
+    if (
+      !cfg.get<boolean>("quotaGate", false) ||
+      this.targets.targetIdFor(item) !== DEFAULT_TARGET_ID
+    ) {
+      return undefined;
+    }
+    const data = this.usage?.getCached();
+    if (!data) {
+      return undefined;
+    }
+    const check = checkQuota({
+      promptText: item.promptText,
+      limit5h: vscode.workspace
+        .getConfiguration("claude")
+        .get<number>("tokenLimit5h", 0),
+      tokensLast5h: data.bestTokensLast5h,
+      unaccountedTokens: this.unaccountedTokens,
+      overheadTokens: cfg.get<number>("quotaPromptOverheadTokens", 20_000),
+    });
+    if (check.allowed) {
+      return undefined;
+    }
+    return data.bestWindowEnd
+      ? `${check.reason} — resets ${formatDisplayTime(data.bestWindowEnd)}`
+      : check.reason;
+  }
 
+  /**
+   * Whether the Claude session that received the last prompt is idle again.
+   * Reads the newest transcript of that prompt's workspace; falls back to the
+   * quiet period when there is no transcript, and gives up waiting after
+   * `promptQueue.idleTimeoutMinutes` so a stuck session cannot hold the queue.
+   */
+  private isLastSessionIdle(): boolean {
+    if (!this.lastSent) {
+      return true;
+    }
     const cfg = vscode.workspace.getConfiguration("promptQueue");
-    const configuredName: string = cfg.get("targetTerminalName", "");
-    if (configuredName) {
-      const byConfig = terminals.find((t) => t.name === configuredName);
-      if (byConfig) {
-        return byConfig;
-      }
+    const quietMs = cfg.get<number>("idleQuietSeconds", 30) * 1000;
+    const timeoutMs = cfg.get<number>("idleTimeoutMinutes", 15) * 60_000;
+    const nowMs = Date.now();
+    const elapsed = nowMs - this.lastSent.at;
+
+    if (elapsed >= timeoutMs) {
+      this.log.appendLine(
+        `[QueueProcessor] Session not idle after ${Math.round(elapsed / 60_000)}min — sending next prompt anyway`,
+      );
+      return true;
     }
 
-    if (hint) {
-      const byHint = terminals.find((t) => t.name === hint);
-      if (byHint) {
-        return byHint;
-      }
+    const workspace =
+      this.lastSent.workspaceFolder ||
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const file = workspace ? findLatestSessionFile(workspace) : undefined;
+    if (!file) {
+      return elapsed >= quietMs;
     }
-    return (
-      terminals.find((t) => t.name === "Claude") ??
-      terminals.find((t) => t.name.toLowerCase().includes("claude")) ??
-      vscode.window.activeTerminal
-    );
+    let fileMtimeMs: number;
+    try {
+      fileMtimeMs = fs.statSync(file).mtimeMs;
+    } catch {
+      return elapsed >= quietMs;
+    }
+    return isSessionIdle({
+      lastEntry: lastConversationEntry(readLastEntries(file)),
+      fileMtimeMs,
+      nowMs,
+      sentAtMs: this.lastSent.at,
+      quietMs,
+    });
+  }
+
+  /** Schedule a quick re-run of process() while items wait for idle. */
+  private scheduleIdlePoll(): void {
+    if (this.idlePoll !== undefined) {
+      return;
+    }
+    this.idlePoll = setTimeout(() => {
+      this.idlePoll = undefined;
+      this.process().catch((err) =>
+        this.log.appendLine(`[QueueProcessor] Idle poll error: ${err}`),
+      );
+    }, IDLE_POLL_MS);
   }
 
   private resolveWorkspaceFolder(
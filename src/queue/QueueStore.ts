@@ -1,4 +1,19 @@
 import * as vscode from "vscode";
+import { RecurrenceRule } from "../util/recurrence";
+import { SessionMode } from "../util/claudeSessions";
+import { IQueueBackend } from "../storage/IQueueBackend";
+import { MementoQueueBackend } from "../storage/MementoQueueBackend";
+import { IClaimLock, MemoryClaimLock } from "../storage/ClaimLock";
+
+/** Delivery priority — higher levels are sent first when several items are due. */
+export type QueuePriority = "high" | "normal" | "low";
+
+/**
+ * Where an item is queued: for the current workspace (stored with its
+ * folder) or globally (empty workspaceFolder). All items share one list;
+ * scopes are a view on `workspaceFolder`.
+ */
+export type QueueScope = "workspace" | "global";
 
 export interface QueueItem {
   /** Unique identifier (8-char hex). */
@@ -9,7 +24,10 @@ export interface QueueItem {
   notBefore: string;
   /** The full prompt text. */
   promptText: string;
-  /** Absolute path of the workspace folder, or '' if none. */
+  /**
+   * Absolute path of the workspace folder the item belongs to, or '' for a
+   * global item (delivered by any window — see QueueScope).
+   */
   workspaceFolder: string;
   /** Already delivered / processed. */
   processed: boolean;
@@ -17,6 +35,79 @@ export interface QueueItem {
   targetTerminalName?: string;
   /** Number of failed delivery attempts so far (used for retry logic). */
   deliveryAttempts?: number;
+  /** Delivery priority (defaults to "normal" when absent). */
+  priority?: QueuePriority;
+  /** Explicit user ordering within the same priority (lower = earlier). */
+  position?: number;
+  /** IDs of items that must be delivered before this one may be sent. */
+  dependsOn?: string[];
+  /** Repeat rule — after delivery the item is rescheduled instead of removed. */
+  recurrence?: RecurrenceRule;
+  /**
+   * Symbolic schedule. "windowReset" = deliver when the current rate-limit
+   * window resets: notBefore tracks the detected window end (see
+   * followWindowReset) until delivery is imminent. Absent = fixed notBefore.
+   */
+  scheduleMode?: "windowReset";
+  /**
+   * Claude session to deliver into (absent = "new"). "new" prompts go to an
+   * open Claude terminal if there is one; "continue" and "resume" prompts
+   * only to a terminal started for that session, else to a new one.
+   */
+  sessionMode?: SessionMode;
+  /** Session recorded at queue time, for sessionMode "resume". */
+  sessionId?: string;
+  /** Delivery target id (absent = promptQueue.defaultTarget). */
+  target?: string;
+  /**
+   * Absolute path of the workspace prompt file the item was read from (see
+   * PromptFolderWatcher). The file is the source: editing it updates the item.
+   */
+  sourceFile?: string;
+  /**
+   * Template placeholders left in promptText and resolved at delivery
+   * ({{git.diff}}, {{date}}…, see templates/promptTemplates.ts).
+   */
+  deliveryVariables?: string[];
+  /**
+   * File or selection the prompt is about, recorded when queued and
+   * expanded at delivery (see util/promptContext.ts).
+   */
+  context?: PromptContext;
+  /**
+   * Set while a window is delivering the item (see QueueStore.claim), so
+   * other windows sharing globalState leave it alone.
+   */
+  lease?: DeliveryLease;
+}
+
+export interface DeliveryLease {
+  /** Id of the window (QueueProcessor) delivering the item. */
+  owner: string;
+  /** ISO 8601 — after this the lease is stale and may be taken over. */
+  expiresAt: string;
+}
+
+export interface PromptContext {
+  /** Absolute path of the referenced file. */
+  path: string;
+  /** First referenced line (1-based); absent = the whole file. */
+  startLine?: number;
+  /** Last referenced line (inclusive). */
+  endLine?: number;
+  /** SHA-256 (hex) of the referenced text when queued. */
+  hash: string;
+  /** The referenced text when queued (promptQueue.contextDelivery "snapshot"). */
+  snapshot?: string;
+}
+
+/** A window running a QueueProcessor, as last announced via heartbeat(). */
+export interface WindowPresence {
+  owner: string;
+  /** Absolute paths of the window's workspace folders. */
+  folders: string[];
+  /** ISO 8601 time of the last heartbeat. */
+  seenAt: string;
 }
 
 export interface DeliveryLogEntry {
@@ -29,26 +120,85 @@ export interface DeliveryLogEntry {
   error?: string;
   /** First 80 characters of the prompt text. */
   promptPreview: string;
+  /** Delivery target id the prompt was sent to. */
+  target?: string;
+  /** Headless/command delivery only: captured answer (stdout, truncated). */
+  response?: string;
+  /** Headless/command delivery only: captured stderr, if any. */
+  stderr?: string;
+  /** Headless/command delivery only: exit code of the process. */
+  exitCode?: number;
+}
+
+/**
+ * Final result of delivering an item, reported by
+ * QueueProcessor.onDidFinishDelivery (recorded by HistoryStore). Retries
+ * that will be attempted again are not reported.
+ */
+export interface DeliveryOutcome {
+  item: QueueItem;
+  status: "delivered" | "failed";
+  /** Delivery target id. */
+  target: string;
+  /** Attempts including this one. */
+  attempts: number;
+  startedAt: Date;
+  finishedAt: Date;
+  error?: string;
 }
 
-const STORAGE_KEY = "promptQueue.items";
 const DELIVERY_LOG_KEY = "promptQueue.deliveryLog";
 const DELIVERY_LOG_MAX = 20;
+const PREREQUISITE_LOG_KEY = "promptQueue.prerequisiteLog";
+const WINDOWS_KEY = "promptQueue.windows";
+/** A window that has not sent a heartbeat for this long is gone. */
+export const WINDOW_STALE_MS = 3 * 60_000;
+/** A window-reset item stops following the window this close to delivery. */
+export const WINDOW_RESET_LOCK_MS = 60_000;
+/** Safety margin after the detected window end before delivering. */
+export const WINDOW_RESET_BUFFER_MS = 60_000;
 
 /**
- * Persistent queue store backed by vscode.Memento (globalState).
- * Survives restarts. Thread-safe within a single extension host.
+ * Persistent queue store. Items live in a storage backend (globalState or a
+ * JSON file, see src/storage); the delivery log and window heartbeats stay
+ * in vscode.Memento (globalState). Survives restarts. Every change is a
+ * read-modify-write the backend runs as one step (IQueueBackend.modify);
+ * both stores are shared by all windows, so delivery across windows is
+ * coordinated with leases (claim/release) and window heartbeats.
  */
 export class QueueStore {
   private readonly state: vscode.Memento;
+  private readonly backend: IQueueBackend;
+  private readonly locks: IClaimLock;
+
+  /** Fires after the items were saved (for the status bar). */
+  readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
 
-  constructor(globalState: vscode.Memento) {
+  constructor(
+    globalState: vscode.Memento,
+    backend: IQueueBackend = new MementoQueueBackend(globalState),
+    locks: IClaimLock = new MemoryClaimLock(),
+  ) {
     this.state = globalState;
+    this.backend = backend;
+    this.locks = locks;
+  }
+
+  /**
+   * Apply `modify` to the stored items — as one step, even against other
+   * windows sharing the storage (see IQueueBackend.modify).
+   */
+  private async change(
+    modify: (items: QueueItem[]) => QueueItem[],
+  ): Promise<void> {
+    await this.backend.modify(modify);
+    this.onDidChangeEmitter.fire();
   }
 
   /** Return all items (including processed ones). */
   getAll(): QueueItem[] {
-    return this.state.get<QueueItem[]>(STORAGE_KEY, []);
+    return this.backend.load();
   }
 
   /** Return only pending (not yet processed) items. */
@@ -56,49 +206,228 @@ export class QueueStore {
     return this.getAll().filter((i) => !i.processed);
   }
 
-  /** Add a new item to the queue. */
+  /** Add a new item to the queue. Items without a position go to the end. */
   async add(item: QueueItem): Promise<void> {
-    const items = this.getAll();
-    items.push(item);
-    await this.state.update(STORAGE_KEY, items);
+    await this.change((items) => {
+      const position =
+        item.position ??
+        items.reduce((max, i) => Math.max(max, i.position ?? -1), -1) + 1;
+      return [...items, { ...item, position }];
+    });
   }
 
   /** Mark an item as processed by id. */
   async markProcessed(id: string): Promise<void> {
-    const items = this.getAll().map((i) =>
-      i.id === id ? { ...i, processed: true } : i,
+    await this.change((items) =>
+      items.map((i) => (i.id === id ? { ...i, processed: true } : i)),
+    );
+  }
+
+  /**
+   * Replace an item by id (e.g. import with "overwrite"). Keeps the queued
+   * item's list position unless the new one has its own.
+   */
+  async replace(item: QueueItem): Promise<void> {
+    await this.change((items) =>
+      items.map((i) =>
+        i.id === item.id
+          ? { ...item, position: item.position ?? i.position }
+          : i,
+      ),
     );
-    await this.state.update(STORAGE_KEY, items);
   }
 
   /** Remove an item entirely (e.g. user-initiated delete). */
   async remove(id: string): Promise<void> {
-    const items = this.getAll().filter((i) => i.id !== id);
-    await this.state.update(STORAGE_KEY, items);
+    await this.change((items) => items.filter((i) => i.id !== id));
   }
 
   /** Purge all processed items (housekeeping). */
   async purgeProcessed(): Promise<void> {
-    const items = this.getAll().filter((i) => !i.processed);
-    await this.state.update(STORAGE_KEY, items);
+    await this.change((items) => items.filter((i) => !i.processed));
   }
 
   /** Update mutable fields of an existing item. */
   async update(
     id: string,
     changes: Partial<
-      Pick<QueueItem, "promptText" | "notBefore" | "deliveryAttempts">
+      Pick<
+        QueueItem,
+        | "promptText"
+        | "deliveryVariables"
+        | "notBefore"
+        | "deliveryAttempts"
+        | "priority"
+        | "recurrence"
+        | "scheduleMode"
+      >
     >,
   ): Promise<void> {
-    const items = this.getAll().map((i) =>
-      i.id === id ? { ...i, ...changes } : i,
+    await this.change((items) =>
+      items.map((i) => (i.id === id ? { ...i, ...changes } : i)),
     );
-    await this.state.update(STORAGE_KEY, items);
+  }
+
+  /**
+   * Move every "windowReset" item to the given window end (see
+   * retimeForWindowReset). Returns the number of items whose time changed.
+   */
+  async followWindowReset(
+    windowEnd: Date | undefined,
+    now = new Date(),
+  ): Promise<number> {
+    const retime = (i: QueueItem): string | undefined =>
+      retimeForWindowReset(i, windowEnd, now.getTime());
+    if (!this.getAll().some((i) => retime(i) !== undefined)) {
+      return 0;
+    }
+    let moved = 0;
+    await this.change((items) =>
+      items.map((i) => {
+        const notBefore = retime(i);
+        if (notBefore === undefined) {
+          return i;
+        }
+        moved++;
+        return { ...i, notBefore };
+      }),
+    );
+    return moved;
+  }
+
+  /**
+   * Apply an explicit ordering (e.g. from drag-to-reorder in the webview).
+   * `orderedIds` lists item ids first-to-last; ids not in the list keep their
+   * relative order and are placed after the listed ones.
+   */
+  async reorder(orderedIds: string[]): Promise<void> {
+    const rank = new Map(orderedIds.map((id, idx) => [id, idx]));
+    await this.change((items) => {
+      const ordered = [...items].sort((a, b) => {
+        const ra = rank.get(a.id) ?? orderedIds.length + (a.position ?? 0);
+        const rb = rank.get(b.id) ?? orderedIds.length + (b.position ?? 0);
+        return ra - rb;
+      });
+      const positions = new Map(ordered.map((i, idx) => [i.id, idx]));
+      return items.map((i) => ({ ...i, position: positions.get(i.id) }));
+    });
   }
 
   /** Clear everything (debug / test). */
   async clear(): Promise<void> {
-    await this.state.update(STORAGE_KEY, []);
+    await this.change(() => []);
+  }
+
+  // ── Multi-window coordination ────────────────────────────────────────────
+
+  /**
+   * Claim a pending item for delivery by `owner` until now + ttlMs.
+   * Fails when the item is gone or another owner holds an unexpired lease.
+   * The claim lock decides races between windows (see storage/ClaimLock.ts);
+   * the lease stored on the item shows the claim to the UI and to windows
+   * that check before trying.
+   */
+  async claim(
+    id: string,
+    owner: string,
+    ttlMs: number,
+    now = Date.now(),
+  ): Promise<boolean> {
+    const current = this.getAll().find((i) => i.id === id);
+    if (!current || current.processed || !isClaimable(current, owner, now)) {
+      return false;
+    }
+    const lease: DeliveryLease = {
+      owner,
+      expiresAt: new Date(now + ttlMs).toISOString(),
+    };
+    if (!(await this.locks.acquire(id, lease, now))) {
+      return false;
+    }
+    // Delivered by the previous holder before we got the lock.
+    if (!this.getAll().some((i) => i.id === id && !i.processed)) {
+      await this.locks.release(id, owner);
+      return false;
+    }
+    await this.change((items) =>
+      items.map((i) => (i.id === id ? { ...i, lease } : i)),
+    );
+    return true;
+  }
+
+  /** Drop `owner`'s lease on an item (no-op if the item is gone or not owned). */
+  async release(id: string, owner: string): Promise<void> {
+    await this.locks.release(id, owner);
+    if (!this.getAll().some((i) => i.id === id && i.lease?.owner === owner)) {
+      return;
+    }
+    await this.change((items) =>
+      items.map((i) => {
+        if (i.id !== id || i.lease?.owner !== owner) {
+          return i;
+        }
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { lease: _lease, ...rest } = i;
+        return rest;
+      }),
+    );
+  }
+
+  /**
+   * Remove leases past their expiry — left behind by a window that closed
+   * or crashed mid-delivery. Returns the number removed.
+   */
+  async releaseExpiredLeases(now = Date.now()): Promise<number> {
+    const isStale = (i: QueueItem): boolean =>
+      !!i.lease && Date.parse(i.lease.expiresAt) <= now;
+    if (!this.getAll().some(isStale)) {
+      return 0;
+    }
+    const stale: [string, string][] = [];
+    await this.change((items) =>
+      items.map((i) => {
+        if (!i.lease || !isStale(i)) {
+          return i;
+        }
+        stale.push([i.id, i.lease.owner]);
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { lease: _lease, ...rest } = i;
+        return rest;
+      }),
+    );
+    for (const [id, owner] of stale) {
+      await this.locks.release(id, owner);
+    }
+    return stale.length;
+  }
+
+  /** Windows that sent a heartbeat within WINDOW_STALE_MS. */
+  getLiveWindows(now = Date.now()): WindowPresence[] {
+    return this.state
+      .get<WindowPresence[]>(WINDOWS_KEY, [])
+      .filter((w) => now - Date.parse(w.seenAt) < WINDOW_STALE_MS);
+  }
+
+  /** Record that `owner` is alive with these folders; prunes stale windows. */
+  async heartbeat(
+    owner: string,
+    folders: string[],
+    now = Date.now(),
+  ): Promise<void> {
+    const others = this.getLiveWindows(now).filter((w) => w.owner !== owner);
+    await this.state.update(WINDOWS_KEY, [
+      ...others,
+      { owner, folders, seenAt: new Date(now).toISOString() },
+    ]);
+  }
+
+  /** Forget a window (on shutdown) so its folders are routed elsewhere at once. */
+  async removeWindow(owner: string): Promise<void> {
+    const windows = this.state.get<WindowPresence[]>(WINDOWS_KEY, []);
+    await this.state.update(
+      WINDOWS_KEY,
+      windows.filter((w) => w.owner !== owner),
+    );
   }
 
   // ── Delivery log ─────────────────────────────────────────────────────────
@@ -116,19 +445,243 @@ export class QueueStore {
       log.length = DELIVERY_LOG_MAX;
     }
     await this.state.update(DELIVERY_LOG_KEY, log);
+    await this.recordPrerequisite(entry);
   }
 
   /** Clear the delivery log (debug / test). */
   async clearDeliveryLog(): Promise<void> {
     await this.state.update(DELIVERY_LOG_KEY, []);
+    await this.state.update(PREREQUISITE_LOG_KEY, []);
+  }
+
+  /**
+   * Delivery log for getDependencyStatus: the latest outcome of every item a
+   * pending item depends on, then the capped log. Prerequisites outlive
+   * DELIVERY_LOG_MAX, so their dependents are not blocked after 20 more
+   * deliveries.
+   */
+  getPrerequisiteLog(): DeliveryLogEntry[] {
+    return [
+      ...this.state.get<DeliveryLogEntry[]>(PREREQUISITE_LOG_KEY, []),
+      ...this.getDeliveryLog(),
+    ];
+  }
+
+  /** Keep the latest outcome of items pending items still depend on. */
+  private async recordPrerequisite(entry: DeliveryLogEntry): Promise<void> {
+    const dependedOn = new Set(
+      this.getPending().flatMap((i) => i.dependsOn ?? []),
+    );
+    const stored = this.state.get<DeliveryLogEntry[]>(
+      PREREQUISITE_LOG_KEY,
+      [],
+    );
+    const kept = [entry, ...stored.filter((e) => e.itemId !== entry.itemId)]
+      .filter((e) => dependedOn.has(e.itemId))
+      .map(({ itemId, timestamp, status, promptPreview }) => ({
+        itemId,
+        timestamp,
+        status,
+        promptPreview,
+      }));
+    if (kept.length > 0 || stored.length > 0) {
+      await this.state.update(PREREQUISITE_LOG_KEY, kept);
+    }
+  }
+}
+
+const PRIORITY_RANK: Record<QueuePriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * Comparator for delivery order: priority first, then explicit position,
+ * then creation time (stable fallback for items stored before positions existed).
+ */
+export function compareDeliveryOrder(a: QueueItem, b: QueueItem): number {
+  const pa = PRIORITY_RANK[a.priority ?? "normal"] ?? PRIORITY_RANK.normal;
+  const pb = PRIORITY_RANK[b.priority ?? "normal"] ?? PRIORITY_RANK.normal;
+  if (pa !== pb) {
+    return pa - pb;
+  }
+  const posA = a.position ?? Number.MAX_SAFE_INTEGER;
+  const posB = b.position ?? Number.MAX_SAFE_INTEGER;
+  if (posA !== posB) {
+    return posA - posB;
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+/** Return a copy of `items` sorted in delivery order (see compareDeliveryOrder). */
+export function sortForDelivery(items: QueueItem[]): QueueItem[] {
+  return [...items].sort(compareDeliveryOrder);
+}
+
+/**
+ * New notBefore (ISO) for an item scheduled "at next window reset", or
+ * undefined when it should keep its current time:
+ *  - not a windowReset item, or already processed;
+ *  - no window detected (keep the last known reset time);
+ *  - delivery is imminent or overdue — the time is fixed from then on, so a
+ *    new window opening right after the reset cannot push it back;
+ *  - already aligned with the window end.
+ * Pure function — no side effects.
+ */
+export function retimeForWindowReset(
+  item: QueueItem,
+  windowEnd: Date | undefined,
+  nowMs: number,
+): string | undefined {
+  if (item.scheduleMode !== "windowReset" || item.processed || !windowEnd) {
+    return undefined;
+  }
+  if (new Date(item.notBefore).getTime() - nowMs <= WINDOW_RESET_LOCK_MS) {
+    return undefined;
+  }
+  const target = new Date(
+    windowEnd.getTime() + WINDOW_RESET_BUFFER_MS,
+  ).toISOString();
+  return target === item.notBefore ? undefined : target;
+}
+
+/** Whether `owner` may claim `item`: no lease, its own lease, or an expired one. */
+export function isClaimable(
+  item: QueueItem,
+  owner: string,
+  nowMs: number,
+): boolean {
+  return (
+    !item.lease ||
+    item.lease.owner === owner ||
+    Date.parse(item.lease.expiresAt) <= nowMs
+  );
+}
+
+/**
+ * Whether the window `owner` should deliver `item`. An item belongs to the
+ * window that has its workspace folder open; items without a folder, or
+ * whose folder no live window has open, may be delivered by any window
+ * (the lease decides which).
+ */
+export function isRoutedTo(
+  item: QueueItem,
+  owner: string,
+  windows: WindowPresence[],
+): boolean {
+  if (!item.workspaceFolder) {
+    return true;
+  }
+  const holders = windows.filter((w) =>
+    w.folders.includes(item.workspaceFolder),
+  );
+  return holders.length === 0 || holders.some((w) => w.owner === owner);
+}
+
+/**
+ * Workspace folder to store for a new item: the window's first folder for
+ * scope "workspace", '' for "global" (and when no folder is open).
+ */
+export function workspaceFolderForScope(
+  scope: QueueScope,
+  folders: readonly string[],
+): string {
+  return scope === "global" ? "" : (folders[0] ?? "");
+}
+
+/**
+ * Pending items per scope as seen from a window with `folders` open:
+ * its own workspace, global, and other workspaces.
+ */
+export function countByScope(
+  items: QueueItem[],
+  folders: readonly string[],
+): { workspace: number; global: number; other: number } {
+  const counts = { workspace: 0, global: 0, other: 0 };
+  for (const item of items) {
+    if (item.processed) {
+      continue;
+    }
+    if (!item.workspaceFolder) {
+      counts.global++;
+    } else if (folders.includes(item.workspaceFolder)) {
+      counts.workspace++;
+    } else {
+      counts.other++;
+    }
+  }
+  return counts;
+}
+
+export type DependencyStatus = "ready" | "waiting" | "blocked";
+
+/**
+ * Resolve the dependency status of `item` against the current queue and the
+ * delivery log (newest first — the latest entry for an id wins). Items in a
+ * dependency cycle (or depending on themselves) are blocked: none of them
+ * could ever be sent.
+ * Pure function — no side effects.
+ */
+export function getDependencyStatus(
+  item: QueueItem,
+  queueItems: ReadonlyArray<QueueItem>,
+  deliveryLog: ReadonlyArray<DeliveryLogEntry>,
+): DependencyStatus {
+  let waiting = false;
+  for (const depId of item.dependsOn ?? []) {
+    const latest = deliveryLog.find((e) => e.itemId === depId);
+    if (latest?.status === "delivered") {
+      continue;
+    }
+    if (queueItems.some((i) => i.id === depId && !i.processed)) {
+      if (waitsFor(depId, item.id, queueItems, deliveryLog)) {
+        return "blocked";
+      }
+      waiting = true;
+      continue;
+    }
+    return "blocked";
+  }
+  return waiting ? "waiting" : "ready";
+}
+
+/**
+ * Whether pending item `fromId` waits for `targetId`, directly or through
+ * other pending items. Prerequisites already delivered break the chain.
+ */
+function waitsFor(
+  fromId: string,
+  targetId: string,
+  queueItems: ReadonlyArray<QueueItem>,
+  deliveryLog: ReadonlyArray<DeliveryLogEntry>,
+): boolean {
+  const seen = new Set<string>();
+  const next = [fromId];
+  while (next.length > 0) {
+    const id = next.pop() as string;
+    if (id === targetId) {
+      return true;
+    }
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    const pending = queueItems.find((i) => i.id === id && !i.processed);
+    for (const depId of pending?.dependsOn ?? []) {
+      const latest = deliveryLog.find((e) => e.itemId === depId);
+      if (latest?.status !== "delivered") {
+        next.push(depId);
+      }
+    }
   }
+  return false;
 }
 
 /**
- * Type-guard for untrusted data coming from an imported JSON file.
- * Returns true only if the object has the minimum fields required for a
- * safe queue item: a non-empty id, a non-empty promptText, and a valid
- * ISO notBefore date.
+ * Minimal type-guard for untrusted data: a non-empty id, a non-empty
+ * promptText, and a valid ISO notBefore date. Imports use the strict,
+ * per-field validateQueueItem (queue/schema.ts).
  */
 export function isValidQueueItemShape(raw: unknown): raw is QueueItem {
   if (!raw || typeof raw !== "object") {
@@ -0,0 +1,499 @@
+/**
+ * Import/export formats besides versioned JSON (queue/schema.ts):
+ *
+ *  - Markdown: one section per prompt — `key: value` frontmatter for timing
+ *    and options, the prompt text below. Easy to write by hand in a repo.
+ *  - CSV: one row per prompt, with a header row.
+ *
+ * Both are parsed into raw items for validateQueueItem, as are single
+ * prompt files in the workspace. Also: merge strategies for ids already in
+ * the queue, and time rebasing.
+ */
+import * as path from "path";
+import {
+  PromptContext,
+  QueueItem,
+  QueueScope,
+  workspaceFolderForScope,
+} from "./QueueStore";
+import { generateShortId } from "../util/crypto";
+import {
+  formatFrontmatterValue,
+  parseFrontmatter,
+  parseFrontmatterSections,
+} from "../util/frontmatter";
+import { deliveryVariables } from "../templates/promptTemplates";
+import { RecurrenceRule } from "../util/recurrence";
+import { parseScheduleInput } from "../util/time";
+
+export type ExchangeFormat = "json" | "markdown" | "csv";
+
+/** What to do with an imported item whose id is already queued. */
+export type MergeStrategy = "skip" | "overwrite" | "duplicate";
+
+/** An item read from a Markdown section or CSV row, before validation. */
+export interface ImportRecord {
+  /** Where it came from, for error messages ("section 2", "row 5"). */
+  label: string;
+  raw: Record<string, unknown>;
+  /** Problems found while reading (unknown fields, unreadable values). */
+  errors: string[];
+}
+
+/** Fields written to and read from Markdown and CSV, in column order. */
+const FIELDS = [
+  "id",
+  "createdAt",
+  "notBefore",
+  "priority",
+  "target",
+  "scope",
+  "dependsOn",
+  "repeat",
+  "scheduleMode",
+  "sessionMode",
+  "sessionId",
+  "context",
+] as const;
+
+/** Hand-written files may give a delay in minutes instead of notBefore. */
+const DELAY_FIELD = "delay";
+
+const CSV_TEXT_COLUMN = "prompt";
+
+export function formatForPath(filePath: string): ExchangeFormat {
+  const ext = filePath.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (ext === "md" || ext === "markdown") {
+    return "markdown";
+  }
+  return ext === "csv" ? "csv" : "json";
+}
+
+// ── Markdown ─────────────────────────────────────────────────────────────────
+
+export function serializeMarkdownQueue(items: QueueItem[]): string {
+  const sections = items.map((item) => {
+    const fields = exchangeFields(item);
+    const lines = FIELDS.filter((f) => fields[f]).map(
+      (f) => `${f}: ${formatFrontmatterValue(fields[f])}`,
+    );
+    const body = item.promptText.replace(/\s+$/, "");
+    return `---\n${lines.join("\n")}\n---\n\n${body}\n`;
+  });
+  return [
+    "<!-- Prompt queue: one section per prompt. Frontmatter fields: " +
+      `${FIELDS.join(", ")}, ${DELAY_FIELD} (minutes). -->`,
+    "",
+    ...sections,
+  ].join("\n");
+}
+
+export function parseMarkdownQueue(
+  text: string,
+  now = new Date(),
+): ImportRecord[] {
+  return parseFrontmatterSections(text).map((section, idx) =>
+    recordFromFields(`section ${idx + 1}`, section.fields, section.body, now),
+  );
+}
+
+// ── Prompt files ─────────────────────────────────────────────────────────────
+
+/** Added to a prompt file once it has been delivered (PromptFolderWatcher). */
+export const DELIVERED_FIELD = "delivered";
+
+export interface PromptFile {
+  record: ImportRecord;
+  /** Value of the `delivered` field — the prompt was already sent. */
+  delivered?: string;
+}
+
+/**
+ * Read a single prompt file (`.claude/queue/*.md`): the Markdown fields in
+ * its frontmatter, the prompt below. `now` is when the file was first
+ * queued — `delay` counts from it. Undefined for a file without
+ * frontmatter, which is not a queued prompt.
+ */
+export function parsePromptFile(
+  text: string,
+  label: string,
+  now = new Date(),
+): PromptFile | undefined {
+  const { fields, body } = parseFrontmatter(text);
+  if (Object.keys(fields).length === 0) {
+    return undefined;
+  }
+  const { [DELIVERED_FIELD]: delivered, ...rest } = fields;
+  return { record: recordFromFields(label, rest, body, now), delivered };
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────────────
+
+export function serializeCsvQueue(items: QueueItem[]): string {
+  const rows = [
+    [...FIELDS, CSV_TEXT_COLUMN],
+    ...items.map((item) => {
+      const fields = exchangeFields(item);
+      return [...FIELDS.map((f) => fields[f] ?? ""), item.promptText];
+    }),
+  ];
+  return rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function parseCsvQueue(text: string, now = new Date()): ImportRecord[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    return [];
+  }
+  const columns = header.map((h) => h.trim());
+  const records: ImportRecord[] = [];
+  rows.forEach((row, idx) => {
+    if (!row.some((cell) => cell.trim())) {
+      return;
+    }
+    const fields: Record<string, string> = {};
+    let promptText = "";
+    columns.forEach((column, c) => {
+      const value = row[c] ?? "";
+      if (column === CSV_TEXT_COLUMN || column === "promptText") {
+        promptText = value;
+      } else if (column && value.trim()) {
+        fields[column] = value.trim();
+      }
+    });
+    // Row 1 is the header.
+    records.push(recordFromFields(`row ${idx + 2}`, fields, promptText, now));
+  });
+  return records;
+}
+
+/** RFC 4180 rows: quoted cells may contain commas, quotes ("") and newlines. */
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ── Merging ──────────────────────────────────────────────────────────────────
+
+export interface MergePlan {
+  /** Items to add to the queue. */
+  add: QueueItem[];
+  /** Items replacing the queued item with the same id. */
+  replace: QueueItem[];
+  /** Ids left out because they are already queued ("skip"). */
+  skipped: string[];
+}
+
+/**
+ * Decide what happens to each imported item given the ids already in the
+ * queue. With "duplicate", conflicting items get a new id and `dependsOn`
+ * references between imported items follow the rename.
+ */
+export function planMerge(
+  incoming: QueueItem[],
+  existingIds: ReadonlySet<string>,
+  strategy: MergeStrategy,
+  newId: () => string = generateShortId,
+): MergePlan {
+  const plan: MergePlan = { add: [], replace: [], skipped: [] };
+  const renamed = new Map<string, string>();
+  if (strategy === "duplicate") {
+    const taken = new Set([...existingIds, ...incoming.map((i) => i.id)]);
+    for (const item of incoming) {
+      if (existingIds.has(item.id)) {
+        let id = newId();
+        while (taken.has(id)) {
+          id = newId();
+        }
+        taken.add(id);
+        renamed.set(item.id, id);
+      }
+    }
+  }
+  for (const item of incoming) {
+    const conflict = existingIds.has(item.id);
+    if (conflict && strategy === "skip") {
+      plan.skipped.push(item.id);
+      continue;
+    }
+    const remapped: QueueItem = {
+      ...item,
+      id: renamed.get(item.id) ?? item.id,
+      ...(item.dependsOn
+        ? { dependsOn: item.dependsOn.map((d) => renamed.get(d) ?? d) }
+        : {}),
+    };
+    (conflict && strategy === "overwrite" ? plan.replace : plan.add).push(
+      remapped,
+    );
+  }
+  return plan;
+}
+
+/**
+ * Shift every notBefore by the same amount so the earliest becomes
+ * `firstAt`; gaps between items are kept.
+ */
+export function rebaseTimes(items: QueueItem[], firstAt: Date): QueueItem[] {
+  if (items.length === 0) {
+    return items;
+  }
+  const earliest = Math.min(...items.map((i) => Date.parse(i.notBefore)));
+  const shift = firstAt.getTime() - earliest;
+  return items.map((i) => ({
+    ...i,
+    notBefore: new Date(Date.parse(i.notBefore) + shift).toISOString(),
+  }));
+}
+
+// ── Repeat rules ─────────────────────────────────────────────────────────────
+
+/** "every 30m", "daily 09:00", "weekdays 07:30", "cron 0 9 * * 1-5". */
+export function formatRepeat(rule: RecurrenceRule): string {
+  switch (rule.kind) {
+    case "interval":
+      return `every ${rule.minutes}m`;
+    case "daily":
+    case "weekdays":
+      return `${rule.kind} ${rule.time}`;
+    case "cron":
+      return `cron ${rule.expression}`;
+  }
+}
+
+/** Inverse of formatRepeat; undefined when the text is not a repeat rule. */
+export function parseRepeat(text: string): RecurrenceRule | undefined {
+  const value = text.trim();
+  const interval = value.match(/^every\s+(\d+)\s*(m|min|h)?$/i);
+  if (interval) {
+    const n = Number(interval[1]);
+    return {
+      kind: "interval",
+      minutes: interval[2]?.toLowerCase() === "h" ? n * 60 : n,
+    };
+  }
+  const clock = value.match(/^(daily|weekdays)\s+(\d{1,2}:\d{2})$/i);
+  if (clock) {
+    return {
+      kind: clock[1].toLowerCase() as "daily" | "weekdays",
+      time: clock[2].padStart(5, "0"),
+    };
+  }
+  const cron = value.match(/^cron\s+(.+)$/i);
+  return cron ? { kind: "cron", expression: cron[1].trim() } : undefined;
+}
+
+// ── Scope ────────────────────────────────────────────────────────────────────
+
+/**
+ * Scope written to exports in place of the machine-specific
+ * workspaceFolder; resolveScope turns it back into a folder on import.
+ */
+export function exportScope(item: QueueItem): QueueScope {
+  return item.workspaceFolder ? "workspace" : "global";
+}
+
+/**
+ * The file reference of `item` with its path relative to the item's
+ * workspace folder, so it still points into the workspace on another
+ * machine; resolveScope makes it absolute again. References outside the
+ * folder, and those of global items, keep their absolute path.
+ */
+export function exportContext(item: QueueItem): PromptContext | undefined {
+  if (!item.context || !item.workspaceFolder) {
+    return item.context;
+  }
+  const relative = path.relative(item.workspaceFolder, item.context.path);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    return item.context;
+  }
+  return { ...item.context, path: relative.split(path.sep).join("/") };
+}
+
+/**
+ * Replace the `scope` of an imported record with the workspaceFolder it
+ * means in this window (workspaceFolderForScope), and resolve a relative
+ * file reference (exportContext) against this window's workspace. Records
+ * without a scope — hand-written files, exports from older versions — are
+ * workspace items.
+ */
+export function resolveScope(
+  record: ImportRecord,
+  folders: readonly string[],
+): ImportRecord {
+  if (typeof record.raw !== "object" || record.raw === null) {
+    return record;
+  }
+  const { scope = "workspace", ...raw } = record.raw;
+  if (scope !== "workspace" && scope !== "global") {
+    return {
+      ...record,
+      errors: [
+        ...record.errors,
+        `scope: expected "workspace" or "global", got ${JSON.stringify(scope)}`,
+      ],
+    };
+  }
+  const context = raw.context as { path?: unknown } | undefined;
+  if (typeof context?.path === "string" && !path.isAbsolute(context.path)) {
+    if (!folders[0]) {
+      return {
+        ...record,
+        errors: [
+          ...record.errors,
+          `context: ${context.path} is relative to a workspace, but no folder is open`,
+        ],
+      };
+    }
+    raw.context = { ...context, path: path.join(folders[0], context.path) };
+  }
+  return {
+    ...record,
+    raw: { ...raw, workspaceFolder: workspaceFolderForScope(scope, folders) },
+  };
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+/** Markdown/CSV field values of an item ("" = not set). */
+function exchangeFields(
+  item: QueueItem,
+): Record<(typeof FIELDS)[number], string> {
+  return {
+    id: item.id,
+    createdAt: item.createdAt,
+    notBefore: item.notBefore,
+    priority: item.priority ?? "",
+    target: item.target ?? "",
+    scope: exportScope(item),
+    dependsOn: (item.dependsOn ?? []).join(" "),
+    repeat: item.recurrence ? formatRepeat(item.recurrence) : "",
+    scheduleMode: item.scheduleMode ?? "",
+    sessionMode: item.sessionMode ?? "",
+    sessionId: item.sessionId ?? "",
+    context: item.context ? JSON.stringify(exportContext(item)) : "",
+  };
+}
+
+/**
+ * Turn Markdown/CSV fields into a raw item. Missing id and createdAt are
+ * generated; notBefore accepts anything the Queue Prompt input does
+ * ("tomorrow 9am", "22:00", an ISO timestamp) and defaults to now.
+ * Placeholders resolved at delivery ({{git.diff}}…) are found in the
+ * prompt, as when queueing it.
+ */
+function recordFromFields(
+  label: string,
+  fields: Record<string, string>,
+  promptText: string,
+  now: Date,
+): ImportRecord {
+  const errors: string[] = [];
+  const raw: Record<string, unknown> = {
+    id: fields.id || generateShortId(),
+    createdAt: fields.createdAt || now.toISOString(),
+    promptText,
+  };
+  const deferred = deliveryVariables(promptText);
+  if (deferred.length > 0) {
+    raw.deliveryVariables = deferred;
+  }
+
+  if (fields.notBefore) {
+    // Unreadable values are kept for validation to report.
+    raw.notBefore =
+      parseScheduleInput(fields.notBefore, now)?.toISOString() ??
+      fields.notBefore;
+  } else if (fields[DELAY_FIELD]) {
+    const minutes = Number(fields[DELAY_FIELD]);
+    if (Number.isFinite(minutes) && minutes >= 0) {
+      raw.notBefore = new Date(now.getTime() + minutes * 60_000).toISOString();
+    } else {
+      errors.push(
+        `${DELAY_FIELD}: expected minutes, got ${JSON.stringify(fields[DELAY_FIELD])}`,
+      );
+    }
+  } else {
+    raw.notBefore = now.toISOString();
+  }
+
+  for (const [key, value] of Object.entries(fields)) {
+    switch (key) {
+      case "id":
+      case "createdAt":
+      case "notBefore":
+      case DELAY_FIELD:
+        break;
+      case "priority":
+      case "target":
+      case "scope":
+      case "scheduleMode":
+      case "sessionMode":
+      case "sessionId":
+        raw[key] = value;
+        break;
+      case "dependsOn":
+        raw.dependsOn = value.split(/[\s,]+/).filter(Boolean);
+        break;
+      case "repeat":
+        raw.recurrence = parseRepeat(value) ?? value;
+        break;
+      case "context":
+        // The file reference as JSON, as exported.
+        raw.context = parseJson(value) ?? value;
+        break;
+      default:
+        errors.push(`${key}: unknown field`);
+    }
+  }
+  return { label, raw, errors };
+}
+
+/** Parsed JSON, or undefined for text that is not JSON. */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
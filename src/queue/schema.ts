@@ -0,0 +1,272 @@
+/**
+ * Schema versioning for persisted queue data: stored items (globalState or
+ * the queue file) and export files.
+ *
+ * Versions:
+ *  1. Unversioned data: a bare item array in `promptQueue.items` and in
+ *     export files. Items queued before priorities existed have no
+ *     `position`.
+ *  2. Version marker on stored data and a `{ format, version, items }`
+ *     envelope on exports; every stored item has a `position`.
+ *
+ * To change the item shape, bump QUEUE_SCHEMA_VERSION and add a migration
+ * from the previous version to MIGRATIONS.
+ */
+import { QueueItem } from "./QueueStore";
+import { isValidRecurrence } from "../util/recurrence";
+import { isValidPromptContext } from "../util/promptContext";
+
+export const QUEUE_SCHEMA_VERSION = 2;
+
+/** `format` value identifying export files. */
+export const EXPORT_FORMAT = "prompt-queue";
+
+/** Raw item as read from storage or a file, before validation. */
+type RawItem = Record<string, unknown>;
+
+/**
+ * Upgrades items from version N (the key) to N + 1. Entries that are not
+ * objects are passed through for validation to report.
+ */
+const MIGRATIONS: Record<number, (items: unknown[]) => unknown[]> = {
+  1: (items) => {
+    // Unordered items get positions in stored order, after the ordered ones
+    // (as QueueStore.add does for new items).
+    const positions = items
+      .filter(isObject)
+      .map((i) => i.position)
+      .filter((p): p is number => typeof p === "number");
+    let next = Math.max(-1, ...positions) + 1;
+    return items.map((i) =>
+      isObject(i)
+        ? {
+            ...i,
+            workspaceFolder: i.workspaceFolder ?? "",
+            processed: i.processed ?? false,
+            position: i.position ?? next++,
+          }
+        : i,
+    );
+  },
+};
+
+/** Thrown for data this version cannot read (newer schema, wrong format). */
+export class QueueSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QueueSchemaError";
+  }
+}
+
+/** Bring raw items from `fromVersion` to QUEUE_SCHEMA_VERSION. */
+export function migrateItems(raw: unknown[], fromVersion: number): unknown[] {
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new QueueSchemaError(`Unknown queue schema version ${fromVersion}`);
+  }
+  if (fromVersion > QUEUE_SCHEMA_VERSION) {
+    throw new QueueSchemaError(
+      `Queue data has schema version ${fromVersion}, but this version of the extension reads up to ${QUEUE_SCHEMA_VERSION} — update the extension`,
+    );
+  }
+  let items = raw;
+  for (let v = fromVersion; v < QUEUE_SCHEMA_VERSION; v++) {
+    items = MIGRATIONS[v](items);
+  }
+  return items;
+}
+
+// ── Validation ───────────────────────────────────────────────────────────────
+
+export type ItemValidation =
+  | { ok: true; item: QueueItem }
+  | { ok: false; errors: string[] };
+
+const PRIORITIES = ["high", "normal", "low"];
+const SESSION_MODES = ["new", "continue", "resume"];
+
+/**
+ * Strict per-field check of a (migrated) raw item. Returns the item with
+ * known fields only, or one message per invalid field. `workspaceFolder`
+ * and `processed` may be missing (export files strip them).
+ */
+export function validateQueueItem(raw: unknown): ItemValidation {
+  if (!isObject(raw)) {
+    return { ok: false, errors: ["not an object"] };
+  }
+  const errors: string[] = [];
+  const check = (field: string, valid: boolean, expected: string): void => {
+    if (!valid) {
+      errors.push(
+        `${field}: expected ${expected}, got ${describe(raw[field])}`,
+      );
+    }
+  };
+  const optional = (
+    field: string,
+    valid: (v: unknown) => boolean,
+    expected: string,
+  ): void => {
+    if (raw[field] !== undefined) {
+      check(field, valid(raw[field]), expected);
+    }
+  };
+
+  check("id", isNonEmptyString(raw.id), "a non-empty string");
+  check("createdAt", isIsoDate(raw.createdAt), "an ISO 8601 date");
+  check("notBefore", isIsoDate(raw.notBefore), "an ISO 8601 date");
+  check(
+    "promptText",
+    typeof raw.promptText === "string" && raw.promptText.trim().length > 0,
+    "non-empty text",
+  );
+  optional("workspaceFolder", (v) => typeof v === "string", "a string");
+  optional("processed", (v) => typeof v === "boolean", "true or false");
+  optional("targetTerminalName", (v) => typeof v === "string", "a string");
+  optional(
+    "deliveryAttempts",
+    (v) => Number.isInteger(v) && (v as number) >= 0,
+    "a non-negative integer",
+  );
+  optional(
+    "priority",
+    (v) => PRIORITIES.includes(v as string),
+    '"high", "normal" or "low"',
+  );
+  optional(
+    "position",
+    (v) => typeof v === "number" && Number.isFinite(v),
+    "a number",
+  );
+  // An item that depends on itself would wait forever.
+  optional(
+    "dependsOn",
+    (v) =>
+      Array.isArray(v) &&
+      v.every(isNonEmptyString) &&
+      !(v as unknown[]).includes(raw.id),
+    "a list of other items' ids",
+  );
+  optional(
+    "recurrence",
+    isValidRecurrence,
+    "a repeat rule (interval, daily, weekdays or cron)",
+  );
+  optional("scheduleMode", (v) => v === "windowReset", '"windowReset"');
+  optional(
+    "sessionMode",
+    (v) => SESSION_MODES.includes(v as string),
+    '"new", "continue" or "resume"',
+  );
+  optional("sessionId", isNonEmptyString, "a session id");
+  optional("target", isNonEmptyString, "a delivery target id");
+  optional(
+    "deliveryVariables",
+    (v) => Array.isArray(v) && v.every(isNonEmptyString),
+    "a list of variable names",
+  );
+  optional(
+    "context",
+    isValidPromptContext,
+    "a file reference ({ path, hash, startLine?, endLine?, snapshot? })",
+  );
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  const item: QueueItem = {
+    id: raw.id as string,
+    createdAt: raw.createdAt as string,
+    notBefore: raw.notBefore as string,
+    promptText: raw.promptText as string,
+    workspaceFolder: (raw.workspaceFolder as string | undefined) ?? "",
+    processed: (raw.processed as boolean | undefined) ?? false,
+  };
+  for (const field of [
+    "targetTerminalName",
+    "deliveryAttempts",
+    "priority",
+    "position",
+    "dependsOn",
+    "recurrence",
+    "scheduleMode",
+    "sessionMode",
+    "sessionId",
+    "target",
+    "deliveryVariables",
+    "context",
+  ] as const) {
+    if (raw[field] !== undefined) {
+      (item as unknown as RawItem)[field] = raw[field];
+    }
+  }
+  return { ok: true, item };
+}
+
+// ── Export files ─────────────────────────────────────────────────────────────
+
+export interface QueueExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  /** ISO 8601 — when the file was written. */
+  exportedAt: string;
+  items: Partial<QueueItem>[];
+}
+
+export function serializeExport(
+  items: Partial<QueueItem>[],
+  now = new Date(),
+): string {
+  const file: QueueExportFile = {
+    format: EXPORT_FORMAT,
+    version: QUEUE_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    items,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read an export file of any version — a v1 bare array or a versioned
+ * envelope — and return its raw items migrated to the current schema.
+ * Throws QueueSchemaError for anything else.
+ */
+export function parseExport(text: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err) {
+    throw new QueueSchemaError(`Invalid JSON: ${(err as Error).message}`);
+  }
+  if (Array.isArray(parsed)) {
+    return migrateItems(parsed, 1);
+  }
+  if (!isObject(parsed) || parsed.format !== EXPORT_FORMAT) {
+    throw new QueueSchemaError("Not a prompt queue export file");
+  }
+  if (!Array.isArray(parsed.items)) {
+    throw new QueueSchemaError("items: expected a list of queue items");
+  }
+  return migrateItems(parsed.items, parsed.version as number);
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+function isObject(v: unknown): v is RawItem {
+  return !!v && typeof v === "object" && !Array.isArray(v);
+}
+
+function isNonEmptyString(v: unknown): v is string {
+  return typeof v === "string" && v.length > 0;
+}
+
+function isIsoDate(v: unknown): boolean {
+  return typeof v === "string" && !isNaN(new Date(v).getTime());
+}
+
+function describe(v: unknown): string {
+  if (v === undefined) {
+    return "nothing";
+  }
+  const json = JSON.stringify(v);
+  return json.length > 40 ? `${json.slice(0, 37)}...` : json;
+}
@@ -0,0 +1,144 @@
+/**
+ * Exclusive delivery claims. Neither globalState nor the queue file has a
+ * compare-and-swap, so the lease written into an item cannot decide which of
+ * two racing windows delivers it. A claim file can: it is created with
+ * O_EXCL ("wx"), which succeeds for exactly one window on this machine.
+ *
+ * Taking over an expired claim (its window died mid-delivery) is the one
+ * step that is not atomic: two windows doing so at the same moment may both
+ * deliver. Leases only expire after the delivery timeout plus a margin, so
+ * this needs a crash and an unlucky tick.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { DeliveryLease } from "../queue/QueueStore";
+
+/** An unreadable claim file younger than this is still being written. */
+const PARTIAL_CLAIM_MS = 60_000;
+
+export interface IClaimLock {
+  /** Claim item `id` for `lease.owner`; false when someone else holds it. */
+  acquire(id: string, lease: DeliveryLease, now: number): Promise<boolean>;
+  /** Drop `owner`'s claim on `id` (no-op when not held by `owner`). */
+  release(id: string, owner: string): Promise<void>;
+}
+
+/**
+ * Claims of a single extension host. Enough when only one window delivers,
+ * and for tests; windows must share a FileClaimLock.
+ */
+export class MemoryClaimLock implements IClaimLock {
+  private readonly claims = new Map<string, DeliveryLease>();
+
+  async acquire(
+    id: string,
+    lease: DeliveryLease,
+    now: number,
+  ): Promise<boolean> {
+    const held = this.claims.get(id);
+    if (
+      held &&
+      held.owner !== lease.owner &&
+      Date.parse(held.expiresAt) > now
+    ) {
+      return false;
+    }
+    this.claims.set(id, lease);
+    return true;
+  }
+
+  async release(id: string, owner: string): Promise<void> {
+    if (this.claims.get(id)?.owner === owner) {
+      this.claims.delete(id);
+    }
+  }
+}
+
+/** One claim file per item in `dir`, shared by all windows. */
+export class FileClaimLock implements IClaimLock {
+  constructor(private readonly dir: string) {}
+
+  async acquire(
+    id: string,
+    lease: DeliveryLease,
+    now: number,
+  ): Promise<boolean> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(id);
+    // Second round: after removing a stale claim, race for a fresh one.
+    for (let round = 0; round < 2; round++) {
+      try {
+        await fs.promises.writeFile(file, JSON.stringify(lease), {
+          flag: "wx",
+        });
+        return true;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw err;
+        }
+      }
+      const held = await readClaim(file);
+      if (held === "gone") {
+        continue;
+      }
+      if (held === "partial") {
+        return false;
+      }
+      if (held.owner === lease.owner) {
+        await fs.promises.writeFile(file, JSON.stringify(lease));
+        return true;
+      }
+      if (Date.parse(held.expiresAt) > now) {
+        return false;
+      }
+      await fs.promises.rm(file, { force: true });
+    }
+    return false;
+  }
+
+  async release(id: string, owner: string): Promise<void> {
+    const file = this.fileFor(id);
+    const held = await readClaim(file);
+    if (typeof held === "object" && held.owner === owner) {
+      await fs.promises.rm(file, { force: true });
+    }
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.dir, `${encodeURIComponent(id)}.json`);
+  }
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+/**
+ * The lease in a claim file; "gone" when it was removed meanwhile (or is an
+ * unreadable leftover), "partial" while its creator is still writing it.
+ */
+async function readClaim(
+  file: string,
+): Promise<DeliveryLease | "gone" | "partial"> {
+  try {
+    const lease = JSON.parse(await fs.promises.readFile(file, "utf8"));
+    if (
+      typeof lease?.owner === "string" &&
+      typeof lease?.expiresAt === "string"
+    ) {
+      return lease as DeliveryLease;
+    }
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return "gone";
+    }
+  }
+  try {
+    const { mtimeMs } = await fs.promises.stat(file);
+    if (Date.now() - mtimeMs < PARTIAL_CLAIM_MS) {
+      return "partial";
+    }
+    await fs.promises.rm(file, { force: true });
+  } catch {
+    /* removed meanwhile */
+  }
+  return "gone";
+}
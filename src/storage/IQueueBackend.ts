@@ -0,0 +1,32 @@
+/**
+ * Shared interface for queue storage backends — where QueueStore keeps its
+ * items (globalState, a JSON file…).
+ */
+import { QueueItem } from "../queue/QueueStore";
+
+export interface IQueueBackend {
+  /** Stable id, matching the `promptQueue.storage` setting value. */
+  readonly id: string;
+  /** Human-readable location for logs ("globalState", a file path). */
+  readonly location: string;
+  /**
+   * All stored items. Synchronous because QueueStore reads are; backends
+   * cache and re-read only when the underlying data changed. The returned
+   * array may be modified by the caller.
+   */
+  load(): QueueItem[];
+  /**
+   * Schema version of the stored items (see queue/schema.ts); 1 for data
+   * written before versions were recorded.
+   */
+  storedVersion(): number;
+  /** Replace all stored items, recorded as QUEUE_SCHEMA_VERSION. */
+  save(items: QueueItem[]): Promise<void>;
+  /**
+   * Replace the stored items with `change` applied to them, as one step
+   * that other windows sharing the storage cannot interleave with. `change`
+   * gets the items as stored when the step runs, which may be newer than
+   * what load() returned.
+   */
+  modify(change: (items: QueueItem[]) => QueueItem[]): Promise<void>;
+}
@@ -0,0 +1,204 @@
+/**
+ * JSON-file backend — the queue as a readable file (by default
+ * `queue.json` under the extension's global storage), so it can be
+ * inspected, versioned or synced between machines.
+ *
+ * The file is shared by all VS Code windows: reads are cached by mtime and
+ * size, writes go to a sibling temp file that is then renamed over the
+ * queue file (as in writeSettings), so readers never see a partial file.
+ * Every change re-reads the file and writes it while holding a lock file
+ * next to it, created with O_EXCL as claim files are (ClaimLock.ts): changes
+ * from all windows run one at a time and build on each other, so a prompt
+ * queued in one window is not dropped by another window's write.
+ */
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as path from "path";
+import { QueueItem } from "../queue/QueueStore";
+import { QUEUE_SCHEMA_VERSION } from "../queue/schema";
+import { IQueueBackend } from "./IQueueBackend";
+import { generateShortId } from "../util/crypto";
+
+/** A lock file older than this was left by a window that died mid-write. */
+const LOCK_STALE_MS = 10_000;
+/** Give up waiting for another window's write after this long. */
+const LOCK_TIMEOUT_MS = 5_000;
+const LOCK_RETRY_MS = 20;
+
+/** On-disk layout of the queue file. */
+interface QueueFile {
+  /** Schema version (see queue/schema.ts). */
+  version: number;
+  items: QueueItem[];
+}
+
+export class JsonFileQueueBackend implements IQueueBackend {
+  readonly id = "file";
+  private cache: { key: string; file: QueueFile } | undefined;
+  /** The change being written — what load() returns meanwhile. */
+  private pending: QueueFile | undefined;
+  /** Tail of the running changes — each one starts after the previous. */
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly log: vscode.OutputChannel,
+  ) {}
+
+  get location(): string {
+    return this.filePath;
+  }
+
+  load(): QueueItem[] {
+    return [...((this.pending ?? this.current())?.items ?? [])];
+  }
+
+  storedVersion(): number {
+    // No file yet: nothing to migrate.
+    return (
+      (this.pending ?? this.current())?.version ?? QUEUE_SCHEMA_VERSION
+    );
+  }
+
+  async save(items: QueueItem[]): Promise<void> {
+    await this.modify(() => items);
+  }
+
+  async modify(change: (items: QueueItem[]) => QueueItem[]): Promise<void> {
+    const run = this.writes.then(() => this.locked(() => this.apply(change)));
+    this.writes = run.catch(() => undefined);
+    await run;
+  }
+
+  /** Apply `change` to the file as it is on disk now, and write it. */
+  private async apply(
+    change: (items: QueueItem[]) => QueueItem[],
+  ): Promise<void> {
+    // Another window may have written within the mtime resolution.
+    this.cache = undefined;
+    const file: QueueFile = {
+      version: QUEUE_SCHEMA_VERSION,
+      items: change(this.load()),
+    };
+    this.pending = file;
+    try {
+      await this.write(file);
+    } finally {
+      // A failed write leaves load() on what is on disk.
+      this.pending = undefined;
+    }
+  }
+
+  /**
+   * Run `task` holding `<queue file>.lock`. A lock older than LOCK_STALE_MS
+   * is taken over; two windows doing so at the same moment may both write,
+   * which needs a window to die mid-write first.
+   */
+  private async locked(task: () => Promise<void>): Promise<void> {
+    const lock = `${this.filePath}.lock`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+    for (;;) {
+      try {
+        await fs.promises.writeFile(lock, String(process.pid), { flag: "wx" });
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw err;
+        }
+      }
+      if (await isStale(lock)) {
+        await fs.promises.rm(lock, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`${lock} is held by another window`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+    try {
+      await task();
+    } finally {
+      await fs.promises.rm(lock, { force: true });
+    }
+  }
+
+  private async write(file: QueueFile): Promise<void> {
+    const tmp = `${this.filePath}.${process.pid}.${generateShortId()}.tmp`;
+    try {
+      await fs.promises.writeFile(
+        tmp,
+        JSON.stringify(file, null, 2) + "\n",
+        "utf8",
+      );
+      await fs.promises.rename(tmp, this.filePath);
+    } catch (err) {
+      // Clean up the orphaned temp file before surfacing the error.
+      await fs.promises.unlink(tmp).catch(() => undefined);
+      throw err;
+    }
+    this.cache = undefined;
+  }
+
+  /** The parsed file, re-read only when it changed on disk. */
+  private current(): QueueFile | undefined {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.filePath);
+    } catch {
+      return undefined;
+    }
+    const key = `${stat.mtimeMs}:${stat.size}`;
+    if (this.cache?.key !== key) {
+      const file = this.readFile();
+      if (!file) {
+        return undefined;
+      }
+      this.cache = { key, file };
+    }
+    return this.cache.file;
+  }
+
+  /**
+   * Parse the queue file. An unreadable file is moved aside (never
+   * overwritten) so its prompts can be recovered by hand.
+   */
+  private readFile(): QueueFile | undefined {
+    try {
+      const parsed = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8"),
+      ) as Partial<QueueFile>;
+      if (!parsed || !Array.isArray(parsed.items)) {
+        throw new Error("missing items array");
+      }
+      return { version: parsed.version ?? 1, items: parsed.items };
+    } catch (err) {
+      const aside = `${this.filePath}.corrupt-${Date.now()}`;
+      this.log.appendLine(
+        `[JsonFileQueueBackend] Cannot read ${this.filePath} (${err}) — moved to ${aside}`,
+      );
+      try {
+        fs.renameSync(this.filePath, aside);
+      } catch {
+        /* ignore */
+      }
+      vscode.window.showWarningMessage(
+        `PromptQueue: the queue file was unreadable and has been moved to ${aside}.`,
+      );
+      this.cache = undefined;
+      return undefined;
+    }
+  }
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+/** Whether the lock file was left behind (false when it is gone). */
+async function isStale(lock: string): Promise<boolean> {
+  try {
+    const { mtimeMs } = await fs.promises.stat(lock);
+    return Date.now() - mtimeMs > LOCK_STALE_MS;
+  } catch {
+    return false;
+  }
+}
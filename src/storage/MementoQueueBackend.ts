@@ -0,0 +1,40 @@
+/**
+ * globalState backend — the original storage. Every save rewrites the whole
+ * array through Memento.update. globalState has no lock, so modify() is one
+ * step within this window only; other windows see its changes late anyway.
+ */
+import * as vscode from "vscode";
+import { QueueItem } from "../queue/QueueStore";
+import { QUEUE_SCHEMA_VERSION } from "../queue/schema";
+import { IQueueBackend } from "./IQueueBackend";
+
+/** globalState key holding the queue items. */
+export const ITEMS_KEY = "promptQueue.items";
+/** globalState key holding the schema version of ITEMS_KEY. */
+export const SCHEMA_VERSION_KEY = "promptQueue.schemaVersion";
+
+export class MementoQueueBackend implements IQueueBackend {
+  readonly id = "globalState";
+  readonly location = "globalState";
+
+  constructor(private readonly state: vscode.Memento) {}
+
+  load(): QueueItem[] {
+    return [...this.state.get<QueueItem[]>(ITEMS_KEY, [])];
+  }
+
+  storedVersion(): number {
+    return this.state.get<number>(SCHEMA_VERSION_KEY, 1);
+  }
+
+  async save(items: QueueItem[]): Promise<void> {
+    await this.state.update(ITEMS_KEY, items);
+    if (this.storedVersion() !== QUEUE_SCHEMA_VERSION) {
+      await this.state.update(SCHEMA_VERSION_KEY, QUEUE_SCHEMA_VERSION);
+    }
+  }
+
+  async modify(change: (items: QueueItem[]) => QueueItem[]): Promise<void> {
+    await this.save(change(this.load()));
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Backend selection (`promptQueue.storage`), schema upgrades of stored data
+ * and migration between backends.
+ */
+import * as vscode from "vscode";
+import * as os from "os";
+import * as path from "path";
+import { QueueItem } from "../queue/QueueStore";
+import { migrateItems, QUEUE_SCHEMA_VERSION } from "../queue/schema";
+import { IQueueBackend } from "./IQueueBackend";
+import { JsonFileQueueBackend } from "./JsonFileQueueBackend";
+import { MementoQueueBackend } from "./MementoQueueBackend";
+
+export type QueueStorageKind = "file" | "globalState";
+
+/**
+ * Queue file path: `promptQueue.storagePath` (absolute, `~` allowed) or
+ * `queue.json` in the extension's global storage.
+ */
+export function queueFilePath(
+  configured: string,
+  globalStoragePath: string,
+): string {
+  const trimmed = configured.trim();
+  if (!trimmed) {
+    return path.join(globalStoragePath, "queue.json");
+  }
+  return trimmed === "~" || trimmed.startsWith("~/")
+    ? path.join(os.homedir(), trimmed.slice(1))
+    : path.resolve(trimmed);
+}
+
+/** The backend selected by `promptQueue.storage`. */
+export function createQueueBackend(
+  globalState: vscode.Memento,
+  globalStorageUri: vscode.Uri,
+  log: vscode.OutputChannel,
+): IQueueBackend {
+  const cfg = vscode.workspace.getConfiguration("promptQueue");
+  if (cfg.get<QueueStorageKind>("storage", "file") === "globalState") {
+    return new MementoQueueBackend(globalState);
+  }
+  return new JsonFileQueueBackend(
+    queueFilePath(cfg.get<string>("storagePath", ""), globalStorageUri.fsPath),
+    log,
+  );
+}
+
+/**
+ * Run schema migrations on a backend's stored items. Returns the version
+ * migrated from, or undefined when the data was current. Throws
+ * QueueSchemaError for data written by a newer version (left untouched).
+ */
+export async function upgradeStoredQueue(
+  backend: IQueueBackend,
+): Promise<number | undefined> {
+  const version = backend.storedVersion();
+  if (version === QUEUE_SCHEMA_VERSION) {
+    return undefined;
+  }
+  const items = migrateItems(backend.load(), version) as QueueItem[];
+  await backend.save(items);
+  return version;
+}
+
+/**
+ * Activation pipeline: upgrade stored data to the current schema, then
+ * move items left in globalState by earlier versions into the queue file.
+ * Switching back to globalState leaves the file untouched — it may be
+ * shared with other machines. Errors are logged; the queue stays usable.
+ */
+export async function prepareQueueStorage(
+  backend: IQueueBackend,
+  globalState: vscode.Memento,
+  log: vscode.OutputChannel,
+): Promise<void> {
+  const legacy = new MementoQueueBackend(globalState);
+  const backends = backend.id === "file" ? [legacy, backend] : [backend];
+  for (const b of backends) {
+    try {
+      const from = await upgradeStoredQueue(b);
+      if (from !== undefined) {
+        log.appendLine(
+          `[Storage] Upgraded queue in ${b.location} from schema ${from} to ${QUEUE_SCHEMA_VERSION}`,
+        );
+      }
+    } catch (err) {
+      log.appendLine(`[Storage] Cannot upgrade queue in ${b.location}: ${err}`);
+      vscode.window.showWarningMessage(`PromptQueue: ${(err as Error).message}`);
+      return;
+    }
+  }
+  if (backend.id === "file") {
+    const moved = await migrateQueueItems(legacy, backend);
+    if (moved > 0) {
+      log.appendLine(
+        `[Storage] Moved ${moved} queue item(s) from globalState to ${backend.location}`,
+      );
+    }
+  }
+}
+
+/**
+ * Move every item from `from` into `to`, then empty `from`. Items already
+ * in `to` win on id conflicts, so a prompt queued while the migration ran
+ * (or by another window that migrated first) is kept. Returns the number of
+ * items moved.
+ */
+export async function migrateQueueItems(
+  from: IQueueBackend,
+  to: IQueueBackend,
+): Promise<number> {
+  const moving = from.load();
+  if (moving.length === 0) {
+    return 0;
+  }
+  let added = 0;
+  await to.modify((existing) => {
+    const ids = new Set(existing.map((i) => i.id));
+    const adding = moving.filter((i) => !ids.has(i.id));
+    added = adding.length;
+    return [...existing, ...adding];
+  });
+  await from.save([]);
+  return added;
+}
@@ -0,0 +1,274 @@
+/**
+ * TemplateLibrary — prompt templates (see promptTemplates.ts) read from
+ * `.claude/prompt-templates/*.md` in each workspace folder and from
+ * `~/.claude/prompt-templates/*.md`, next to Claude's own commands folders.
+ * A workspace template hides a global one with the same name.
+ */
+import * as vscode from "vscode";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  customVariables,
+  dateVariables,
+  fillArguments,
+  fillPlaceholders,
+  parsePromptTemplate,
+  PromptTemplate,
+  queueTimeVariables,
+  TemplateScope,
+  usesArguments,
+} from "./promptTemplates";
+import { gitOutput } from "../util/git";
+
+export const TEMPLATE_FOLDER = "prompt-templates";
+
+export class TemplateLibrary {
+  constructor(private readonly log: vscode.OutputChannel) {}
+
+  /** Workspace templates, then global ones, each sorted by name. */
+  list(): PromptTemplate[] {
+    const found = new Map<string, PromptTemplate>();
+    const dirs: [string, TemplateScope][] = [
+      ...(vscode.workspace.workspaceFolders ?? []).map(
+        (f): [string, TemplateScope] => [
+          path.join(f.uri.fsPath, ".claude", TEMPLATE_FOLDER),
+          "workspace",
+        ],
+      ),
+      [path.join(os.homedir(), ".claude", TEMPLATE_FOLDER), "global"],
+    ];
+    for (const [dir, scope] of dirs) {
+      for (const template of this.readDir(dir, scope)) {
+        if (!found.has(template.name)) {
+          found.set(template.name, template);
+        }
+      }
+    }
+    return [...found.values()];
+  }
+
+  /**
+   * Let the user pick a template. Undefined when cancelled — or when there
+   * are none, after offering to create one.
+   */
+  async pick(): Promise<PromptTemplate | undefined> {
+    const templates = this.list();
+    if (templates.length === 0) {
+      const choice = await vscode.window.showInformationMessage(
+        `PromptQueue: No prompt templates yet. Add Markdown files to .claude/${TEMPLATE_FOLDER}/ in the workspace or ~/.claude/${TEMPLATE_FOLDER}/.`,
+        "New Template…",
+      );
+      if (choice) {
+        await this.create();
+      }
+      return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+      templates.map(templatePickItem),
+      {
+        title: "Queue from template",
+        placeHolder: "Choose a prompt template",
+        matchOnDescription: true,
+        ignoreFocusOut: true,
+      },
+    );
+    return picked?.template;
+  }
+
+  /**
+   * Fill in `template` for queueing: ask for $ARGUMENTS and custom
+   * variables, resolve the queue-time built-ins. Delivery-time placeholders
+   * stay in the text. Undefined when the user cancels.
+   */
+  async expand(template: PromptTemplate): Promise<string | undefined> {
+    const title = `Template: ${template.name}`;
+    let text = template.body;
+    if (usesArguments(template)) {
+      const args = await vscode.window.showInputBox({
+        title,
+        prompt: "Arguments ($ARGUMENTS)",
+        placeHolder: template.argumentHint,
+        ignoreFocusOut: true,
+      });
+      if (args === undefined) {
+        return undefined;
+      }
+      text = fillArguments(text, args);
+    }
+    const values: Record<string, string> = {};
+    for (const name of customVariables(template)) {
+      const value = await vscode.window.showInputBox({
+        title,
+        prompt: `Value of {{${name}}}`,
+        value: template.defaults[name] ?? "",
+        ignoreFocusOut: true,
+      });
+      if (value === undefined) {
+        return undefined;
+      }
+      values[name] = value;
+    }
+    const editor = vscode.window.activeTextEditor;
+    const folder =
+      (editor && vscode.workspace.getWorkspaceFolder(editor.document.uri)) ??
+      vscode.workspace.workspaceFolders?.[0];
+    Object.assign(
+      values,
+      await resolveVariables(queueTimeVariables(template), {
+        cwd: folder?.uri.fsPath,
+        editor,
+      }),
+    );
+    return fillPlaceholders(text, values);
+  }
+
+  /** Ask for a name and scope, create the template file and open it. */
+  async create(): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      title: "New Prompt Template",
+      prompt: "Template name (e.g. review-file)",
+      placeHolder: "review-file",
+      validateInput: (v) =>
+        /^[a-z0-9][a-z0-9_-]*$/.test(v.trim())
+          ? null
+          : "Use lowercase letters, digits, hyphens or underscores",
+    });
+    if (!name) {
+      return;
+    }
+    const wsFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    let root = path.join(os.homedir(), ".claude");
+    if (wsFolder) {
+      const scope = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Workspace",
+            description: `.claude/${TEMPLATE_FOLDER}/ — can be committed`,
+            root: path.join(wsFolder, ".claude"),
+          },
+          {
+            label: "Global",
+            description: `~/.claude/${TEMPLATE_FOLDER}/ — all workspaces`,
+            root,
+          },
+        ],
+        { title: "New Prompt Template", placeHolder: "Where to save it?" },
+      );
+      if (!scope) {
+        return;
+      }
+      root = scope.root;
+    }
+
+    const dir = path.join(root, TEMPLATE_FOLDER);
+    const filePath = path.join(dir, `${name.trim()}.md`);
+    if (fs.existsSync(filePath)) {
+      vscode.window.showWarningMessage(`Template already exists: ${name}`);
+    } else {
+      fs.mkdirSync(dir, { recursive: true });
+      const content = [
+        "---",
+        `description: ${name.trim()} — describe what this prompt does`,
+        "argument-hint: what to focus on",
+        "---",
+        "",
+        "Review {{file}} on branch {{branch}}, focusing on $ARGUMENTS.",
+        "",
+        "Changes when this prompt is sent:",
+        "{{git.diff}}",
+        "",
+      ].join("\n");
+      fs.writeFileSync(filePath, content, "utf8");
+    }
+    const doc = await vscode.workspace.openTextDocument(filePath);
+    await vscode.window.showTextDocument(doc, { preview: false });
+  }
+
+  private readDir(dir: string, scope: TemplateScope): PromptTemplate[] {
+    let names: string[];
+    try {
+      names = fs.readdirSync(dir).filter((n) => n.endsWith(".md")).sort();
+    } catch {
+      return [];
+    }
+    const templates: PromptTemplate[] = [];
+    for (const file of names) {
+      const filePath = path.join(dir, file);
+      try {
+        templates.push(
+          parsePromptTemplate(
+            file.slice(0, -".md".length),
+            scope,
+            filePath,
+            fs.readFileSync(filePath, "utf8"),
+          ),
+        );
+      } catch (err) {
+        this.log.appendLine(
+          `[TemplateLibrary] Cannot read ${filePath}: ${err}`,
+        );
+      }
+    }
+    return templates;
+  }
+}
+
+/**
+ * Values of built-in variables. {{file}} and {{selection}} come from
+ * `editor` (empty without one); git variables are empty outside a
+ * repository.
+ */
+export async function resolveVariables(
+  names: string[],
+  context: { cwd?: string; editor?: vscode.TextEditor; now?: Date },
+): Promise<Record<string, string>> {
+  const { editor, cwd } = context;
+  const git = async (args: string[]) =>
+    (cwd ? await gitOutput(args, cwd) : undefined) ?? "";
+  const { date, time } = dateVariables(context.now ?? new Date());
+  const values: Record<string, string> = {};
+  for (const name of names) {
+    switch (name) {
+      case "file":
+        values.file = editor
+          ? vscode.workspace.asRelativePath(editor.document.uri)
+          : "";
+        break;
+      case "selection":
+        values.selection =
+          editor && !editor.selection.isEmpty
+            ? editor.document.getText(editor.selection)
+            : "";
+        break;
+      case "branch":
+        values.branch = await git(["rev-parse", "--abbrev-ref", "HEAD"]);
+        break;
+      case "date":
+        values.date = date;
+        break;
+      case "time":
+        values.time = time;
+        break;
+      case "git.diff":
+        values["git.diff"] = await git(["diff", "HEAD"]);
+        break;
+      case "git.status":
+        values["git.status"] = await git(["status", "--short"]);
+        break;
+    }
+  }
+  return values;
+}
+
+/** Quick pick entry of a template (shared with Queue Prompt). */
+export function templatePickItem(
+  template: PromptTemplate,
+): vscode.QuickPickItem & { template: PromptTemplate } {
+  return {
+    label: `$(file-text) ${template.name}`,
+    description: template.description,
+    detail: template.scope === "workspace" ? "Workspace" : "Global",
+    template,
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Prompt templates — Markdown files like Claude slash commands, with
+ * `{{variable}}` placeholders and `$ARGUMENTS`:
+ *
+ *   ---
+ *   description: Review a file
+ *   argument-hint: what to focus on
+ *   ticket: PROJ-
+ *   ---
+ *   Review {{file}} for {{ticket}}, focusing on $ARGUMENTS.
+ *   Current changes:
+ *   {{git.diff}}
+ *
+ * Built-in variables are resolved when the prompt is queued ({{file}},
+ * {{selection}}, {{branch}}, {{date}}, {{time}}) or when it is delivered
+ * ({{git.diff}}, {{git.status}}); `resolve: queue` or `resolve: delivery` in
+ * the frontmatter moves all but {{file}} and {{selection}}. Any other
+ * placeholder is a custom variable, asked for when queueing — a frontmatter
+ * field of the same name gives its default. Pure functions, no VS Code
+ * dependency.
+ */
+import { parseFrontmatter } from "../util/frontmatter";
+
+export type TemplateScope = "global" | "workspace";
+export type ResolveTime = "queue" | "delivery";
+
+export interface PromptTemplate {
+  /** File name without `.md`. */
+  name: string;
+  scope: TemplateScope;
+  /** Absolute path of the template file. */
+  path: string;
+  description: string;
+  /** Shown when asking for $ARGUMENTS (`argument-hint`). */
+  argumentHint?: string;
+  /** `resolve` field — overrides the default time of movable built-ins. */
+  resolve?: ResolveTime;
+  /** Default values of custom variables (other frontmatter fields). */
+  defaults: Record<string, string>;
+  body: string;
+}
+
+/** Built-ins only known while queueing (the editor state). */
+const EDITOR_VARIABLES = ["file", "selection"];
+
+/** Built-ins that can be resolved at either time → default time. */
+const MOVABLE_VARIABLES: Record<string, ResolveTime> = {
+  branch: "queue",
+  date: "queue",
+  time: "queue",
+  "git.diff": "delivery",
+  "git.status": "delivery",
+};
+
+/** Frontmatter fields with a meaning of their own (not variable defaults). */
+const RESERVED_FIELDS = ["description", "argument-hint", "resolve"];
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.-]*)\s*\}\}/g;
+const ARGUMENTS = /\$ARGUMENTS\b/g;
+
+export function parsePromptTemplate(
+  name: string,
+  scope: TemplateScope,
+  path: string,
+  content: string,
+): PromptTemplate {
+  const { fields, body } = parseFrontmatter(content);
+  const defaults: Record<string, string> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (!RESERVED_FIELDS.includes(key)) {
+      defaults[key] = value;
+    }
+  }
+  const resolve = fields.resolve?.toLowerCase();
+  return {
+    name,
+    scope,
+    path,
+    description: fields.description ?? "",
+    ...(fields["argument-hint"]
+      ? { argumentHint: fields["argument-hint"] }
+      : {}),
+    ...(resolve === "queue" || resolve === "delivery" ? { resolve } : {}),
+    defaults,
+    body,
+  };
+}
+
+/** Distinct placeholder names in `text`, in order of appearance. */
+export function templatePlaceholders(text: string): string[] {
+  const names = Array.from(text.matchAll(PLACEHOLDER), (m) => m[1]);
+  return [...new Set(names)];
+}
+
+export function isBuiltinVariable(name: string): boolean {
+  return EDITOR_VARIABLES.includes(name) || name in MOVABLE_VARIABLES;
+}
+
+/** Placeholders of the template the user fills in. */
+export function customVariables(template: PromptTemplate): string[] {
+  return templatePlaceholders(template.body).filter(
+    (n) => !isBuiltinVariable(n),
+  );
+}
+
+/** Built-ins of the template resolved when it is queued. */
+export function queueTimeVariables(template: PromptTemplate): string[] {
+  return templatePlaceholders(template.body).filter(
+    (n) =>
+      EDITOR_VARIABLES.includes(n) ||
+      (n in MOVABLE_VARIABLES &&
+        (template.resolve ?? MOVABLE_VARIABLES[n]) === "queue"),
+  );
+}
+
+/**
+ * Placeholders left in a prompt that are resolved at delivery: every
+ * built-in that does not depend on the editor. Stored on the queue item
+ * (deliveryVariables) so other `{{…}}` text is never touched.
+ */
+export function deliveryVariables(promptText: string): string[] {
+  return templatePlaceholders(promptText).filter(
+    (n) => n in MOVABLE_VARIABLES,
+  );
+}
+
+export function usesArguments(template: PromptTemplate): boolean {
+  return new RegExp(ARGUMENTS.source).test(template.body);
+}
+
+/** Replace the placeholders named in `values`; others are left as written. */
+export function fillPlaceholders(
+  text: string,
+  values: Record<string, string>,
+): string {
+  return text.replace(PLACEHOLDER, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : match,
+  );
+}
+
+/** Replace `$ARGUMENTS`, as Claude does for slash commands. */
+export function fillArguments(text: string, args: string): string {
+  return text.replace(ARGUMENTS, () => args);
+}
+
+/** Values of {{date}} and {{time}} (local time). */
+export function dateVariables(now: Date): { date: string; time: string } {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+  };
+}
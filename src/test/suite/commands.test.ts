@@ -7,9 +7,12 @@ import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
 import {
+  commandPrompt,
+  isQueueable,
   scanAgents,
   scanSkills,
   scanMcpServers,
+  parseCommandFrontmatter,
   parseFrontmatterDescription,
 } from "../../ui/ClaudeCommandsWebviewProvider";
 
@@ -119,6 +122,17 @@ suite("scanAgents", () => {
     assert.ok(cmd.filePath.endsWith("my-agent.md"));
   });
 
+  test("reads the argument hint", () => {
+    writeFile(
+      path.join(dir, "fixer.md"),
+      `---\ndescription: Fixes things\nargument-hint: what to fix\n---`,
+    );
+    assert.strictEqual(
+      scanAgents(dir, "workspace")[0].argumentHint,
+      "what to fix",
+    );
+  });
+
   test("ignores non-.md files", () => {
     writeFile(path.join(dir, "agent.md"), `---\ndescription: yes\n---`);
     writeFile(path.join(dir, "agent.txt"), `should be ignored`);
@@ -381,3 +395,48 @@ suite("scanMcpServers", () => {
     assert.strictEqual(githubEntries.length, 1);
   });
 });
+
+// ── Queueing ────────────────────────────────────────────────────────────────
+
+suite("Command queueing", () => {
+  const cmd = (slash: string, source: "workspace" | "agent" | "mcp") => ({
+    name: slash.replace(/^[/@]/, ""),
+    category: "commands",
+    slash,
+    description: "",
+    filePath: "",
+    source,
+  });
+
+  test("parseCommandFrontmatter reads description and argument hint", () => {
+    assert.deepStrictEqual(
+      parseCommandFrontmatter(
+        `---\ndescription: Review\nargument-hint: "[file]"\n---\nBody`,
+      ),
+      { description: "Review", argumentHint: "[file]" },
+    );
+    assert.deepStrictEqual(parseCommandFrontmatter("# No frontmatter"), {
+      description: "",
+    });
+  });
+
+  test("commandPrompt appends the arguments to the slash or mention", () => {
+    assert.strictEqual(
+      commandPrompt(cmd("/review", "workspace"), " src/foo.ts "),
+      "/review src/foo.ts",
+    );
+    assert.strictEqual(
+      commandPrompt(cmd("@agent-name", "agent"), "do X"),
+      "@agent-name do X",
+    );
+    assert.strictEqual(
+      commandPrompt(cmd("/review", "workspace"), ""),
+      "/review",
+    );
+  });
+
+  test("MCP servers cannot be queued", () => {
+    assert.ok(isQueueable(cmd("/review", "workspace")));
+    assert.ok(!isQueueable(cmd("mcp:github", "mcp")));
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Unit tests for delivery targets (src/delivery/).
+ */
+import * as assert from "assert";
+import * as os from "os";
+import { QueueItem } from "../../queue/QueueStore";
+import {
+  expandCommandTemplate,
+  shellQuote,
+} from "../../delivery/CommandTemplateTarget";
+import {
+  DEFAULT_TARGET_ID,
+  DeliveryTargetRegistry,
+  builtInDeliveryTargets,
+} from "../../delivery/DeliveryTargetRegistry";
+import { runHeadless } from "../../delivery/headless";
+import { TerminalCliTarget } from "../../delivery/TerminalCliTarget";
+import {
+  IDeliveryTarget,
+  NonRetryableDeliveryError,
+} from "../../delivery/IDeliveryTarget";
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  return {
+    id: "abcd1234",
+    createdAt: new Date().toISOString(),
+    notBefore: new Date().toISOString(),
+    promptText: "test prompt",
+    workspaceFolder: "",
+    processed: false,
+    ...overrides,
+  };
+}
+
+suite("shellQuote / expandCommandTemplate", () => {
+  test("quotes embedded single quotes", () => {
+    assert.strictEqual(shellQuote("it's"), `'it'\\''s'`);
+  });
+
+  test("expands known placeholders, quoted", () => {
+    assert.strictEqual(
+      expandCommandTemplate(
+        "aider --message-file {file} # {id} in {workspace}",
+        { file: "/tmp/cq-1.txt", id: "abcd1234", workspace: "/work/my repo" },
+      ),
+      "aider --message-file '/tmp/cq-1.txt' # 'abcd1234' in '/work/my repo'",
+    );
+  });
+
+  test("leaves unknown placeholders alone", () => {
+    assert.strictEqual(
+      expandCommandTemplate("echo {other} {id}", {
+        file: "f",
+        id: "x",
+        workspace: "w",
+      }),
+      "echo {other} 'x'",
+    );
+  });
+
+  test("expanded command runs through the shell with the prompt on stdin", async function () {
+    if (process.platform === "win32") {
+      this.skip();
+    }
+    const command = `${shellQuote(process.execPath)} -e "process.stdin.pipe(process.stdout)"`;
+    const result = await runHeadless({
+      command,
+      args: [],
+      shell: true,
+      cwd: os.tmpdir(),
+      promptText: "hello target",
+      timeoutMs: 10_000,
+    });
+    assert.strictEqual(result.exitCode, 0);
+    assert.strictEqual(result.stdout, "hello target");
+  });
+});
+
+suite("DeliveryTargetRegistry", () => {
+  const fake: IDeliveryTarget = {
+    id: "fake",
+    name: "Fake",
+    deliver: async () => undefined,
+  };
+
+  test("built-in targets are registered", () => {
+    const registry = new DeliveryTargetRegistry(builtInDeliveryTargets());
+    assert.deepStrictEqual(
+      registry.list().map((t) => t.id),
+      ["claude", "codex", "command", "file"],
+    );
+  });
+
+  test("items without a target use the default", () => {
+    const registry = new DeliveryTargetRegistry(builtInDeliveryTargets());
+    assert.strictEqual(registry.targetIdFor(makeItem()), DEFAULT_TARGET_ID);
+    assert.strictEqual(registry.resolve(makeItem()).id, DEFAULT_TARGET_ID);
+  });
+
+  test("items can pick a registered target", () => {
+    const registry = new DeliveryTargetRegistry([fake]);
+    assert.strictEqual(registry.resolve(makeItem({ target: "fake" })), fake);
+  });
+
+  test("terminal targets only claim their own terminals", () => {
+    const registry = new DeliveryTargetRegistry(builtInDeliveryTargets());
+    const claude = registry.get("claude") as TerminalCliTarget;
+    const codex = registry.get("codex") as TerminalCliTarget;
+    assert.ok(claude.ownsTerminal("Claude"));
+    assert.ok(!claude.ownsTerminal("Codex"));
+    assert.ok(!claude.ownsTerminal("bash"));
+    assert.ok(codex.ownsTerminal("codex"));
+    assert.ok(!codex.ownsTerminal("Claude (continue)"));
+  });
+
+  test("unknown target is non-retryable", () => {
+    const registry = new DeliveryTargetRegistry([fake]);
+    assert.throws(
+      () => registry.resolve(makeItem({ target: "nope" })),
+      (err: unknown) => err instanceof NonRetryableDeliveryError,
+    );
+  });
+});
@@ -0,0 +1,454 @@
+/**
+ * Unit tests for the Markdown and CSV import/export formats, merge
+ * strategies and time rebasing (queue/exchange.ts), and the frontmatter
+ * parser they share with prompt files.
+ */
+import * as assert from "assert";
+import * as path from "path";
+import { QueueItem } from "../../queue/QueueStore";
+import {
+  DELIVERED_FIELD,
+  formatForPath,
+  formatRepeat,
+  parseCsvQueue,
+  parseCsvRows,
+  parseMarkdownQueue,
+  parsePromptFile,
+  parseRepeat,
+  planMerge,
+  rebaseTimes,
+  resolveScope,
+  serializeCsvQueue,
+  serializeMarkdownQueue,
+} from "../../queue/exchange";
+import { validateQueueItem } from "../../queue/schema";
+import {
+  parseFrontmatter,
+  parseFrontmatterSections,
+  setFrontmatterField,
+} from "../../util/frontmatter";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2025-06-01T10:00:00.000Z");
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  return {
+    id: `test-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: "2025-06-01T09:00:00.000Z",
+    notBefore: "2025-06-01T12:00:00.000Z",
+    promptText: "Hello, AI!",
+    workspaceFolder: "",
+    processed: false,
+    ...overrides,
+  };
+}
+
+/** The exported fields of an item, as an import would return them. */
+function portable(item: QueueItem): QueueItem {
+  const { position: _p, ...rest } = item;
+  return rest;
+}
+
+/** Validated items of parsed records; fails on any error. */
+function validItems(records: ReturnType<typeof parseCsvQueue>): QueueItem[] {
+  return records.map((record) => {
+    assert.deepStrictEqual(record.errors, [], record.label);
+    const result = validateQueueItem(record.raw);
+    assert.ok(result.ok, record.label);
+    return result.item;
+  });
+}
+
+const ITEMS: QueueItem[] = [
+  makeItem({
+    id: "aaaa1111",
+    promptText: "Review src/foo.ts\n\n---\n\nand keep: this line",
+    priority: "high",
+    target: "file",
+    recurrence: { kind: "weekdays", time: "07:30" },
+  }),
+  makeItem({
+    id: "bbbb2222",
+    promptText: 'Say "hi", then stop',
+    dependsOn: ["aaaa1111"],
+    sessionMode: "resume",
+    sessionId: "abc-123",
+    scheduleMode: "windowReset",
+    context: {
+      path: "/ws/src/foo.ts",
+      startLine: 10,
+      endLine: 12,
+      hash: "ab12",
+      snapshot: 'const a = "x";\n\nreturn a;',
+    },
+  }),
+];
+
+// ── Frontmatter ────────────────────────────────────────────────────────────
+
+suite("Frontmatter", () => {
+  test("parses fields and body, unquoting values", () => {
+    const fm = parseFrontmatter(
+      '---\ndescription: "Review: a file"\nmodel: \'opus\'\n---\n\nBody\n',
+    );
+    assert.deepStrictEqual(fm.fields, {
+      description: "Review: a file",
+      model: "opus",
+    });
+    assert.strictEqual(fm.body, "Body");
+  });
+
+  test("content without frontmatter is all body", () => {
+    assert.deepStrictEqual(parseFrontmatter("Just text"), {
+      fields: {},
+      body: "Just text",
+    });
+  });
+
+  test("nested YAML lines are skipped", () => {
+    const fm = parseFrontmatter(
+      "---\nallowed-tools:\n  - Bash\n  - Read\ndescription: Run it\n---\nBody",
+    );
+    assert.deepStrictEqual(fm.fields, {
+      "allowed-tools": "",
+      description: "Run it",
+    });
+    assert.strictEqual(fm.body, "Body");
+  });
+
+  test("setFrontmatterField replaces, appends or adds a block", () => {
+    assert.strictEqual(
+      setFrontmatterField("---\na: 1\nb: 2\n---\nBody", "a", "x: y"),
+      '---\na: "x: y"\nb: 2\n---\nBody',
+    );
+    assert.strictEqual(
+      setFrontmatterField("---\r\na: 1\r\n---\r\nBody", "c", "3"),
+      "---\r\na: 1\r\nc: 3\r\n---\r\nBody",
+    );
+    assert.strictEqual(
+      setFrontmatterField("Body", "c", "3"),
+      "---\nc: 3\n---\n\nBody",
+    );
+  });
+
+  test("--- inside a body does not start a section", () => {
+    const sections = parseFrontmatterSections(
+      "intro\n---\na: 1\n---\nfirst\n---\nnot: a field\nplain text\n---\nmore\n---\nb: 2\n---\nsecond",
+    );
+    assert.deepStrictEqual(
+      sections.map((s) => s.fields),
+      [{ a: "1" }, { b: "2" }],
+    );
+    assert.strictEqual(
+      sections[0].body,
+      "first\n---\nnot: a field\nplain text\n---\nmore",
+    );
+    assert.strictEqual(sections[1].body, "second");
+  });
+});
+
+// ── Markdown ───────────────────────────────────────────────────────────────
+
+suite("Exchange — Markdown", () => {
+  test("round trip", () => {
+    const text = serializeMarkdownQueue(ITEMS);
+    assert.deepStrictEqual(
+      validItems(parseMarkdownQueue(text, NOW)),
+      ITEMS.map(portable),
+    );
+  });
+
+  test("hand-written file: delay, schedule text and defaults", () => {
+    const records = parseMarkdownQueue(
+      [
+        "# Tonight",
+        "",
+        "---",
+        "delay: 30",
+        "priority: low",
+        "---",
+        "First prompt",
+        "---",
+        "notBefore: 2025-06-01T22:00:00Z",
+        "repeat: every 2h",
+        "---",
+        "Second prompt",
+      ].join("\n"),
+      NOW,
+    );
+    const [first, second] = validItems(records);
+    assert.strictEqual(first.notBefore, "2025-06-01T10:30:00.000Z");
+    assert.strictEqual(first.priority, "low");
+    assert.strictEqual(first.createdAt, NOW.toISOString());
+    assert.ok(first.id);
+    assert.strictEqual(second.notBefore, "2025-06-01T22:00:00.000Z");
+    assert.deepStrictEqual(second.recurrence, {
+      kind: "interval",
+      minutes: 120,
+    });
+    assert.notStrictEqual(first.id, second.id);
+  });
+
+  test("delivery-time placeholders are found in the prompt", () => {
+    const item = makeItem({
+      id: "cccc3333",
+      promptText: "Explain {{git.diff}} on {{ticket}}",
+      deliveryVariables: ["git.diff"],
+    });
+    const text = serializeMarkdownQueue([item]);
+    assert.deepStrictEqual(validItems(parseMarkdownQueue(text, NOW)), [
+      portable(item),
+    ]);
+    const [csv] = validItems(parseCsvQueue(serializeCsvQueue([item]), NOW));
+    assert.deepStrictEqual(csv.deliveryVariables, ["git.diff"]);
+  });
+
+  test("reports unknown fields and unreadable values", () => {
+    const [record] = parseMarkdownQueue(
+      "---\ndelay: soon\nowner: me\nrepeat: sometimes\ncontext: foo.ts\n---\nText",
+      NOW,
+    );
+    assert.deepStrictEqual(record.errors, [
+      'delay: expected minutes, got "soon"',
+      "owner: unknown field",
+    ]);
+    assert.strictEqual(record.label, "section 1");
+    const result = validateQueueItem(record.raw);
+    assert.ok(!result.ok);
+    assert.ok(result.errors.some((e) => e.startsWith("recurrence:")));
+    assert.ok(result.errors.some((e) => e.startsWith("context:")));
+  });
+});
+
+// ── Prompt files ───────────────────────────────────────────────────────────
+
+suite("Exchange — prompt files", () => {
+  test("delay counts from the given queue time", () => {
+    const file = parsePromptFile(
+      "---\ndelay: 15\ntarget: file\n---\n\nReview src/queue\n",
+      ".claude/queue/review.md",
+      NOW,
+    );
+    assert.ok(file && !file.delivered);
+    const [item] = validItems([file.record]);
+    assert.strictEqual(item.notBefore, "2025-06-01T10:15:00.000Z");
+    assert.strictEqual(item.target, "file");
+    assert.strictEqual(item.promptText, "Review src/queue");
+  });
+
+  test("annotated files are reported as delivered", () => {
+    const text = setFrontmatterField(
+      "---\npriority: high\n---\nDone already",
+      DELIVERED_FIELD,
+      NOW.toISOString(),
+    );
+    const file = parsePromptFile(text, "done.md", NOW);
+    assert.strictEqual(file?.delivered, NOW.toISOString());
+    // "delivered" is not an unknown field.
+    assert.deepStrictEqual(file?.record.errors, []);
+  });
+
+  test("files without frontmatter are not prompts", () => {
+    assert.strictEqual(
+      parsePromptFile("# Notes\n", "README.md", NOW),
+      undefined,
+    );
+  });
+});
+
+// ── CSV ────────────────────────────────────────────────────────────────────
+
+suite("Exchange — CSV", () => {
+  test("round trip with quotes, commas and newlines", () => {
+    const text = serializeCsvQueue(ITEMS);
+    assert.ok(text.startsWith("id,createdAt,notBefore,"));
+    assert.deepStrictEqual(
+      validItems(parseCsvQueue(text, NOW)),
+      ITEMS.map(portable),
+    );
+  });
+
+  test("minimal sheet: prompt column only, blank rows skipped", () => {
+    const records = parseCsvQueue(
+      "\uFEFFprompt,delay\r\nfirst,5\r\n,\r\n\"second, with comma\",\r\n",
+      NOW,
+    );
+    const [first, second] = validItems(records);
+    assert.strictEqual(first.notBefore, "2025-06-01T10:05:00.000Z");
+    assert.strictEqual(second.promptText, "second, with comma");
+    assert.strictEqual(second.notBefore, NOW.toISOString());
+    assert.deepStrictEqual(
+      records.map((r) => r.label),
+      ["row 2", "row 4"],
+    );
+  });
+
+  test("parseCsvRows handles escaped quotes and a missing final newline", () => {
+    assert.deepStrictEqual(parseCsvRows('a,"b ""c""",d\ne,"f\ng"'), [
+      ["a", 'b "c"', "d"],
+      ["e", "f\ng"],
+    ]);
+  });
+
+  test("format follows the file extension", () => {
+    assert.strictEqual(formatForPath("/x/queue.MD"), "markdown");
+    assert.strictEqual(formatForPath("/x/queue.csv"), "csv");
+    assert.strictEqual(formatForPath("/x/queue.json"), "json");
+    assert.strictEqual(formatForPath("/x/queue"), "json");
+  });
+});
+
+// ── Scope ──────────────────────────────────────────────────────────────────
+
+suite("Exchange — scope", () => {
+  const items = [
+    makeItem({ id: "global11", workspaceFolder: "" }),
+    makeItem({ id: "wspace22", workspaceFolder: "/elsewhere/project" }),
+  ];
+
+  test("global items stay global, workspace items join this workspace", () => {
+    for (const text of [
+      serializeMarkdownQueue(items),
+      serializeCsvQueue(items),
+    ]) {
+      const records = text.startsWith("id,")
+        ? parseCsvQueue(text, NOW)
+        : parseMarkdownQueue(text, NOW);
+      assert.deepStrictEqual(
+        validItems(records.map((r) => resolveScope(r, ["/here"]))).map(
+          (i) => i.workspaceFolder,
+        ),
+        ["", "/here"],
+      );
+    }
+  });
+
+  test("records without a scope are workspace items", () => {
+    const [record] = parseMarkdownQueue("---\ndelay: 5\n---\nText", NOW);
+    const [item] = validItems([resolveScope(record, ["/here"])]);
+    assert.strictEqual(item.workspaceFolder, "/here");
+    // No folder open: nothing to tie the item to.
+    const [loose] = validItems([resolveScope(record, [])]);
+    assert.strictEqual(loose.workspaceFolder, "");
+  });
+
+  test("file references move with the workspace", () => {
+    const context = { path: "", startLine: 3, endLine: 4, hash: "ab12" };
+    const moved = [
+      makeItem({
+        id: "inside11",
+        workspaceFolder: "/elsewhere/project",
+        context: { ...context, path: "/elsewhere/project/src/a.ts" },
+      }),
+      makeItem({
+        id: "outside2",
+        workspaceFolder: "/elsewhere/project",
+        context: { ...context, path: "/etc/hosts" },
+      }),
+    ];
+    const text = serializeMarkdownQueue(moved);
+    assert.ok(!text.includes("/elsewhere/project"));
+    const records = parseMarkdownQueue(text, NOW);
+    assert.deepStrictEqual(
+      validItems(records.map((r) => resolveScope(r, ["/here"]))).map(
+        (i) => i.context?.path,
+      ),
+      [path.join("/here", "src/a.ts"), "/etc/hosts"],
+    );
+    assert.deepStrictEqual(resolveScope(records[0], []).errors, [
+      "context: src/a.ts is relative to a workspace, but no folder is open",
+    ]);
+  });
+
+  test("unknown scopes are reported", () => {
+    const [record] = parseMarkdownQueue("---\nscope: team\n---\nText", NOW);
+    assert.deepStrictEqual(resolveScope(record, ["/here"]).errors, [
+      'scope: expected "workspace" or "global", got "team"',
+    ]);
+  });
+});
+
+// ── Merging and rebasing ───────────────────────────────────────────────────
+
+suite("Exchange — merge strategies", () => {
+  const incoming = [
+    makeItem({ id: "a" }),
+    makeItem({ id: "b", dependsOn: ["a"] }),
+    makeItem({ id: "c" }),
+  ];
+  const existing = new Set(["a", "b"]);
+
+  test("skip leaves queued ids alone", () => {
+    const plan = planMerge(incoming, existing, "skip");
+    assert.deepStrictEqual(
+      plan.add.map((i) => i.id),
+      ["c"],
+    );
+    assert.deepStrictEqual(plan.replace, []);
+    assert.deepStrictEqual(plan.skipped, ["a", "b"]);
+  });
+
+  test("overwrite replaces queued ids", () => {
+    const plan = planMerge(incoming, existing, "overwrite");
+    assert.deepStrictEqual(
+      plan.replace.map((i) => i.id),
+      ["a", "b"],
+    );
+    assert.deepStrictEqual(
+      plan.add.map((i) => i.id),
+      ["c"],
+    );
+  });
+
+  test("duplicate renames conflicts and follows dependencies", () => {
+    const ids = ["a", "c", "n1", "n2"];
+    const plan = planMerge(incoming, existing, "duplicate", () => ids.shift()!);
+    assert.deepStrictEqual(
+      plan.add.map((i) => i.id),
+      ["n1", "n2", "c"],
+    );
+    assert.deepStrictEqual(plan.add[1].dependsOn, ["n1"]);
+    assert.deepStrictEqual(plan.skipped, []);
+  });
+});
+
+suite("Exchange — time rebasing", () => {
+  test("shifts every item and keeps the gaps", () => {
+    const items = [
+      makeItem({ notBefore: "2025-01-01T09:30:00.000Z" }),
+      makeItem({ notBefore: "2025-01-01T09:00:00.000Z" }),
+    ];
+    const rebased = rebaseTimes(items, NOW);
+    assert.deepStrictEqual(
+      rebased.map((i) => i.notBefore),
+      ["2025-06-01T10:30:00.000Z", "2025-06-01T10:00:00.000Z"],
+    );
+    assert.strictEqual(items[0].notBefore, "2025-01-01T09:30:00.000Z");
+  });
+});
+
+suite("Exchange — repeat rules", () => {
+  test("format and parse round trip", () => {
+    for (const rule of [
+      { kind: "interval", minutes: 45 },
+      { kind: "daily", time: "09:00" },
+      { kind: "weekdays", time: "07:30" },
+      { kind: "cron", expression: "0 9 * * 1-5" },
+    ] as const) {
+      assert.deepStrictEqual(parseRepeat(formatRepeat(rule)), rule);
+    }
+  });
+
+  test("accepts loose spellings and rejects other text", () => {
+    assert.deepStrictEqual(parseRepeat("Daily 9:05"), {
+      kind: "daily",
+      time: "09:05",
+    });
+    assert.deepStrictEqual(parseRepeat("every 1h"), {
+      kind: "interval",
+      minutes: 60,
+    });
+    assert.strictEqual(parseRepeat("sometimes"), undefined);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Unit tests for headless delivery (delivery/headless.ts).
+ * No VS Code dependency — runs Node itself as the "CLI".
+ */
+import * as assert from "assert";
+import * as os from "os";
+import { claudePrintArgs, runHeadless } from "../../delivery/headless";
+
+function runNode(script: string, promptText = "", timeoutMs = 10_000) {
+  return runHeadless({
+    command: process.execPath,
+    args: ["-e", script],
+    cwd: os.tmpdir(),
+    promptText,
+    timeoutMs,
+  });
+}
+
+suite("claudePrintArgs", () => {
+  test("new conversation", () => {
+    assert.deepStrictEqual(claudePrintArgs(), ["-p"]);
+  });
+
+  test("resume with a recorded id", () => {
+    assert.deepStrictEqual(claudePrintArgs("resume", "abc-123"), [
+      "-p",
+      "--resume",
+      "abc-123",
+    ]);
+  });
+
+  test("continue, or resume without a usable id", () => {
+    assert.deepStrictEqual(claudePrintArgs("continue"), ["-p", "--continue"]);
+    assert.deepStrictEqual(claudePrintArgs("resume", "bad id!"), [
+      "-p",
+      "--continue",
+    ]);
+  });
+});
+
+suite("runHeadless", () => {
+  test("feeds the prompt on stdin and captures stdout", async () => {
+    const r = await runNode(
+      "let s='';process.stdin.on('data',d=>s+=d).on('end',()=>process.stdout.write('echo:'+s))",
+      "hello",
+    );
+    assert.strictEqual(r.exitCode, 0);
+    assert.strictEqual(r.stdout, "echo:hello");
+    assert.strictEqual(r.timedOut, false);
+  });
+
+  test("reports stderr and a non-zero exit code", async () => {
+    const r = await runNode("process.stderr.write('boom');process.exit(3)");
+    assert.strictEqual(r.exitCode, 3);
+    assert.strictEqual(r.stderr, "boom");
+  });
+
+  test("kills the process on timeout", async () => {
+    const r = await runNode("setTimeout(()=>{},10000)", "", 200);
+    assert.strictEqual(r.timedOut, true);
+    assert.strictEqual(r.exitCode, null);
+  });
+
+  test("rejects when the command does not exist", async () => {
+    await assert.rejects(
+      runHeadless({
+        command: "definitely-not-a-claude-cli",
+        args: [],
+        cwd: os.tmpdir(),
+        promptText: "",
+        timeoutMs: 5_000,
+      }),
+      (err: NodeJS.ErrnoException) => err.code === "ENOENT",
+    );
+  });
+});
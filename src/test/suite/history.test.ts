@@ -0,0 +1,261 @@
+/**
+ * Unit tests for the persistent prompt history (HistoryStore): entry
+ * creation, filtering, retention and the JSON file itself.
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  HistoryEntry,
+  HistoryStore,
+  filterHistory,
+  historyEntryFromOutcome,
+  pruneHistory,
+} from "../../queue/HistoryStore";
+import { DeliveryOutcome, QueueItem } from "../../queue/QueueStore";
+
+const mockLog = {
+  appendLine: (_msg: string): void => {
+    /* silent */
+  },
+} as unknown as import("vscode").OutputChannel;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeTmpDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "claude-history-test-"));
+}
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  return {
+    id: `test-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: "2025-06-01T10:00:00.000Z",
+    notBefore: "2025-06-01T11:00:00.000Z",
+    promptText: "Hello, AI!",
+    workspaceFolder: "/work/app",
+    processed: false,
+    ...overrides,
+  };
+}
+
+function makeOutcome(
+  overrides: Partial<DeliveryOutcome> = {},
+): DeliveryOutcome {
+  // Recent enough to survive the default 90-day retention.
+  const finishedAt = new Date();
+  return {
+    item: makeItem(),
+    status: "delivered",
+    target: "claude",
+    attempts: 1,
+    startedAt: new Date(finishedAt.getTime() - 2500),
+    finishedAt,
+    ...overrides,
+  };
+}
+
+function makeEntry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+  return {
+    ...historyEntryFromOutcome(makeOutcome()),
+    ...overrides,
+  };
+}
+
+// ── historyEntryFromOutcome ────────────────────────────────────────────────
+
+suite("History — entries", () => {
+  test("copies prompt, target, workspace and timing", () => {
+    const item = makeItem({ promptText: "Refactor the parser" });
+    const entry = historyEntryFromOutcome(
+      makeOutcome({
+        item,
+        attempts: 2,
+        startedAt: new Date("2025-06-01T11:00:00.000Z"),
+        finishedAt: new Date("2025-06-01T11:00:02.500Z"),
+      }),
+    );
+    assert.strictEqual(entry.itemId, item.id);
+    assert.strictEqual(entry.promptText, "Refactor the parser");
+    assert.strictEqual(entry.target, "claude");
+    assert.strictEqual(entry.workspaceFolder, "/work/app");
+    assert.strictEqual(entry.attempts, 2);
+    assert.strictEqual(entry.scheduledFor, item.notBefore);
+    assert.strictEqual(entry.finishedAt, "2025-06-01T11:00:02.500Z");
+    assert.strictEqual(entry.durationMs, 2500);
+    assert.strictEqual(entry.error, undefined);
+  });
+
+  test("failed outcomes keep the error", () => {
+    const entry = historyEntryFromOutcome(
+      makeOutcome({ status: "failed", error: "claude -p exited with code 1" }),
+    );
+    assert.strictEqual(entry.status, "failed");
+    assert.strictEqual(entry.error, "claude -p exited with code 1");
+  });
+
+  test("each entry gets its own id", () => {
+    const outcome = makeOutcome();
+    assert.notStrictEqual(
+      historyEntryFromOutcome(outcome).id,
+      historyEntryFromOutcome(outcome).id,
+    );
+  });
+});
+
+// ── filterHistory ──────────────────────────────────────────────────────────
+
+suite("History — filter", () => {
+  const entries = [
+    makeEntry({ promptText: "Write tests for the lexer", target: "claude" }),
+    makeEntry({
+      promptText: "Summarise the diff",
+      target: "codex",
+      status: "failed",
+      error: "Terminal not found",
+    }),
+    makeEntry({ promptText: "Global note", workspaceFolder: "" }),
+  ];
+
+  test("empty filter returns everything in order", () => {
+    assert.deepStrictEqual(filterHistory(entries, {}), entries);
+  });
+
+  test("text matches prompt and error case-insensitively", () => {
+    assert.deepStrictEqual(
+      filterHistory(entries, { text: "LEXER" }).map((e) => e.promptText),
+      ["Write tests for the lexer"],
+    );
+    assert.deepStrictEqual(
+      filterHistory(entries, { text: "terminal" }).map((e) => e.target),
+      ["codex"],
+    );
+  });
+
+  test("status, target and workspace narrow the result", () => {
+    assert.strictEqual(filterHistory(entries, { status: "failed" }).length, 1);
+    assert.strictEqual(filterHistory(entries, { target: "claude" }).length, 2);
+    assert.deepStrictEqual(
+      filterHistory(entries, { workspaceFolder: "" }).map((e) => e.promptText),
+      ["Global note"],
+    );
+  });
+});
+
+// ── pruneHistory ───────────────────────────────────────────────────────────
+
+suite("History — retention", () => {
+  const now = Date.parse("2025-06-30T00:00:00.000Z");
+  const entries = [
+    makeEntry({ finishedAt: "2025-06-29T00:00:00.000Z" }),
+    makeEntry({ finishedAt: "2025-06-20T00:00:00.000Z" }),
+    makeEntry({ finishedAt: "2025-05-01T00:00:00.000Z" }),
+  ];
+
+  test("drops entries older than retentionDays", () => {
+    const kept = pruneHistory(
+      entries,
+      { retentionDays: 30, maxEntries: 0 },
+      now,
+    );
+    assert.strictEqual(kept.length, 2);
+  });
+
+  test("keeps the newest maxEntries", () => {
+    const kept = pruneHistory(
+      entries,
+      { retentionDays: 0, maxEntries: 1 },
+      now,
+    );
+    assert.deepStrictEqual(kept, [entries[0]]);
+  });
+
+  test("zero means unlimited", () => {
+    assert.strictEqual(
+      pruneHistory(entries, { retentionDays: 0, maxEntries: 0 }, now).length,
+      3,
+    );
+  });
+});
+
+// ── HistoryStore ───────────────────────────────────────────────────────────
+
+suite("HistoryStore", () => {
+  test("record prepends and persists to the file", async () => {
+    const file = path.join(makeTmpDir(), "nested", "history.json");
+    const store = new HistoryStore(file, mockLog);
+    assert.deepStrictEqual(store.getAll(), []);
+
+    await store.record(
+      makeOutcome({ item: makeItem({ promptText: "first" }) }),
+    );
+    await store.record(
+      makeOutcome({ item: makeItem({ promptText: "second" }) }),
+    );
+
+    assert.deepStrictEqual(
+      store.getAll().map((e) => e.promptText),
+      ["second", "first"],
+    );
+    // A second store on the same file (another window) sees the entries.
+    const other = new HistoryStore(file, mockLog);
+    assert.strictEqual(other.getAll().length, 2);
+  });
+
+  test("remove and clear", async () => {
+    const file = path.join(makeTmpDir(), "history.json");
+    const store = new HistoryStore(file, mockLog);
+    await store.record(makeOutcome());
+    await store.record(makeOutcome());
+    const [first] = store.getAll();
+
+    await store.remove(first.id);
+    assert.strictEqual(store.getAll().length, 1);
+    assert.strictEqual(store.get(first.id), undefined);
+
+    await store.clear();
+    assert.deepStrictEqual(store.getAll(), []);
+  });
+
+  test("overlapping records keep every entry", async () => {
+    const dir = makeTmpDir();
+    const store = new HistoryStore(path.join(dir, "history.json"), mockLog);
+    await Promise.all(
+      ["a", "b", "c"].map((promptText) =>
+        store.record(makeOutcome({ item: makeItem({ promptText }) })),
+      ),
+    );
+    assert.deepStrictEqual(
+      store
+        .getAll()
+        .map((e) => e.promptText)
+        .sort(),
+      ["a", "b", "c"],
+    );
+    assert.deepStrictEqual(fs.readdirSync(dir), ["history.json"]);
+  });
+
+  test("a corrupt file is moved aside", () => {
+    const dir = makeTmpDir();
+    const file = path.join(dir, "history.json");
+    fs.writeFileSync(file, "{not json", "utf8");
+
+    const store = new HistoryStore(file, mockLog);
+    assert.deepStrictEqual(store.getAll(), []);
+    assert.ok(!fs.existsSync(file));
+    assert.ok(
+      fs.readdirSync(dir).some((f) => f.startsWith("history.json.corrupt-")),
+    );
+  });
+
+  test("writes fire onDidChange", async () => {
+    const store = new HistoryStore(
+      path.join(makeTmpDir(), "history.json"),
+      mockLog,
+    );
+    let fired = 0;
+    store.onDidChange(() => fired++);
+    await store.record(makeOutcome());
+    assert.strictEqual(fired, 1);
+  });
+});
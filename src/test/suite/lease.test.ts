@@ -0,0 +1,419 @@
+/**
+ * Unit tests for multi-window delivery: leases, window routing, and two
+ * QueueProcessors sharing one Memento (as two VS Code windows share
+ * globalState).
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  QueueStore,
+  QueueItem,
+  WINDOW_STALE_MS,
+  isClaimable,
+  isRoutedTo,
+} from "../../queue/QueueStore";
+import { QueueProcessor } from "../../queue/QueueProcessor";
+import { DeliveryTargetRegistry } from "../../delivery/DeliveryTargetRegistry";
+import { IDeliveryTarget } from "../../delivery/IDeliveryTarget";
+import {
+  FileClaimLock,
+  IClaimLock,
+  MemoryClaimLock,
+} from "../../storage/ClaimLock";
+
+// ── Mock vscode.Memento ────────────────────────────────────────────────────
+class MockMemento {
+  private data = new Map<string, unknown>();
+
+  get<T>(key: string, defaultValue: T): T {
+    return (this.data.has(key) ? this.data.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  keys(): readonly string[] {
+    return Array.from(this.data.keys());
+  }
+  setKeysForSync(_keys: readonly string[]): void {
+    /* no-op */
+  }
+}
+
+/**
+ * Memento whose writes take a moment, like globalState: two windows'
+ * read-modify-writes interleave instead of running one after the other.
+ */
+class SlowMemento extends MockMemento {
+  async update(key: string, value: unknown): Promise<void> {
+    await new Promise((r) => setTimeout(r, 5));
+    await super.update(key, value);
+  }
+}
+
+const mockLog = {
+  appendLine: (_msg: string): void => {
+    /* silent */
+  },
+} as unknown as import("vscode").OutputChannel;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeMemento(): import("vscode").Memento {
+  return new MockMemento() as unknown as import("vscode").Memento;
+}
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  const now = new Date();
+  return {
+    id: `test-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now.toISOString(),
+    notBefore: new Date(now.getTime() - 60_000).toISOString(),
+    promptText: "Hello, AI!",
+    workspaceFolder: "",
+    processed: false,
+    target: "fake",
+    ...overrides,
+  };
+}
+
+/** Target that records deliveries and takes `delayMs` to finish. */
+function makeTarget(delayMs = 0, fail = false) {
+  const delivered: string[] = [];
+  const target: IDeliveryTarget = {
+    id: "fake",
+    name: "Fake",
+    deliver: async (item) => {
+      await new Promise((r) => setTimeout(r, delayMs));
+      if (fail) {
+        throw new Error("boom");
+      }
+      delivered.push(item.id);
+      return undefined;
+    },
+  };
+  return { target, delivered };
+}
+
+/** A "window": its own QueueStore and processor over the shared Memento. */
+function makeWindow(
+  memento: import("vscode").Memento,
+  target: IDeliveryTarget,
+  locks?: IClaimLock,
+) {
+  const store = new QueueStore(memento, undefined, locks);
+  const processor = new QueueProcessor(
+    store,
+    mockLog,
+    undefined,
+    new DeliveryTargetRegistry([target]),
+  );
+  return { store, processor };
+}
+
+// ── QueueStore leases ──────────────────────────────────────────────────────
+
+suite("QueueStore — leases", () => {
+  test("claim sets a lease; a second owner is refused", async () => {
+    const store = new QueueStore(makeMemento());
+    const item = makeItem();
+    await store.add(item);
+    assert.strictEqual(await store.claim(item.id, "a", 60_000), true);
+    assert.strictEqual(store.getAll()[0].lease?.owner, "a");
+    assert.strictEqual(await store.claim(item.id, "b", 60_000), false);
+  });
+
+  test("the owner may re-claim its own lease", async () => {
+    const store = new QueueStore(makeMemento());
+    const item = makeItem();
+    await store.add(item);
+    await store.claim(item.id, "a", 60_000);
+    assert.strictEqual(await store.claim(item.id, "a", 60_000), true);
+  });
+
+  test("an expired lease can be taken over", async () => {
+    const store = new QueueStore(makeMemento());
+    const item = makeItem();
+    await store.add(item);
+    const now = Date.now();
+    await store.claim(item.id, "a", 1_000, now);
+    assert.strictEqual(
+      await store.claim(item.id, "b", 60_000, now + 500),
+      false,
+    );
+    assert.strictEqual(
+      await store.claim(item.id, "b", 60_000, now + 1_000),
+      true,
+    );
+  });
+
+  test("claim fails for missing items", async () => {
+    const store = new QueueStore(makeMemento());
+    assert.strictEqual(await store.claim("nope", "a", 60_000), false);
+  });
+
+  test("release only drops the owner's lease", async () => {
+    const store = new QueueStore(makeMemento());
+    const item = makeItem();
+    await store.add(item);
+    await store.claim(item.id, "a", 60_000);
+    await store.release(item.id, "b");
+    assert.strictEqual(store.getAll()[0].lease?.owner, "a");
+    await store.release(item.id, "a");
+    assert.strictEqual(store.getAll()[0].lease, undefined);
+  });
+
+  test("releaseExpiredLeases removes stale leases only", async () => {
+    const store = new QueueStore(makeMemento());
+    const stale = makeItem();
+    const fresh = makeItem();
+    await store.add(stale);
+    await store.add(fresh);
+    const now = Date.now();
+    await store.claim(stale.id, "a", 1_000, now);
+    await store.claim(fresh.id, "b", 60_000, now);
+    assert.strictEqual(await store.releaseExpiredLeases(now + 2_000), 1);
+    const byId = new Map(store.getAll().map((i) => [i.id, i]));
+    assert.strictEqual(byId.get(stale.id)?.lease, undefined);
+    assert.strictEqual(byId.get(fresh.id)?.lease?.owner, "b");
+  });
+
+  test("isClaimable", () => {
+    const now = Date.now();
+    const lease = {
+      owner: "a",
+      expiresAt: new Date(now + 1_000).toISOString(),
+    };
+    assert.strictEqual(isClaimable(makeItem(), "b", now), true);
+    assert.strictEqual(isClaimable(makeItem({ lease }), "a", now), true);
+    assert.strictEqual(isClaimable(makeItem({ lease }), "b", now), false);
+    assert.strictEqual(
+      isClaimable(makeItem({ lease }), "b", now + 1_000),
+      true,
+    );
+  });
+});
+
+// ── Claim races ────────────────────────────────────────────────────────────
+
+suite("QueueStore — claim races", () => {
+  let dir: string;
+
+  setup(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "pq-claims-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Two windows: their own stores over one Memento and one claim folder. */
+  function twoStores(): [QueueStore, QueueStore] {
+    const memento = new SlowMemento() as unknown as import("vscode").Memento;
+    return [
+      new QueueStore(memento, undefined, new FileClaimLock(dir)),
+      new QueueStore(memento, undefined, new FileClaimLock(dir)),
+    ];
+  }
+
+  test("concurrent claims: exactly one window wins", async () => {
+    const [a, b] = twoStores();
+    const item = makeItem();
+    await a.add(item);
+    const results = await Promise.all([
+      a.claim(item.id, "a", 60_000),
+      b.claim(item.id, "b", 60_000),
+    ]);
+    assert.deepStrictEqual(results.filter(Boolean).length, 1);
+  });
+
+  test("a released claim can be taken by the other window", async () => {
+    const [a, b] = twoStores();
+    const item = makeItem();
+    await a.add(item);
+    assert.strictEqual(await a.claim(item.id, "a", 60_000), true);
+    assert.strictEqual(await b.claim(item.id, "b", 60_000), false);
+    await a.release(item.id, "a");
+    assert.strictEqual(await b.claim(item.id, "b", 60_000), true);
+  });
+
+  test("an expired claim file is taken over", async () => {
+    const locks = new FileClaimLock(dir);
+    const now = Date.now();
+    const expired = { owner: "dead", expiresAt: new Date(now).toISOString() };
+    assert.strictEqual(await locks.acquire("x", expired, now - 1_000), true);
+    const lease = {
+      owner: "b",
+      expiresAt: new Date(now + 60_000).toISOString(),
+    };
+    assert.strictEqual(await locks.acquire("x", lease, now + 1), true);
+  });
+
+  test("a claim file still being written is respected", async () => {
+    fs.writeFileSync(path.join(dir, "x.json"), "");
+    const lease = {
+      owner: "b",
+      expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    };
+    assert.strictEqual(
+      await new FileClaimLock(dir).acquire("x", lease, Date.now()),
+      false,
+    );
+  });
+
+  test("two processors deliver a due item once", async () => {
+    const memento = new SlowMemento() as unknown as import("vscode").Memento;
+    const { target, delivered } = makeTarget(20);
+    const w1 = makeWindow(memento, target, new FileClaimLock(dir));
+    const w2 = makeWindow(memento, target, new FileClaimLock(dir));
+    const item = makeItem();
+    await w1.store.add(item);
+
+    await Promise.all([w1.processor.process(), w2.processor.process()]);
+
+    assert.deepStrictEqual(delivered, [item.id]);
+  });
+});
+
+// ── Window routing ─────────────────────────────────────────────────────────
+
+suite("QueueStore — window routing", () => {
+  test("heartbeat registers windows; stale ones drop out", async () => {
+    const store = new QueueStore(makeMemento());
+    const now = Date.now();
+    await store.heartbeat("a", ["/ws/a"], now - WINDOW_STALE_MS);
+    await store.heartbeat("b", ["/ws/b"], now);
+    assert.deepStrictEqual(
+      store.getLiveWindows(now).map((w) => w.owner),
+      ["b"],
+    );
+  });
+
+  test("removeWindow forgets a window", async () => {
+    const store = new QueueStore(makeMemento());
+    await store.heartbeat("a", ["/ws/a"]);
+    await store.removeWindow("a");
+    assert.deepStrictEqual(store.getLiveWindows(), []);
+  });
+
+  test("isRoutedTo prefers the window with the item's folder", () => {
+    const windows = [
+      { owner: "a", folders: ["/ws/a"], seenAt: new Date().toISOString() },
+      { owner: "b", folders: ["/ws/b"], seenAt: new Date().toISOString() },
+    ];
+    const item = makeItem({ workspaceFolder: "/ws/b" });
+    assert.strictEqual(isRoutedTo(item, "a", windows), false);
+    assert.strictEqual(isRoutedTo(item, "b", windows), true);
+  });
+
+  test("isRoutedTo lets any window take unowned items", () => {
+    const windows = [
+      { owner: "a", folders: ["/ws/a"], seenAt: new Date().toISOString() },
+    ];
+    assert.strictEqual(isRoutedTo(makeItem(), "b", windows), true);
+    assert.strictEqual(
+      isRoutedTo(makeItem({ workspaceFolder: "/ws/closed" }), "b", windows),
+      true,
+    );
+  });
+});
+
+// ── Two processors sharing one Memento ─────────────────────────────────────
+
+suite("QueueProcessor — two windows", () => {
+  // Windows share their claims, as real ones share the claim folder.
+  let locks: IClaimLock;
+
+  setup(() => {
+    locks = new MemoryClaimLock();
+  });
+
+  test("a due item is delivered exactly once", async () => {
+    const memento = makeMemento();
+    const { target, delivered } = makeTarget(20);
+    const w1 = makeWindow(memento, target, locks);
+    const w2 = makeWindow(memento, target, locks);
+    const item = makeItem();
+    await w1.store.add(item);
+
+    await Promise.all([w1.processor.process(), w2.processor.process()]);
+
+    assert.deepStrictEqual(delivered, [item.id]);
+    assert.strictEqual(w1.store.getAll().length, 0);
+  });
+
+  test("several due items are split without duplicates", async () => {
+    const memento = makeMemento();
+    const { target, delivered } = makeTarget(5);
+    const w1 = makeWindow(memento, target, locks);
+    const w2 = makeWindow(memento, target, locks);
+    const items = [makeItem(), makeItem(), makeItem()];
+    for (const item of items) {
+      await w1.store.add(item);
+    }
+
+    await Promise.all([w1.processor.process(), w2.processor.process()]);
+
+    assert.deepStrictEqual(
+      [...delivered].sort(),
+      items.map((i) => i.id).sort(),
+    );
+  });
+
+  test("an item is left to the window with its workspace open", async () => {
+    const memento = makeMemento();
+    const { target, delivered } = makeTarget();
+    const w1 = makeWindow(memento, target, locks);
+    const w2 = makeWindow(memento, target, locks);
+    // w2 announces the folder (real windows do this from workspaceFolders).
+    await w2.store.heartbeat(w2.processor.ownerId, ["/ws/b"]);
+    const item = makeItem({ workspaceFolder: "/ws/b" });
+    await w1.store.add(item);
+
+    assert.strictEqual(await w1.processor.process(), 0);
+    assert.deepStrictEqual(delivered, []);
+    assert.strictEqual(w1.store.getPending().length, 1);
+  });
+
+  test("a stale lease from a dead window is taken over", async () => {
+    const memento = makeMemento();
+    const { target, delivered } = makeTarget();
+    const w1 = makeWindow(memento, target, locks);
+    const item = makeItem();
+    await w1.store.add(item);
+    await w1.store.claim(item.id, "dead-window", 1_000, Date.now() - 5_000);
+
+    await w1.processor.process();
+
+    assert.deepStrictEqual(delivered, [item.id]);
+  });
+
+  test("a live lease from another window is respected", async () => {
+    const memento = makeMemento();
+    const { target, delivered } = makeTarget();
+    const w1 = makeWindow(memento, target, locks);
+    const item = makeItem();
+    await w1.store.add(item);
+    await w1.store.claim(item.id, "other-window", 60_000);
+
+    assert.strictEqual(await w1.processor.process(), 0);
+    assert.deepStrictEqual(delivered, []);
+  });
+
+  test("a failed delivery releases the lease", async () => {
+    const memento = makeMemento();
+    const { target } = makeTarget(0, true);
+    const w1 = makeWindow(memento, target, locks);
+    const item = makeItem();
+    await w1.store.add(item);
+
+    await w1.processor.process();
+
+    const stored = w1.store.getAll()[0];
+    assert.strictEqual(stored.lease, undefined);
+    assert.strictEqual(stored.deliveryAttempts, 1);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Unit tests for file references on queued prompts (util/promptContext.ts):
+ * capturing lines and their hash, detecting changes, the mention or
+ * snapshot the prompt is delivered with, and the pre-filled prompts.
+ */
+import * as assert from "assert";
+import {
+  captureContext,
+  changesPrompt,
+  contextChanged,
+  contextLabel,
+  contextText,
+  expandContext,
+  isValidPromptContext,
+  MAX_SNAPSHOT_CHARS,
+  symbolPrompt,
+} from "../../util/promptContext";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const FILE = ["line 1", "line 2", "line 3", "line 4"].join("\n");
+
+function capture(withSnapshot = false) {
+  return captureContext(
+    "/ws/src/foo.ts",
+    FILE,
+    { startLine: 2, endLine: 3 },
+    withSnapshot,
+  );
+}
+
+// ── Capture ────────────────────────────────────────────────────────────────
+
+suite("Prompt context — capture", () => {
+  test("takes the referenced lines, CRLF or not", () => {
+    assert.strictEqual(
+      contextText({ startLine: 2, endLine: 3 }, FILE),
+      "line 2\nline 3",
+    );
+    assert.strictEqual(
+      contextText({ startLine: 2, endLine: 3 }, FILE.replace(/\n/g, "\r\n")),
+      "line 2\nline 3",
+    );
+    assert.strictEqual(contextText({}, FILE), FILE);
+    assert.strictEqual(
+      contextText({ startLine: 4, endLine: 9 }, FILE),
+      undefined,
+    );
+  });
+
+  test("records range and hash; a snapshot only when asked", () => {
+    const ctx = capture();
+    assert.strictEqual(ctx.startLine, 2);
+    assert.strictEqual(ctx.endLine, 3);
+    assert.match(ctx.hash, /^[0-9a-f]{64}$/);
+    assert.strictEqual(ctx.snapshot, undefined);
+    assert.strictEqual(capture(true).snapshot, "line 2\nline 3");
+  });
+
+  test("large references are not snapshotted", () => {
+    const big = "x".repeat(MAX_SNAPSHOT_CHARS + 1);
+    const ctx = captureContext("/ws/big.txt", big, undefined, true);
+    assert.strictEqual(ctx.snapshot, undefined);
+    assert.strictEqual(ctx.startLine, undefined);
+  });
+});
+
+// ── Change detection ───────────────────────────────────────────────────────
+
+suite("Prompt context — change detection", () => {
+  test("edits elsewhere in the file do not count", () => {
+    assert.ok(!contextChanged(capture(), FILE + "\nline 5"));
+    assert.ok(!contextChanged(capture(), FILE.replace("line 1", "first")));
+  });
+
+  test("edited, shifted, truncated or deleted lines do", () => {
+    assert.ok(contextChanged(capture(), FILE.replace("line 3", "changed")));
+    assert.ok(contextChanged(capture(), "inserted\n" + FILE));
+    assert.ok(contextChanged(capture(), "line 1\nline 2"));
+    assert.ok(contextChanged(capture(), undefined));
+  });
+});
+
+// ── Delivery ───────────────────────────────────────────────────────────────
+
+suite("Prompt context — delivery", () => {
+  test("labels are relative to the workspace when inside it", () => {
+    const ctx = capture();
+    assert.strictEqual(contextLabel(ctx, "/ws"), "src/foo.ts#L2-3");
+    assert.strictEqual(contextLabel(ctx, "/other"), "/ws/src/foo.ts#L2-3");
+    assert.strictEqual(
+      contextLabel({ ...ctx, endLine: 2 }, "/ws"),
+      "src/foo.ts#L2",
+    );
+    assert.strictEqual(
+      contextLabel({ path: "/ws/a.ts", hash: "" }, "/ws"),
+      "a.ts",
+    );
+  });
+
+  test("without a snapshot the file is mentioned", () => {
+    assert.strictEqual(
+      expandContext("Explain this", capture(), "/ws"),
+      "Explain this\n\n@src/foo.ts#L2-3",
+    );
+  });
+
+  test("a snapshot is inlined in a fence longer than its backticks", () => {
+    const ctx = { ...capture(true), snapshot: "a ``` b" };
+    assert.strictEqual(
+      expandContext("Explain this", ctx, "/ws"),
+      "Explain this\n\nsrc/foo.ts#L2-3 (as of queueing):\n````\na ``` b\n````",
+    );
+  });
+
+  test("validation", () => {
+    assert.ok(isValidPromptContext(capture(true)));
+    assert.ok(isValidPromptContext({ path: "/a", hash: "" }));
+    assert.ok(!isValidPromptContext({ path: "/a" }));
+    assert.ok(!isValidPromptContext({ path: "/a", hash: "", endLine: 2 }));
+    assert.ok(
+      !isValidPromptContext({ path: "/a", hash: "", startLine: 0, endLine: 1 }),
+    );
+    assert.ok(!isValidPromptContext([]));
+  });
+});
+
+// ── Pre-filled prompts ─────────────────────────────────────────────────────
+
+suite("Prompt context — pre-filled prompts", () => {
+  test("CodeLens actions name the function", () => {
+    assert.strictEqual(
+      symbolPrompt("test", "parseCsv"),
+      "Write tests for `parseCsv`.",
+    );
+    assert.ok(symbolPrompt("refactor", "parseCsv").includes("`parseCsv`"));
+  });
+
+  test("a review of changed files mentions each of them", () => {
+    const prompt = changesPrompt(["src/a.ts", "README.md"]);
+    assert.ok(prompt.includes("@src/a.ts, @README.md"));
+    assert.ok(!prompt.includes("{{git.diff}}"));
+  });
+
+  test("a review of all changes includes the diff at delivery", () => {
+    assert.ok(changesPrompt([]).endsWith("\n\n{{git.diff}}"));
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for file-drop helpers (util/promptFile.ts).
+ * No VS Code dependency.
+ */
+import * as assert from "assert";
+import { QueueItem } from "../../queue/QueueStore";
+import {
+  buildPromptFile,
+  filenameVars,
+  renderFilename,
+  sanitizeFilenamePart,
+  slugify,
+} from "../../util/promptFile";
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  return {
+    id: "abcd1234",
+    createdAt: "2026-01-05T08:00:00.000Z",
+    notBefore: "2026-01-05T09:00:00.000Z",
+    promptText: "Fix the login bug!\nDetails follow.",
+    workspaceFolder: "/work/app",
+    processed: false,
+    ...overrides,
+  };
+}
+
+suite("slugify", () => {
+  test("uses the first non-empty line", () => {
+    assert.strictEqual(
+      slugify("\n  Fix the login bug!\nmore"),
+      "fix-the-login-bug",
+    );
+  });
+
+  test("strips accents and punctuation", () => {
+    assert.strictEqual(slugify("Café: résumé — v2"), "cafe-resume-v2");
+  });
+
+  test("truncates without a trailing hyphen", () => {
+    assert.strictEqual(slugify("aaaa bbbb cccc", 5), "aaaa");
+  });
+
+  test("falls back to 'prompt'", () => {
+    assert.strictEqual(slugify("!!! ???"), "prompt");
+  });
+});
+
+suite("renderFilename", () => {
+  const now = new Date(2026, 0, 5, 9, 7);
+
+  test("default template", () => {
+    const vars = filenameVars(makeItem(), "app", now);
+    assert.deepStrictEqual(renderFilename("{timestamp}_{id}.md", vars), [
+      "20260105_0907_abcd1234.md",
+    ]);
+  });
+
+  test("all placeholders", () => {
+    const vars = filenameVars(makeItem({ priority: "high" }), "app", now);
+    assert.deepStrictEqual(
+      renderFilename("{workspace}-{date}-{priority}-{slug}.md", vars),
+      ["app-2026-01-05-high-fix-the-login-bug.md"],
+    );
+  });
+
+  test("slashes in the template create subfolders", () => {
+    const vars = filenameVars(makeItem(), "app", now);
+    assert.deepStrictEqual(renderFilename("{date}/{id}.md", vars), [
+      "2026-01-05",
+      "abcd1234.md",
+    ]);
+  });
+
+  test("values cannot escape the output folder", () => {
+    const vars = filenameVars(makeItem(), "../../etc", now);
+    assert.deepStrictEqual(renderFilename("../{workspace}/{id}.md", vars), [
+      "-..-etc",
+      "abcd1234.md",
+    ]);
+  });
+
+  test("unknown placeholders are kept", () => {
+    const vars = filenameVars(makeItem(), "app", now);
+    assert.deepStrictEqual(renderFilename("{other}_{id}.md", vars), [
+      "{other}_abcd1234.md",
+    ]);
+  });
+});
+
+suite("sanitizeFilenamePart", () => {
+  test("replaces reserved characters and leading dots", () => {
+    assert.strictEqual(sanitizeFilenamePart('..a/b:c*"d'), "a-b-c--d");
+  });
+});
+
+suite("buildPromptFile", () => {
+  test("frontmatter then prompt", () => {
+    const text = buildPromptFile(
+      makeItem(),
+      new Date("2026-01-05T09:00:30.000Z"),
+      "app",
+    );
+    assert.strictEqual(
+      text,
+      [
+        "---",
+        "id: abcd1234",
+        "createdAt: 2026-01-05T08:00:00.000Z",
+        "deliveredAt: 2026-01-05T09:00:30.000Z",
+        "priority: normal",
+        'workspace: "app"',
+        "---",
+        "",
+        "Fix the login bug!",
+        "Details follow.",
+        "",
+      ].join("\n"),
+    );
+  });
+});
@@ -3,8 +3,19 @@
  * Tests for due-item detection use the isOverdue helper from time.ts.
  */
 import * as assert from "assert";
-import { QueueStore, QueueItem } from "../../queue/QueueStore";
+import {
+  QueueStore,
+  QueueItem,
+  DeliveryLogEntry,
+  countByScope,
+  getDependencyStatus,
+  retimeForWindowReset,
+  sortForDelivery,
+  WINDOW_RESET_BUFFER_MS,
+  workspaceFolderForScope,
+} from "../../queue/QueueStore";
 import { isOverdue, addMinutes } from "../../util/time";
+import { queueView } from "../../ui/QueueWebviewProvider";
 
 // ── Mock vscode.Memento ────────────────────────────────────────────────────
 class MockMemento {
@@ -118,6 +129,16 @@ suite("QueueStore", () => {
     }
     assert.strictEqual(store.getAll().length, 5);
   });
+
+  test("replace() swaps the item but keeps its position", async () => {
+    await store.add(makeItem({ id: "a" }));
+    await store.add(makeItem({ id: "b" }));
+    await store.replace(makeItem({ id: "a", promptText: "new text" }));
+    const [a, b] = store.getAll();
+    assert.strictEqual(a.promptText, "new text");
+    assert.strictEqual(a.position, 0);
+    assert.strictEqual(b.position, 1);
+  });
 });
 
 suite("due-item detection (isOverdue + QueueStore)", () => {
@@ -330,3 +351,314 @@ suite("snooze logic", () => {
     assert.strictEqual(found.notBefore, before);
   });
 });
+
+// ── Priority + explicit ordering ──────────────────────────────────────────────
+
+suite("QueueStore — priority and ordering", () => {
+  let store: QueueStore;
+
+  setup(() => {
+    store = new QueueStore(
+      new MockMemento() as unknown as import("vscode").Memento,
+    );
+  });
+
+  test("add() assigns increasing positions", async () => {
+    await store.add(makeItem({ id: "a" }));
+    await store.add(makeItem({ id: "b" }));
+    const [a, b] = store.getAll();
+    assert.strictEqual(a.position, 0);
+    assert.strictEqual(b.position, 1);
+  });
+
+  test("sortForDelivery() puts high before normal before low", () => {
+    const items = [
+      makeItem({ id: "low", priority: "low", position: 0 }),
+      makeItem({ id: "normal", position: 1 }),
+      makeItem({ id: "high", priority: "high", position: 2 }),
+    ];
+    assert.deepStrictEqual(
+      sortForDelivery(items).map((i) => i.id),
+      ["high", "normal", "low"],
+    );
+  });
+
+  test("sortForDelivery() uses position within the same priority", () => {
+    const items = [
+      makeItem({ id: "second", position: 5 }),
+      makeItem({ id: "first", position: 2 }),
+    ];
+    assert.deepStrictEqual(
+      sortForDelivery(items).map((i) => i.id),
+      ["first", "second"],
+    );
+  });
+
+  test("sortForDelivery() falls back to createdAt for legacy items", () => {
+    const items = [
+      makeItem({ id: "newer", createdAt: "2026-04-03T11:00:00.000Z" }),
+      makeItem({ id: "older", createdAt: "2026-04-03T10:00:00.000Z" }),
+    ];
+    assert.deepStrictEqual(
+      sortForDelivery(items).map((i) => i.id),
+      ["older", "newer"],
+    );
+  });
+
+  test("reorder() applies the given order", async () => {
+    await store.add(makeItem({ id: "a" }));
+    await store.add(makeItem({ id: "b" }));
+    await store.add(makeItem({ id: "c" }));
+    await store.reorder(["c", "a", "b"]);
+    assert.deepStrictEqual(
+      sortForDelivery(store.getAll()).map((i) => i.id),
+      ["c", "a", "b"],
+    );
+  });
+
+  test("reorder() keeps unlisted items after listed ones", async () => {
+    await store.add(makeItem({ id: "a" }));
+    await store.add(makeItem({ id: "b" }));
+    await store.add(makeItem({ id: "c" }));
+    await store.reorder(["b"]);
+    assert.deepStrictEqual(
+      sortForDelivery(store.getAll()).map((i) => i.id),
+      ["b", "a", "c"],
+    );
+  });
+
+  test("update() changes priority", async () => {
+    await store.add(makeItem({ id: "p" }));
+    await store.update("p", { priority: "high" });
+    assert.strictEqual(store.getAll()[0].priority, "high");
+  });
+});
+
+// ── Dependency chains (dependsOn) ─────────────────────────────────────────────
+
+suite("getDependencyStatus", () => {
+  function logEntry(
+    itemId: string,
+    status: DeliveryLogEntry["status"],
+  ): DeliveryLogEntry {
+    return {
+      itemId,
+      timestamp: new Date().toISOString(),
+      status,
+      promptPreview: "parent",
+    };
+  }
+
+  test("item without dependsOn is ready", () => {
+    assert.strictEqual(getDependencyStatus(makeItem(), [], []), "ready");
+  });
+
+  test("pending prerequisite → waiting", () => {
+    const parent = makeItem({ id: "A" });
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    assert.strictEqual(
+      getDependencyStatus(child, [parent, child], []),
+      "waiting",
+    );
+  });
+
+  test("delivered prerequisite → ready", () => {
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    assert.strictEqual(
+      getDependencyStatus(child, [child], [logEntry("A", "delivered")]),
+      "ready",
+    );
+  });
+
+  test("failed prerequisite that is gone → blocked", () => {
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    assert.strictEqual(
+      getDependencyStatus(child, [child], [logEntry("A", "failed")]),
+      "blocked",
+    );
+  });
+
+  test("failed prerequisite still in queue → waiting (may be retried)", () => {
+    const parent = makeItem({ id: "A" });
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    assert.strictEqual(
+      getDependencyStatus(child, [parent, child], [logEntry("A", "failed")]),
+      "waiting",
+    );
+  });
+
+  test("removed prerequisite with no log entry → blocked", () => {
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    assert.strictEqual(getDependencyStatus(child, [child], []), "blocked");
+  });
+
+  test("latest log entry wins (retry succeeded after a failure)", () => {
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    const log = [logEntry("A", "delivered"), logEntry("A", "failed")];
+    assert.strictEqual(getDependencyStatus(child, [child], log), "ready");
+  });
+
+  test("a delivered prerequisite outlives the capped delivery log", async () => {
+    const store = new QueueStore(
+      new MockMemento() as unknown as import("vscode").Memento,
+    );
+    const child = makeItem({ id: "B", dependsOn: ["A"] });
+    await store.add(child);
+    await store.addDeliveryLogEntry(logEntry("A", "delivered"));
+    for (let n = 0; n < 25; n++) {
+      await store.addDeliveryLogEntry(logEntry(`other-${n}`, "delivered"));
+    }
+    assert.ok(!store.getDeliveryLog().some((e) => e.itemId === "A"));
+    assert.strictEqual(
+      getDependencyStatus(child, store.getAll(), store.getPrerequisiteLog()),
+      "ready",
+    );
+  });
+
+  test("the panel lists a prerequisite delivery once", async () => {
+    const store = new QueueStore(
+      new MockMemento() as unknown as import("vscode").Memento,
+    );
+    await store.add(makeItem({ id: "B", dependsOn: ["A"] }));
+    await store.addDeliveryLogEntry(logEntry("A", "delivered"));
+    await store.addDeliveryLogEntry(logEntry("C", "delivered"));
+    const view = queueView(store);
+    assert.deepStrictEqual(
+      view.deliveryLog.map((e) => e.itemId),
+      ["C", "A"],
+    );
+    assert.deepStrictEqual(view.dependencies, { B: "ready" });
+  });
+
+  test("prerequisite outcomes are dropped once nothing depends on them", async () => {
+    const store = new QueueStore(
+      new MockMemento() as unknown as import("vscode").Memento,
+    );
+    await store.add(makeItem({ id: "B", dependsOn: ["A"] }));
+    await store.addDeliveryLogEntry(logEntry("A", "delivered"));
+    await store.remove("B");
+    for (let n = 0; n < 25; n++) {
+      await store.addDeliveryLogEntry(logEntry(`other-${n}`, "delivered"));
+    }
+    assert.ok(!store.getPrerequisiteLog().some((e) => e.itemId === "A"));
+  });
+
+  test("an item depending on itself → blocked", () => {
+    const item = makeItem({ id: "A", dependsOn: ["A"] });
+    assert.strictEqual(getDependencyStatus(item, [item], []), "blocked");
+  });
+
+  test("a dependency cycle → blocked, a chain → waiting", () => {
+    const a = makeItem({ id: "A", dependsOn: ["C"] });
+    const b = makeItem({ id: "B", dependsOn: ["A"] });
+    const c = makeItem({ id: "C", dependsOn: ["B"] });
+    const d = makeItem({ id: "D", dependsOn: ["B"] });
+    const queue = [a, b, c, d];
+    assert.deepStrictEqual(
+      queue.map((i) => getDependencyStatus(i, queue, [])),
+      ["blocked", "blocked", "blocked", "waiting"],
+    );
+    // Once A went out, B and C simply wait in turn.
+    const log = [logEntry("A", "delivered")];
+    assert.deepStrictEqual(
+      [b, c].map((i) => getDependencyStatus(i, queue, log)),
+      ["ready", "waiting"],
+    );
+  });
+
+  test("blocked takes precedence over waiting with several prerequisites", () => {
+    const parent = makeItem({ id: "A" });
+    const child = makeItem({ id: "C", dependsOn: ["A", "gone"] });
+    assert.strictEqual(
+      getDependencyStatus(child, [parent, child], []),
+      "blocked",
+    );
+  });
+});
+
+// ── "At window reset" scheduling ───────────────────────────────────────────
+
+suite("QueueStore — window reset scheduling", () => {
+  const nowMs = Date.parse("2026-03-01T10:00:00Z");
+  const windowEnd = new Date("2026-03-01T12:00:00Z");
+  const expected = new Date(
+    windowEnd.getTime() + WINDOW_RESET_BUFFER_MS,
+  ).toISOString();
+
+  test("follows a moved window end", () => {
+    const item = makeItem({
+      scheduleMode: "windowReset",
+      notBefore: "2026-03-01T11:01:00Z",
+    });
+    assert.strictEqual(retimeForWindowReset(item, windowEnd, nowMs), expected);
+  });
+
+  test("fixed items are never retimed", () => {
+    const item = makeItem({ notBefore: "2026-03-01T11:01:00Z" });
+    assert.strictEqual(retimeForWindowReset(item, windowEnd, nowMs), undefined);
+  });
+
+  test("locks once delivery is imminent", () => {
+    const item = makeItem({
+      scheduleMode: "windowReset",
+      notBefore: new Date(nowMs + 30_000).toISOString(),
+    });
+    assert.strictEqual(retimeForWindowReset(item, windowEnd, nowMs), undefined);
+  });
+
+  test("unchanged time or unknown window → no update", () => {
+    const item = makeItem({ scheduleMode: "windowReset", notBefore: expected });
+    assert.strictEqual(retimeForWindowReset(item, windowEnd, nowMs), undefined);
+    assert.strictEqual(retimeForWindowReset(item, undefined, nowMs), undefined);
+  });
+
+  test("followWindowReset updates only following items", async () => {
+    const store = new QueueStore(
+      new MockMemento() as unknown as import("vscode").Memento,
+    );
+    const following = makeItem({
+      scheduleMode: "windowReset",
+      notBefore: "2026-03-01T11:01:00Z",
+    });
+    const fixed = makeItem({ notBefore: "2026-03-01T11:01:00Z" });
+    await store.add(following);
+    await store.add(fixed);
+
+    const moved = await store.followWindowReset(windowEnd, new Date(nowMs));
+    assert.strictEqual(moved, 1);
+    const byId = new Map(store.getAll().map((i) => [i.id, i]));
+    assert.strictEqual(byId.get(following.id)?.notBefore, expected);
+    assert.strictEqual(byId.get(fixed.id)?.notBefore, fixed.notBefore);
+  });
+});
+
+// ── Workspace scopes ──────────────────────────────────────────────────────
+
+suite("Workspace scopes", () => {
+  test("workspaceFolderForScope: first folder for workspace, '' for global", () => {
+    assert.strictEqual(
+      workspaceFolderForScope("workspace", ["/ws/a", "/ws/b"]),
+      "/ws/a",
+    );
+    assert.strictEqual(workspaceFolderForScope("global", ["/ws/a"]), "");
+  });
+
+  test("workspaceFolderForScope: no folder open falls back to global", () => {
+    assert.strictEqual(workspaceFolderForScope("workspace", []), "");
+  });
+
+  test("countByScope splits pending items by window folders", () => {
+    const items = [
+      makeItem({ workspaceFolder: "/ws/a" }),
+      makeItem({ workspaceFolder: "/ws/b" }),
+      makeItem({ workspaceFolder: "" }),
+      makeItem({ workspaceFolder: "/ws/other" }),
+      makeItem({ workspaceFolder: "/ws/a", processed: true }),
+    ];
+    assert.deepStrictEqual(countByScope(items, ["/ws/a", "/ws/b"]), {
+      workspace: 2,
+      global: 1,
+      other: 1,
+    });
+  });
+});
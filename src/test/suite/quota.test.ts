@@ -0,0 +1,86 @@
+/**
+ * Unit tests for the quota gate (util/quota.ts).
+ * No VS Code dependency — pure logic tests.
+ */
+import * as assert from "assert";
+import {
+  checkQuota,
+  estimatePromptCost,
+  estimateTokens,
+  quotaLevel,
+  usagePercent,
+} from "../../util/quota";
+
+suite("quota — cost estimate", () => {
+  test("estimateTokens uses ~4 chars per token", () => {
+    assert.strictEqual(estimateTokens("a".repeat(10)), 3);
+    assert.strictEqual(estimateTokens(""), 0);
+  });
+
+  test("estimatePromptCost adds the overhead (negative → 0)", () => {
+    assert.strictEqual(estimatePromptCost("a".repeat(400), 1000), 1100);
+    assert.strictEqual(estimatePromptCost("a".repeat(400), -5), 100);
+  });
+});
+
+suite("checkQuota", () => {
+  const base = {
+    promptText: "a".repeat(400), // 100 tokens
+    limit5h: 10_000,
+    tokensLast5h: 0,
+    unaccountedTokens: 0,
+    overheadTokens: 900, // estimate = 1000
+  };
+
+  test("no configured limit → always allowed", () => {
+    const r = checkQuota({ ...base, limit5h: 0, tokensLast5h: 1e9 });
+    assert.strictEqual(r.allowed, true);
+  });
+
+  test("allowed while the estimate fits the headroom", () => {
+    const r = checkQuota({ ...base, tokensLast5h: 9_000 });
+    assert.strictEqual(r.allowed, true);
+    assert.strictEqual(r.headroom, 1_000);
+    assert.strictEqual(r.estimate, 1_000);
+  });
+
+  test("held when the headroom is too small", () => {
+    const r = checkQuota({ ...base, tokensLast5h: 9_500 });
+    assert.strictEqual(r.allowed, false);
+    assert.ok(r.reason?.includes("left in 5h window"), r.reason);
+  });
+
+  test("tokens sent since the last refresh reduce the headroom", () => {
+    const r = checkQuota({
+      ...base,
+      tokensLast5h: 8_000,
+      unaccountedTokens: 1_500,
+    });
+    assert.strictEqual(r.allowed, false);
+  });
+
+  test("exhausted window gets its own reason", () => {
+    const r = checkQuota({ ...base, tokensLast5h: 12_000 });
+    assert.strictEqual(r.allowed, false);
+    assert.ok(r.reason?.startsWith("5h window exhausted"), r.reason);
+  });
+});
+
+suite("quota — status bar level", () => {
+  test("usagePercent needs a configured limit", () => {
+    assert.strictEqual(usagePercent(6_400, 10_000), 64);
+    assert.strictEqual(usagePercent(6_400, 0), undefined);
+  });
+
+  test("warning from the alert threshold, exhausted from 100%", () => {
+    assert.strictEqual(quotaLevel(79, 80), "ok");
+    assert.strictEqual(quotaLevel(80, 80), "warning");
+    assert.strictEqual(quotaLevel(100, 80), "exhausted");
+    assert.strictEqual(quotaLevel(undefined, 80), "ok");
+  });
+
+  test("a threshold of 0 turns the warning off", () => {
+    assert.strictEqual(quotaLevel(95, 0), "ok");
+    assert.strictEqual(quotaLevel(120, 0), "exhausted");
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for rate-limit notice detection (util/rateLimitDetection.ts).
+ * No VS Code dependency — pure logic tests.
+ */
+import * as assert from "assert";
+import { findRateLimitNotice, stripAnsi } from "../../util/rateLimitDetection";
+
+suite("stripAnsi", () => {
+  test("removes color codes and OSC sequences", () => {
+    assert.strictEqual(
+      stripAnsi("\x1b[31mlimit\x1b[0m \x1b]633;A\x07reached"),
+      "limit reached",
+    );
+  });
+});
+
+suite("findRateLimitNotice", () => {
+  const now = new Date(2026, 2, 1, 10, 0, 0);
+
+  test("ignores durations in ordinary output", () => {
+    assert.strictEqual(
+      findRateLimitNotice("Build finished in 2 hours 5 minutes", now),
+      undefined,
+    );
+  });
+
+  test("transcript epoch format → exact reset time", () => {
+    const resetSec = Math.floor(now.getTime() / 1000) + 2 * 3600;
+    const info = findRateLimitNotice(
+      `Claude AI usage limit reached|${resetSec}`,
+      now,
+    );
+    assert.ok(info);
+    assert.strictEqual(info.resetAt?.getTime(), resetSec * 1000);
+    assert.strictEqual(info.confidence, "high");
+  });
+
+  test("stale epoch notice is ignored", () => {
+    const resetSec = Math.floor(now.getTime() / 1000) - 60;
+    assert.strictEqual(
+      findRateLimitNotice(`Claude AI usage limit reached|${resetSec}`, now),
+      undefined,
+    );
+  });
+
+  test('"resets 4pm" without minutes', () => {
+    const info = findRateLimitNotice(
+      "\x1b[33m5-hour limit reached ∙ resets 4pm\x1b[0m",
+      now,
+    );
+    assert.ok(info);
+    assert.strictEqual(info.resetAt?.getHours(), 16);
+    assert.strictEqual(info.resetAt?.getDate(), now.getDate());
+  });
+
+  test("falls back to parseRateLimitMessage on notice lines", () => {
+    const info = findRateLimitNotice(
+      "some output\nUsage limit reached. Resets in 2h 30m.\n",
+      now,
+    );
+    assert.ok(info);
+    assert.ok(info.delayHours > 2.5);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for recurrence rules (util/recurrence.ts).
+ * Dates are built in local time so the suite passes in any timezone.
+ */
+import * as assert from "assert";
+import {
+  describeRecurrence,
+  isValidRecurrence,
+  nextOccurrence,
+  parseCron,
+} from "../../util/recurrence";
+
+/** Local-time date helper: month is 1-based for readability. */
+function local(y: number, mo: number, d: number, h = 0, mi = 0): Date {
+  return new Date(y, mo - 1, d, h, mi, 0, 0);
+}
+
+suite("recurrence — nextOccurrence", () => {
+  test("interval adds the given minutes", () => {
+    const after = local(2026, 4, 3, 10, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "interval", minutes: 90 }, after)?.getTime(),
+      local(2026, 4, 3, 11, 30).getTime(),
+    );
+  });
+
+  test("daily later today", () => {
+    const after = local(2026, 4, 3, 8, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "daily", time: "09:00" }, after)?.getTime(),
+      local(2026, 4, 3, 9, 0).getTime(),
+    );
+  });
+
+  test("daily already passed → tomorrow", () => {
+    const after = local(2026, 4, 3, 9, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "daily", time: "09:00" }, after)?.getTime(),
+      local(2026, 4, 4, 9, 0).getTime(),
+    );
+  });
+
+  test("weekdays skips the weekend", () => {
+    // 2026-04-03 is a Friday
+    const after = local(2026, 4, 3, 10, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "weekdays", time: "09:00" }, after)?.getTime(),
+      local(2026, 4, 6, 9, 0).getTime(),
+    );
+  });
+
+  test("cron every 15 minutes", () => {
+    const after = local(2026, 4, 3, 10, 7);
+    assert.strictEqual(
+      nextOccurrence({ kind: "cron", expression: "*/15 * * * *" }, after)
+        ?.getTime(),
+      local(2026, 4, 3, 10, 15).getTime(),
+    );
+  });
+
+  test("cron Monday 09:00", () => {
+    const after = local(2026, 4, 3, 10, 0); // Friday
+    assert.strictEqual(
+      nextOccurrence({ kind: "cron", expression: "0 9 * * 1" }, after)
+        ?.getTime(),
+      local(2026, 4, 6, 9, 0).getTime(),
+    );
+  });
+
+  test("cron first of next month", () => {
+    const after = local(2026, 4, 3, 10, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "cron", expression: "30 8 1 * *" }, after)
+        ?.getTime(),
+      local(2026, 5, 1, 8, 30).getTime(),
+    );
+  });
+
+  test("cron is strictly after the reference time", () => {
+    const after = local(2026, 4, 3, 9, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "cron", expression: "0 9 * * *" }, after)
+        ?.getTime(),
+      local(2026, 4, 4, 9, 0).getTime(),
+    );
+  });
+
+  test("leap-day cron finds the next Feb 29", () => {
+    const after = local(2026, 4, 3, 9, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "cron", expression: "0 9 29 2 *" }, after)
+        ?.getTime(),
+      local(2028, 2, 29, 9, 0).getTime(),
+    );
+  });
+
+  test("cron that never matches returns undefined", () => {
+    const after = local(2026, 4, 3, 9, 0);
+    assert.strictEqual(
+      nextOccurrence({ kind: "cron", expression: "0 9 31 2 *" }, after),
+      undefined,
+    );
+  });
+});
+
+suite("recurrence — parsing and validation", () => {
+  test("parseCron rejects wrong field count", () => {
+    assert.strictEqual(parseCron("* * * *"), undefined);
+  });
+
+  test("parseCron rejects out-of-range values", () => {
+    assert.strictEqual(parseCron("60 * * * *"), undefined);
+  });
+
+  test("parseCron accepts lists and ranges", () => {
+    const spec = parseCron("0,30 9-17 * * 1-5");
+    assert.ok(spec);
+    assert.deepStrictEqual([...spec.minutes], [0, 30]);
+    assert.strictEqual(spec.hours.size, 9);
+  });
+
+  test("parseCron treats 7 as Sunday", () => {
+    assert.ok(parseCron("0 9 * * 7")?.weekdays.has(0));
+  });
+
+  test("isValidRecurrence accepts each kind", () => {
+    assert.ok(isValidRecurrence({ kind: "interval", minutes: 60 }));
+    assert.ok(isValidRecurrence({ kind: "daily", time: "09:00" }));
+    assert.ok(isValidRecurrence({ kind: "weekdays", time: "18:30" }));
+    assert.ok(isValidRecurrence({ kind: "cron", expression: "0 9 * * 1" }));
+  });
+
+  test("isValidRecurrence rejects bad input", () => {
+    assert.ok(!isValidRecurrence(undefined));
+    assert.ok(!isValidRecurrence({ kind: "interval", minutes: 0 }));
+    assert.ok(!isValidRecurrence({ kind: "daily", time: "25:00" }));
+    assert.ok(!isValidRecurrence({ kind: "cron", expression: "nope" }));
+    assert.ok(!isValidRecurrence({ kind: "cron", expression: "0 0 30 2 *" }));
+    assert.ok(!isValidRecurrence({ kind: "hourly" }));
+  });
+
+  test("describeRecurrence", () => {
+    assert.strictEqual(
+      describeRecurrence({ kind: "interval", minutes: 120 }),
+      "every 2h",
+    );
+    assert.strictEqual(
+      describeRecurrence({ kind: "interval", minutes: 45 }),
+      "every 45 min",
+    );
+    assert.strictEqual(
+      describeRecurrence({ kind: "weekdays", time: "09:00" }),
+      "weekdays at 09:00",
+    );
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for parseScheduleInput (util/time.ts).
+ *
+ * Timezone-safe: every reference time and expectation is built with the
+ * local-time Date constructor, and `now` is always injected — the suite
+ * gives the same results under any TZ.
+ */
+import * as assert from "assert";
+import { parseScheduleInput } from "../../util/time";
+
+/** Local-time date helper: month is 1-based for readability. */
+function local(y: number, mo: number, d: number, h = 0, mi = 0): Date {
+  return new Date(y, mo - 1, d, h, mi, 0, 0);
+}
+
+// Friday 2026-04-03 10:00 local time
+const NOW = local(2026, 4, 3, 10, 0);
+
+function at(input: string): number | undefined {
+  return parseScheduleInput(input, NOW)?.getTime();
+}
+
+suite("parseScheduleInput — relative delays", () => {
+  test("bare number is minutes", () => {
+    assert.strictEqual(at("30"), local(2026, 4, 3, 10, 30).getTime());
+  });
+
+  test("'45m' and 'in 45 minutes'", () => {
+    const expected = local(2026, 4, 3, 10, 45).getTime();
+    assert.strictEqual(at("45m"), expected);
+    assert.strictEqual(at("in 45 minutes"), expected);
+  });
+
+  test("'in 2h 30m'", () => {
+    assert.strictEqual(at("in 2h 30m"), local(2026, 4, 3, 12, 30).getTime());
+  });
+
+  test("'1.5 hours'", () => {
+    assert.strictEqual(at("1.5 hours"), local(2026, 4, 3, 11, 30).getTime());
+  });
+});
+
+suite("parseScheduleInput — clock times", () => {
+  test("'at 14:30' later today", () => {
+    assert.strictEqual(at("at 14:30"), local(2026, 4, 3, 14, 30).getTime());
+  });
+
+  test("'09:00' already passed → tomorrow", () => {
+    assert.strictEqual(at("09:00"), local(2026, 4, 4, 9, 0).getTime());
+  });
+
+  test("'2pm' and '2:15 PM'", () => {
+    assert.strictEqual(at("2pm"), local(2026, 4, 3, 14, 0).getTime());
+    assert.strictEqual(at("2:15 PM"), local(2026, 4, 3, 14, 15).getTime());
+  });
+
+  test("'12am' is midnight", () => {
+    assert.strictEqual(at("12am"), local(2026, 4, 4, 0, 0).getTime());
+  });
+
+  test("invalid clock values are rejected", () => {
+    assert.strictEqual(at("25:00"), undefined);
+    assert.strictEqual(at("13pm"), undefined);
+    assert.strictEqual(at("10:75"), undefined);
+  });
+});
+
+suite("parseScheduleInput — days", () => {
+  test("'tomorrow 9am'", () => {
+    assert.strictEqual(at("tomorrow 9am"), local(2026, 4, 4, 9, 0).getTime());
+  });
+
+  test("'tomorrow' alone defaults to 09:00", () => {
+    assert.strictEqual(at("tomorrow"), local(2026, 4, 4, 9, 0).getTime());
+  });
+
+  test("'today at 18:00'", () => {
+    assert.strictEqual(
+      at("today at 18:00"),
+      local(2026, 4, 3, 18, 0).getTime(),
+    );
+  });
+
+  test("'today 08:00' resolves in the past (caller rejects)", () => {
+    assert.strictEqual(at("today 08:00"), local(2026, 4, 3, 8, 0).getTime());
+  });
+
+  test("'next monday 08:00'", () => {
+    assert.strictEqual(
+      at("next monday 08:00"),
+      local(2026, 4, 6, 8, 0).getTime(),
+    );
+  });
+
+  test("'friday 18:00' on a Friday morning is today", () => {
+    assert.strictEqual(
+      at("friday 18:00"),
+      local(2026, 4, 3, 18, 0).getTime(),
+    );
+  });
+
+  test("'next friday 18:00' on a Friday is a week later", () => {
+    assert.strictEqual(
+      at("next friday 18:00"),
+      local(2026, 4, 10, 18, 0).getTime(),
+    );
+  });
+
+  test("'fri 08:00' on a Friday after 08:00 is next week", () => {
+    assert.strictEqual(at("fri 08:00"), local(2026, 4, 10, 8, 0).getTime());
+  });
+
+  test("unknown words are rejected", () => {
+    assert.strictEqual(at("sunset 9am"), undefined);
+    assert.strictEqual(at("whenever"), undefined);
+    assert.strictEqual(at(""), undefined);
+  });
+});
+
+suite("parseScheduleInput — ISO 8601", () => {
+  test("date-time without offset is local", () => {
+    assert.strictEqual(
+      at("2026-04-10T09:00"),
+      local(2026, 4, 10, 9, 0).getTime(),
+    );
+    assert.strictEqual(
+      at("2026-04-10 09:00"),
+      local(2026, 4, 10, 9, 0).getTime(),
+    );
+  });
+
+  test("date only is local midnight", () => {
+    assert.strictEqual(at("2026-04-10"), local(2026, 4, 10).getTime());
+  });
+
+  test("explicit UTC offset is honoured", () => {
+    assert.strictEqual(
+      at("2026-04-10T09:00:00Z"),
+      Date.UTC(2026, 3, 10, 9, 0),
+    );
+    assert.strictEqual(
+      at("2026-04-10T09:00+02:00"),
+      Date.UTC(2026, 3, 10, 7, 0),
+    );
+  });
+
+  test("impossible dates are rejected", () => {
+    assert.strictEqual(at("2026-02-30T09:00"), undefined);
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Unit tests for schema versioning: migrations of stored data and export
+ * files from older versions (fixtures in src/test/fixtures), per-field
+ * import validation, and the activation upgrade of each backend.
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { QueueItem } from "../../queue/QueueStore";
+import {
+  EXPORT_FORMAT,
+  QUEUE_SCHEMA_VERSION,
+  QueueSchemaError,
+  migrateItems,
+  parseExport,
+  serializeExport,
+  validateQueueItem,
+} from "../../queue/schema";
+import { JsonFileQueueBackend } from "../../storage/JsonFileQueueBackend";
+import {
+  ITEMS_KEY,
+  MementoQueueBackend,
+  SCHEMA_VERSION_KEY,
+} from "../../storage/MementoQueueBackend";
+import {
+  prepareQueueStorage,
+  upgradeStoredQueue,
+} from "../../storage/queueBackends";
+import v1GlobalState from "../fixtures/queue-v1-globalState.json";
+import v1Export from "../fixtures/queue-v1-export.json";
+import v2Export from "../fixtures/queue-v2-export.json";
+
+// ── Mock vscode.Memento ────────────────────────────────────────────────────
+class MockMemento {
+  private data = new Map<string, unknown>();
+
+  get<T>(key: string, defaultValue: T): T {
+    return (this.data.has(key) ? this.data.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  keys(): readonly string[] {
+    return Array.from(this.data.keys());
+  }
+  setKeysForSync(_keys: readonly string[]): void {
+    /* no-op */
+  }
+}
+
+const mockLog = {
+  appendLine: (_msg: string): void => {
+    /* silent */
+  },
+} as unknown as import("vscode").OutputChannel;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeMemento(): import("vscode").Memento {
+  return new MockMemento() as unknown as import("vscode").Memento;
+}
+
+function makeTmpDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "claude-schema-test-"));
+}
+
+/** Deep copy, so tests never modify the imported fixtures. */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  const now = new Date();
+  return {
+    id: `test-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now.toISOString(),
+    notBefore: new Date(now.getTime() + 60_000).toISOString(),
+    promptText: "Hello, AI!",
+    workspaceFolder: "",
+    processed: false,
+    ...overrides,
+  };
+}
+
+// ── migrateItems ───────────────────────────────────────────────────────────
+
+suite("Schema — migrations", () => {
+  test("v1 globalState items get positions after the ordered ones", () => {
+    const items = migrateItems(clone(v1GlobalState), 1) as QueueItem[];
+    assert.deepStrictEqual(
+      items.map((i) => [i.id, i.position]),
+      [
+        ["a1b2c3d4", 1],
+        ["e5f6a7b8", 2],
+        ["c9d0e1f2", 0],
+      ],
+    );
+    // Everything else is kept as stored.
+    assert.strictEqual(items[1].deliveryAttempts, 2);
+    assert.strictEqual(items[0].targetTerminalName, "Claude");
+    assert.ok(items.every((i) => validateQueueItem(i).ok));
+  });
+
+  test("v1 items missing workspaceFolder/processed get defaults", () => {
+    const [item] = migrateItems(
+      [{ id: "x", promptText: "p", notBefore: "2025-01-01T00:00:00Z" }],
+      1,
+    ) as QueueItem[];
+    assert.strictEqual(item.workspaceFolder, "");
+    assert.strictEqual(item.processed, false);
+    assert.strictEqual(item.position, 0);
+  });
+
+  test("current data is returned unchanged", () => {
+    const items = [makeItem()];
+    assert.deepStrictEqual(migrateItems(items, QUEUE_SCHEMA_VERSION), items);
+  });
+
+  test("non-objects pass through for validation to report", () => {
+    assert.deepStrictEqual(migrateItems([42, null], 1), [42, null]);
+  });
+
+  test("newer or unknown versions are rejected", () => {
+    assert.throws(
+      () => migrateItems([], QUEUE_SCHEMA_VERSION + 1),
+      (err: Error) =>
+        err instanceof QueueSchemaError &&
+        /update the extension/.test(err.message),
+    );
+    assert.throws(() => migrateItems([], 0), QueueSchemaError);
+  });
+});
+
+// ── validateQueueItem ──────────────────────────────────────────────────────
+
+suite("Schema — item validation", () => {
+  test("a full item passes and keeps known fields only", () => {
+    const result = validateQueueItem({
+      ...makeItem({
+        priority: "high",
+        dependsOn: ["abc"],
+        recurrence: { kind: "interval", minutes: 30 },
+        sessionMode: "continue",
+        target: "file",
+        context: { path: "/ws/a.ts", startLine: 2, endLine: 4, hash: "ab" },
+      }),
+      somethingElse: true,
+    });
+    assert.ok(result.ok);
+    assert.strictEqual(result.item.priority, "high");
+    assert.strictEqual(result.item.target, "file");
+    assert.strictEqual(result.item.context?.endLine, 4);
+    assert.ok(!("somethingElse" in result.item));
+  });
+
+  test("reports one error per invalid field", () => {
+    const result = validateQueueItem({
+      ...makeItem(),
+      createdAt: "yesterday",
+      priority: "urgent",
+      position: "first",
+      dependsOn: "abc",
+      sessionMode: "fork",
+      context: { path: "/ws/a.ts", startLine: 5, endLine: 2, hash: "ab" },
+    });
+    assert.ok(!result.ok);
+    assert.deepStrictEqual(
+      result.errors.map((e) => e.split(":")[0]),
+      [
+        "createdAt",
+        "priority",
+        "position",
+        "dependsOn",
+        "sessionMode",
+        "context",
+      ],
+    );
+    assert.ok(
+      result.errors[1].includes('"high", "normal" or "low"') &&
+        result.errors[1].includes('"urgent"'),
+    );
+  });
+
+  test("an item cannot depend on itself", () => {
+    const result = validateQueueItem(
+      makeItem({ id: "a1", dependsOn: ["b2", "a1"] }),
+    );
+    assert.ok(!result.ok);
+    assert.deepStrictEqual(
+      result.errors.map((e) => e.split(":")[0]),
+      ["dependsOn"],
+    );
+  });
+
+  test("missing required fields are named", () => {
+    const result = validateQueueItem({});
+    assert.ok(!result.ok);
+    assert.deepStrictEqual(
+      result.errors.map((e) => e.split(":")[0]),
+      ["id", "createdAt", "notBefore", "promptText"],
+    );
+    assert.ok(result.errors[0].endsWith("got nothing"));
+  });
+
+  test("non-objects are rejected", () => {
+    assert.deepStrictEqual(validateQueueItem("item"), {
+      ok: false,
+      errors: ["not an object"],
+    });
+  });
+});
+
+// ── Export files ───────────────────────────────────────────────────────────
+
+suite("Schema — export files", () => {
+  test("exports carry format and version", () => {
+    const items = [makeItem()];
+    const parsed = JSON.parse(
+      serializeExport(items, new Date("2025-05-01T00:00:00Z")),
+    );
+    assert.strictEqual(parsed.format, EXPORT_FORMAT);
+    assert.strictEqual(parsed.version, QUEUE_SCHEMA_VERSION);
+    assert.strictEqual(parsed.exportedAt, "2025-05-01T00:00:00.000Z");
+    assert.deepStrictEqual(parsed.items, items);
+  });
+
+  test("round trip", () => {
+    const items = [makeItem(), makeItem({ priority: "low", position: 3 })];
+    assert.deepStrictEqual(parseExport(serializeExport(items)), items);
+  });
+
+  test("v1 export (bare array) is migrated and validated", () => {
+    const raw = parseExport(JSON.stringify(v1Export));
+    const results = raw.map(validateQueueItem);
+    assert.deepStrictEqual(
+      results.map((r) => r.ok),
+      [true, true, false],
+    );
+    const second = results[1];
+    assert.ok(second.ok);
+    assert.deepStrictEqual(second.item.dependsOn, ["11aa22bb"]);
+    const third = results[2];
+    assert.ok(!third.ok);
+    assert.deepStrictEqual(third.errors, [
+      'notBefore: expected an ISO 8601 date, got "tomorrow"',
+    ]);
+  });
+
+  test("v2 export reports every invalid field", () => {
+    const results = parseExport(JSON.stringify(v2Export)).map(
+      validateQueueItem,
+    );
+    const [first, second] = results;
+    assert.ok(first.ok);
+    assert.deepStrictEqual(first.item.recurrence, {
+      kind: "weekdays",
+      time: "07:00",
+    });
+    assert.ok(!second.ok);
+    assert.deepStrictEqual(
+      second.errors.map((e) => e.split(":")[0]),
+      ["priority", "recurrence"],
+    );
+  });
+
+  test("rejects invalid JSON, foreign files and newer versions", () => {
+    assert.throws(() => parseExport("{"), /Invalid JSON/);
+    assert.throws(
+      () => parseExport(JSON.stringify({ items: [] })),
+      /Not a prompt queue export file/,
+    );
+    assert.throws(
+      () =>
+        parseExport(
+          JSON.stringify({ format: EXPORT_FORMAT, version: 2, items: {} }),
+        ),
+      /items: expected a list/,
+    );
+    assert.throws(
+      () =>
+        parseExport(
+          JSON.stringify({
+            format: EXPORT_FORMAT,
+            version: QUEUE_SCHEMA_VERSION + 1,
+            items: [],
+          }),
+        ),
+      QueueSchemaError,
+    );
+  });
+});
+
+// ── Stored data ────────────────────────────────────────────────────────────
+
+suite("Schema — stored data", () => {
+  test("unversioned globalState is upgraded and stamped", async () => {
+    const memento = makeMemento();
+    await memento.update(ITEMS_KEY, clone(v1GlobalState));
+    const backend = new MementoQueueBackend(memento);
+    assert.strictEqual(backend.storedVersion(), 1);
+
+    assert.strictEqual(await upgradeStoredQueue(backend), 1);
+    assert.strictEqual(
+      memento.get(SCHEMA_VERSION_KEY, 0),
+      QUEUE_SCHEMA_VERSION,
+    );
+    assert.ok(backend.load().every((i) => typeof i.position === "number"));
+    // Second run: nothing to do.
+    assert.strictEqual(await upgradeStoredQueue(backend), undefined);
+  });
+
+  test("a v1 queue file is upgraded", async () => {
+    const file = path.join(makeTmpDir(), "queue.json");
+    fs.writeFileSync(file, JSON.stringify({ items: v1GlobalState }), "utf8");
+    const backend = new JsonFileQueueBackend(file, mockLog);
+    assert.strictEqual(backend.storedVersion(), 1);
+
+    await upgradeStoredQueue(backend);
+
+    const onDisk = JSON.parse(fs.readFileSync(file, "utf8"));
+    assert.strictEqual(onDisk.version, QUEUE_SCHEMA_VERSION);
+    assert.strictEqual(onDisk.items[1].position, 2);
+  });
+
+  test("data from a newer version is left untouched", async () => {
+    const memento = makeMemento();
+    const items = [makeItem()];
+    await memento.update(ITEMS_KEY, items);
+    await memento.update(SCHEMA_VERSION_KEY, QUEUE_SCHEMA_VERSION + 1);
+
+    await assert.rejects(
+      upgradeStoredQueue(new MementoQueueBackend(memento)),
+      QueueSchemaError,
+    );
+    assert.strictEqual(
+      memento.get(SCHEMA_VERSION_KEY, 0),
+      QUEUE_SCHEMA_VERSION + 1,
+    );
+    assert.deepStrictEqual(memento.get(ITEMS_KEY, []), items);
+  });
+
+  test("activation upgrades v1 globalState, then moves it", async () => {
+    const memento = makeMemento();
+    await memento.update(ITEMS_KEY, clone(v1GlobalState));
+    const file = path.join(makeTmpDir(), "queue.json");
+    const backend = new JsonFileQueueBackend(file, mockLog);
+
+    await prepareQueueStorage(backend, memento, mockLog);
+
+    assert.deepStrictEqual(memento.get(ITEMS_KEY, undefined), []);
+    const onDisk = JSON.parse(fs.readFileSync(file, "utf8"));
+    assert.strictEqual(onDisk.version, QUEUE_SCHEMA_VERSION);
+    assert.deepStrictEqual(
+      onDisk.items.map((i: QueueItem) => i.position),
+      [1, 2, 0],
+    );
+  });
+});
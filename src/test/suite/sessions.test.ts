@@ -0,0 +1,294 @@
+/**
+ * Unit tests for Claude session transcript helpers (util/claudeSessions.ts).
+ * No VS Code dependency — uses temporary directories.
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  claudeLaunchCommand,
+  encodeProjectPath,
+  entryText,
+  findLatestSessionFile,
+  isSessionIdle,
+  lastConversationEntry,
+  lastUserPrompt,
+  readLastEntries,
+  readLastUserPrompt,
+  resolveSessionTarget,
+  SessionEntry,
+} from "../../util/claudeSessions";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function mkTmp(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "claude-sessions-test-"));
+}
+
+function writeJsonl(file: string, entries: object[], mtime?: Date): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(
+    file,
+    entries.map((e) => JSON.stringify(e)).join("\n") + "\n",
+    "utf8",
+  );
+  if (mtime) {
+    fs.utimesSync(file, mtime, mtime);
+  }
+}
+
+const endTurn: SessionEntry = {
+  type: "assistant",
+  message: { role: "assistant", stop_reason: "end_turn" },
+};
+const toolUse: SessionEntry = {
+  type: "assistant",
+  message: { role: "assistant", stop_reason: "tool_use" },
+};
+
+// ── encodeProjectPath / findLatestSessionFile ──────────────────────────────
+
+suite("claudeSessions — project directory lookup", () => {
+  let tmp: string;
+
+  setup(() => {
+    tmp = mkTmp();
+  });
+
+  teardown(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("encodeProjectPath replaces non-alphanumerics with '-'", () => {
+    assert.strictEqual(
+      encodeProjectPath("/Users/me/my_app.v2"),
+      "-Users-me-my-app-v2",
+    );
+  });
+
+  test("findLatestSessionFile returns the newest .jsonl", () => {
+    const dir = path.join(tmp, encodeProjectPath("/work/repo"));
+    writeJsonl(path.join(dir, "old.jsonl"), [endTurn], new Date(1_000_000));
+    writeJsonl(path.join(dir, "new.jsonl"), [endTurn], new Date(2_000_000));
+    fs.writeFileSync(path.join(dir, "notes.txt"), "ignored");
+    assert.strictEqual(
+      findLatestSessionFile("/work/repo", tmp),
+      path.join(dir, "new.jsonl"),
+    );
+  });
+
+  test("findLatestSessionFile returns undefined for unknown workspace", () => {
+    assert.strictEqual(findLatestSessionFile("/nope", tmp), undefined);
+  });
+});
+
+// ── readLastEntries / lastConversationEntry ────────────────────────────────
+
+suite("claudeSessions — transcript tail", () => {
+  let tmp: string;
+
+  setup(() => {
+    tmp = mkTmp();
+  });
+
+  teardown(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("readLastEntries parses lines and skips corrupt ones", () => {
+    const file = path.join(tmp, "s.jsonl");
+    fs.writeFileSync(
+      file,
+      `${JSON.stringify({ type: "user" })}\n{broken\n${JSON.stringify(endTurn)}\n`,
+    );
+    const entries = readLastEntries(file);
+    assert.strictEqual(entries.length, 2);
+    assert.strictEqual(entries[1].type, "assistant");
+  });
+
+  test("readLastEntries returns [] for a missing file", () => {
+    assert.deepStrictEqual(readLastEntries(path.join(tmp, "none.jsonl")), []);
+  });
+
+  test("lastConversationEntry ignores summary/system lines", () => {
+    const entries: SessionEntry[] = [
+      { type: "user" },
+      endTurn,
+      { type: "summary" },
+    ];
+    assert.strictEqual(lastConversationEntry(entries), endTurn);
+  });
+});
+
+// ── entryText / lastUserPrompt ─────────────────────────────────────────────
+
+suite("claudeSessions — last user prompt", () => {
+  const user = (content: unknown, extra: object = {}): SessionEntry => ({
+    type: "user",
+    message: { role: "user", content },
+    ...extra,
+  });
+
+  test("entryText joins text blocks and skips others", () => {
+    assert.strictEqual(
+      entryText(
+        user([
+          { type: "text", text: "a" },
+          { type: "tool_use", name: "x" },
+          { type: "text", text: "b" },
+        ]),
+      ),
+      "a\nb",
+    );
+  });
+
+  test("skips tool results, meta lines and command bookkeeping", () => {
+    const entries: SessionEntry[] = [
+      user("refactor the parser"),
+      endTurn,
+      user([{ type: "tool_result", content: "ok" }]),
+      user("Caveat: injected", { isMeta: true }),
+      user("<command-name>/clear</command-name>"),
+      user("<local-command-stdout></local-command-stdout>"),
+    ];
+    assert.strictEqual(lastUserPrompt(entries), "refactor the parser");
+  });
+
+  test("undefined when the tail has no typed prompt", () => {
+    assert.strictEqual(lastUserPrompt([endTurn]), undefined);
+  });
+
+  test("readLastUserPrompt reads the newest session", () => {
+    const tmp = mkTmp();
+    try {
+      const dir = path.join(tmp, encodeProjectPath("/work/repo"));
+      writeJsonl(path.join(dir, "old.jsonl"), [user("old")], new Date(1e6));
+      writeJsonl(
+        path.join(dir, "new.jsonl"),
+        [user([{ type: "text", text: "  fix the bug  " }]), endTurn],
+        new Date(2e6),
+      );
+      assert.strictEqual(readLastUserPrompt("/work/repo", tmp), "fix the bug");
+    } finally {
+      fs.rmSync(tmp, { recursive: true, force: true });
+    }
+  });
+});
+
+// ── Session targets / launch command ───────────────────────────────────────
+
+suite("claudeSessions — delivery session", () => {
+  let tmp: string;
+
+  setup(() => {
+    tmp = mkTmp();
+  });
+
+  teardown(() => {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  test("resume records the newest session id", () => {
+    const dir = path.join(tmp, encodeProjectPath("/work/repo"));
+    writeJsonl(path.join(dir, "aaa-111.jsonl"), [endTurn], new Date(1e6));
+    writeJsonl(path.join(dir, "bbb-222.jsonl"), [endTurn], new Date(2e6));
+    assert.deepStrictEqual(resolveSessionTarget("resume", "/work/repo", tmp), {
+      sessionMode: "resume",
+      sessionId: "bbb-222",
+    });
+  });
+
+  test("resume without a session falls back to continue", () => {
+    assert.deepStrictEqual(resolveSessionTarget("resume", "/nope", tmp), {
+      sessionMode: "continue",
+    });
+  });
+
+  test("other modes are kept as-is", () => {
+    assert.deepStrictEqual(resolveSessionTarget("new", "/work/repo", tmp), {
+      sessionMode: "new",
+    });
+  });
+
+  test("claudeLaunchCommand adds the session flags", () => {
+    assert.strictEqual(
+      claudeLaunchCommand("/tmp/p.txt"),
+      `claude "$(cat '/tmp/p.txt')" ; rm -f '/tmp/p.txt'`,
+    );
+    assert.ok(
+      claudeLaunchCommand("/tmp/p.txt", "continue").startsWith(
+        "claude --continue ",
+      ),
+    );
+    assert.ok(
+      claudeLaunchCommand("/tmp/p.txt", "resume", "abc-123").startsWith(
+        "claude --resume abc-123 ",
+      ),
+    );
+  });
+
+  test("claudeLaunchCommand never passes an unsafe session id", () => {
+    const cmd = claudeLaunchCommand("/tmp/p.txt", "resume", "x; rm -rf ~");
+    assert.ok(cmd.startsWith("claude --continue "), cmd);
+  });
+});
+
+// ── isSessionIdle ──────────────────────────────────────────────────────────
+
+suite("isSessionIdle", () => {
+  const sentAtMs = 1_000_000;
+  const quietMs = 30_000;
+
+  test("busy when transcript was not written since the send", () => {
+    assert.strictEqual(
+      isSessionIdle({
+        lastEntry: endTurn,
+        fileMtimeMs: sentAtMs - 1,
+        nowMs: sentAtMs + 600_000,
+        sentAtMs,
+        quietMs,
+      }),
+      false,
+    );
+  });
+
+  test("idle when the assistant ended its turn", () => {
+    assert.strictEqual(
+      isSessionIdle({
+        lastEntry: endTurn,
+        fileMtimeMs: sentAtMs + 5_000,
+        nowMs: sentAtMs + 6_000,
+        sentAtMs,
+        quietMs,
+      }),
+      true,
+    );
+  });
+
+  test("busy during tool use while transcript is active", () => {
+    assert.strictEqual(
+      isSessionIdle({
+        lastEntry: toolUse,
+        fileMtimeMs: sentAtMs + 5_000,
+        nowMs: sentAtMs + 10_000,
+        sentAtMs,
+        quietMs,
+      }),
+      false,
+    );
+  });
+
+  test("idle after the quiet period even without end_turn", () => {
+    assert.strictEqual(
+      isSessionIdle({
+        lastEntry: toolUse,
+        fileMtimeMs: sentAtMs + 5_000,
+        nowMs: sentAtMs + 5_000 + quietMs,
+        sentAtMs,
+        quietMs,
+      }),
+      true,
+    );
+  });
+});
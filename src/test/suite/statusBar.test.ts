@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the status bar summary (ui/QueueStatusBar.ts): the text
+ * with pending count, next delivery, 5h usage and reset countdown, and the
+ * next delivery time of this window's prompts.
+ */
+import * as assert from "assert";
+import { QueueItem } from "../../queue/QueueStore";
+import { nextDeliveryTime, statusBarText } from "../../ui/QueueStatusBar";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(NOW.getTime() + minutes * 60_000);
+}
+
+function item(overrides: Partial<QueueItem>): QueueItem {
+  return {
+    id: "a1b2c3d4",
+    createdAt: NOW.toISOString(),
+    notBefore: NOW.toISOString(),
+    promptText: "hello",
+    workspaceFolder: "/ws",
+    processed: false,
+    ...overrides,
+  };
+}
+
+// ── Text ───────────────────────────────────────────────────────────────────
+
+suite("Status bar — text", () => {
+  test("shows pending, next delivery, usage and reset", () => {
+    assert.strictEqual(
+      statusBarText(
+        {
+          pending: 3,
+          paused: false,
+          nextDelivery: minutesFromNow(12),
+          usagePercent: 64,
+          windowEnd: minutesFromNow(80),
+        },
+        NOW,
+      ),
+      "$(clock) 3 · next 12m · 5h 64% · reset 1h20m",
+    );
+  });
+
+  test("overdue prompts are due; an empty queue has no next delivery", () => {
+    assert.strictEqual(
+      statusBarText(
+        { pending: 1, paused: false, nextDelivery: minutesFromNow(-5) },
+        NOW,
+      ),
+      "$(clock) 1 · due",
+    );
+    assert.strictEqual(
+      statusBarText({ pending: 0, paused: false }, NOW),
+      "$(clock) 0",
+    );
+  });
+
+  test("paused replaces the next delivery", () => {
+    assert.strictEqual(
+      statusBarText(
+        { pending: 2, paused: true, nextDelivery: minutesFromNow(5) },
+        NOW,
+      ),
+      "$(debug-pause) 2 · paused",
+    );
+  });
+
+  test("a past window end is not counted down", () => {
+    assert.strictEqual(
+      statusBarText(
+        {
+          pending: 0,
+          paused: false,
+          usagePercent: 10,
+          windowEnd: minutesFromNow(-1),
+        },
+        NOW,
+      ),
+      "$(clock) 0 · 5h 10%",
+    );
+  });
+});
+
+// ── Next delivery ──────────────────────────────────────────────────────────
+
+suite("Status bar — next delivery", () => {
+  test("earliest pending prompt of this workspace or global", () => {
+    const items = [
+      item({ notBefore: minutesFromNow(30).toISOString() }),
+      item({
+        notBefore: minutesFromNow(20).toISOString(),
+        workspaceFolder: "",
+      }),
+      item({
+        notBefore: minutesFromNow(5).toISOString(),
+        workspaceFolder: "/other",
+      }),
+      item({ notBefore: minutesFromNow(1).toISOString(), processed: true }),
+    ];
+    assert.deepStrictEqual(
+      nextDeliveryTime(items, ["/ws"]),
+      minutesFromNow(20),
+    );
+  });
+
+  test("nothing pending", () => {
+    assert.strictEqual(nextDeliveryTime([], ["/ws"]), undefined);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Unit tests for queue storage backends: the JSON-file backend, QueueStore
+ * on top of it, and migration from globalState.
+ */
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { QueueItem, QueueStore } from "../../queue/QueueStore";
+import { JsonFileQueueBackend } from "../../storage/JsonFileQueueBackend";
+import {
+  ITEMS_KEY,
+  MementoQueueBackend,
+} from "../../storage/MementoQueueBackend";
+import {
+  migrateQueueItems,
+  queueFilePath,
+} from "../../storage/queueBackends";
+
+// ── Mock vscode.Memento ────────────────────────────────────────────────────
+class MockMemento {
+  private data = new Map<string, unknown>();
+
+  get<T>(key: string, defaultValue: T): T {
+    return (this.data.has(key) ? this.data.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.data.set(key, value);
+  }
+
+  keys(): readonly string[] {
+    return Array.from(this.data.keys());
+  }
+  setKeysForSync(_keys: readonly string[]): void {
+    /* no-op */
+  }
+}
+
+const mockLog = {
+  appendLine: (_msg: string): void => {
+    /* silent */
+  },
+} as unknown as import("vscode").OutputChannel;
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeMemento(): import("vscode").Memento {
+  return new MockMemento() as unknown as import("vscode").Memento;
+}
+
+function makeTmpDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "claude-storage-test-"));
+}
+
+function makeItem(overrides: Partial<QueueItem> = {}): QueueItem {
+  const now = new Date();
+  return {
+    id: `test-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now.toISOString(),
+    notBefore: new Date(now.getTime() + 60_000).toISOString(),
+    promptText: "Hello, AI!",
+    workspaceFolder: "",
+    processed: false,
+    ...overrides,
+  };
+}
+
+// ── JsonFileQueueBackend ───────────────────────────────────────────────────
+
+suite("Storage — JSON file backend", () => {
+  test("missing file loads as empty", () => {
+    const backend = new JsonFileQueueBackend(
+      path.join(makeTmpDir(), "queue.json"),
+      mockLog,
+    );
+    assert.deepStrictEqual(backend.load(), []);
+  });
+
+  test("save writes readable JSON atomically", async () => {
+    const dir = makeTmpDir();
+    const file = path.join(dir, "sub", "queue.json");
+    const backend = new JsonFileQueueBackend(file, mockLog);
+    const item = makeItem();
+
+    await backend.save([item]);
+
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    assert.deepStrictEqual(parsed.items, [item]);
+    // No temp file left behind.
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(file)), ["queue.json"]);
+  });
+
+  test("another backend on the same file sees writes", async () => {
+    const file = path.join(makeTmpDir(), "queue.json");
+    const a = new JsonFileQueueBackend(file, mockLog);
+    const b = new JsonFileQueueBackend(file, mockLog);
+
+    await a.save([makeItem({ promptText: "one" })]);
+    assert.strictEqual(b.load().length, 1);
+    await b.save([...b.load(), makeItem({ promptText: "two" })]);
+    assert.deepStrictEqual(
+      a.load().map((i) => i.promptText),
+      ["one", "two"],
+    );
+  });
+
+  test("load returns a copy the caller may modify", async () => {
+    const backend = new JsonFileQueueBackend(
+      path.join(makeTmpDir(), "queue.json"),
+      mockLog,
+    );
+    await backend.save([makeItem()]);
+    backend.load().push(makeItem());
+    assert.strictEqual(backend.load().length, 1);
+  });
+
+  test("an unreadable file is moved aside, not overwritten", () => {
+    const dir = makeTmpDir();
+    const file = path.join(dir, "queue.json");
+    fs.writeFileSync(file, "[{", "utf8");
+
+    const backend = new JsonFileQueueBackend(file, mockLog);
+    assert.deepStrictEqual(backend.load(), []);
+    assert.ok(!fs.existsSync(file));
+    assert.ok(
+      fs.readdirSync(dir).some((f) => f.startsWith("queue.json.corrupt-")),
+    );
+  });
+});
+
+// ── QueueStore on the file backend ─────────────────────────────────────────
+
+suite("Storage — QueueStore with file backend", () => {
+  test("items go to the file, not globalState", async () => {
+    const memento = makeMemento();
+    const file = path.join(makeTmpDir(), "queue.json");
+    const store = new QueueStore(
+      memento,
+      new JsonFileQueueBackend(file, mockLog),
+    );
+    const item = makeItem();
+
+    await store.add(item);
+    await store.markProcessed(item.id);
+
+    assert.strictEqual(memento.get(ITEMS_KEY, undefined), undefined);
+    const onDisk = JSON.parse(fs.readFileSync(file, "utf8")).items;
+    assert.strictEqual(onDisk.length, 1);
+    assert.strictEqual(onDisk[0].processed, true);
+    assert.strictEqual(store.getPending().length, 0);
+  });
+
+  test("overlapping changes all land, with no leftover temp files", async () => {
+    const dir = makeTmpDir();
+    const store = new QueueStore(
+      makeMemento(),
+      new JsonFileQueueBackend(path.join(dir, "queue.json"), mockLog),
+    );
+    await store.add(makeItem({ id: "x" }));
+
+    await Promise.all([
+      store.add(makeItem({ id: "a" })),
+      store.update("x", { priority: "high" }),
+      store.add(makeItem({ id: "b" })),
+    ]);
+
+    const reread = new JsonFileQueueBackend(
+      path.join(dir, "queue.json"),
+      mockLog,
+    );
+    for (const items of [store.getAll(), reread.load()]) {
+      assert.deepStrictEqual(items.map((i) => i.id).sort(), ["a", "b", "x"]);
+      assert.strictEqual(items.find((i) => i.id === "x")?.priority, "high");
+    }
+    assert.deepStrictEqual(fs.readdirSync(dir), ["queue.json"]);
+  });
+
+  test("changes from two windows on the same file all land", async () => {
+    const dir = makeTmpDir();
+    const file = path.join(dir, "queue.json");
+    const window = (): QueueStore =>
+      new QueueStore(makeMemento(), new JsonFileQueueBackend(file, mockLog));
+    const [a, b] = [window(), window()];
+    await a.add(makeItem({ id: "done" }));
+
+    await Promise.all([
+      a.add(makeItem({ id: "new-a" })),
+      b.remove("done"),
+      b.add(makeItem({ id: "new-b" })),
+      a.add(makeItem({ id: "new-c" })),
+    ]);
+
+    const reread = new JsonFileQueueBackend(file, mockLog);
+    assert.deepStrictEqual(
+      reread
+        .load()
+        .map((i) => i.id)
+        .sort(),
+      ["new-a", "new-b", "new-c"],
+    );
+    // The lock file is gone.
+    assert.deepStrictEqual(fs.readdirSync(dir), ["queue.json"]);
+  });
+
+  test("a lock file left by a dead window is taken over", async () => {
+    const dir = makeTmpDir();
+    const file = path.join(dir, "queue.json");
+    const lock = `${file}.lock`;
+    fs.writeFileSync(lock, "12345");
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lock, old, old);
+
+    const backend = new JsonFileQueueBackend(file, mockLog);
+    await backend.save([makeItem({ id: "x" })]);
+    assert.deepStrictEqual(
+      backend.load().map((i) => i.id),
+      ["x"],
+    );
+    assert.ok(!fs.existsSync(lock));
+  });
+
+  test("claims are visible to a second store on the same file", async () => {
+    const file = path.join(makeTmpDir(), "queue.json");
+    const a = new QueueStore(
+      makeMemento(),
+      new JsonFileQueueBackend(file, mockLog),
+    );
+    const b = new QueueStore(
+      makeMemento(),
+      new JsonFileQueueBackend(file, mockLog),
+    );
+    const item = makeItem();
+    await a.add(item);
+
+    assert.strictEqual(await a.claim(item.id, "win-a", 60_000), true);
+    assert.strictEqual(await b.claim(item.id, "win-b", 60_000), false);
+  });
+});
+
+// ── Migration ──────────────────────────────────────────────────────────────
+
+suite("Storage — migration", () => {
+  test("moves globalState items into the file and clears them", async () => {
+    const memento = makeMemento();
+    const items = [makeItem(), makeItem()];
+    await memento.update(ITEMS_KEY, items);
+    const from = new MementoQueueBackend(memento);
+    const to = new JsonFileQueueBackend(
+      path.join(makeTmpDir(), "queue.json"),
+      mockLog,
+    );
+
+    assert.strictEqual(await migrateQueueItems(from, to), 2);
+    assert.deepStrictEqual(to.load(), items);
+    assert.deepStrictEqual(from.load(), []);
+    // Running again is a no-op.
+    assert.strictEqual(await migrateQueueItems(from, to), 0);
+    assert.strictEqual(to.load().length, 2);
+  });
+
+  test("keeps items already in the target on id conflicts", async () => {
+    const memento = makeMemento();
+    const shared = makeItem({ promptText: "old copy" });
+    const onlyOld = makeItem();
+    await memento.update(ITEMS_KEY, [shared, onlyOld]);
+    const to = new JsonFileQueueBackend(
+      path.join(makeTmpDir(), "queue.json"),
+      mockLog,
+    );
+    const newer = makeItem();
+    await to.save([{ ...shared, promptText: "new copy" }, newer]);
+
+    const moved = await migrateQueueItems(
+      new MementoQueueBackend(memento),
+      to,
+    );
+
+    assert.strictEqual(moved, 1);
+    assert.deepStrictEqual(
+      to.load().map((i) => i.id),
+      [shared.id, newer.id, onlyOld.id],
+    );
+    assert.strictEqual(to.load()[0].promptText, "new copy");
+  });
+});
+
+// ── queueFilePath ──────────────────────────────────────────────────────────
+
+suite("Storage — queue file path", () => {
+  test("empty setting uses global storage", () => {
+    assert.strictEqual(
+      queueFilePath("", "/gs/ext"),
+      path.join("/gs/ext", "queue.json"),
+    );
+  });
+
+  test("expands ~ and keeps absolute paths", () => {
+    assert.strictEqual(
+      queueFilePath("~/Sync/queue.json", "/gs/ext"),
+      path.join(os.homedir(), "Sync", "queue.json"),
+    );
+    assert.strictEqual(
+      queueFilePath(" /data/q.json ", "/gs/ext"),
+      path.resolve("/data/q.json"),
+    );
+  });
+});
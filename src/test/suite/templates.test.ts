@@ -0,0 +1,135 @@
+/**
+ * Unit tests for prompt templates (templates/promptTemplates.ts): parsing,
+ * placeholder discovery, queue-time vs delivery-time variables and filling.
+ */
+import * as assert from "assert";
+import {
+  customVariables,
+  dateVariables,
+  deliveryVariables,
+  fillArguments,
+  fillPlaceholders,
+  parsePromptTemplate,
+  queueTimeVariables,
+  templatePlaceholders,
+  usesArguments,
+} from "../../templates/promptTemplates";
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function makeTemplate(content: string) {
+  return parsePromptTemplate(
+    "review",
+    "workspace",
+    "/ws/.claude/prompt-templates/review.md",
+    content,
+  );
+}
+
+const REVIEW = [
+  "---",
+  "description: Review a file",
+  "argument-hint: what to focus on",
+  "ticket: PROJ-",
+  "---",
+  "",
+  "Review {{file}} for {{ ticket }} on {{branch}} ({{date}}), focusing on $ARGUMENTS.",
+  "{{selection}}",
+  "Changes: {{git.diff}}",
+  "Again: {{file}}",
+].join("\n");
+
+// ── Parsing ────────────────────────────────────────────────────────────────
+
+suite("Templates — parsing", () => {
+  test("reads description, argument hint and variable defaults", () => {
+    const t = makeTemplate(REVIEW);
+    assert.strictEqual(t.name, "review");
+    assert.strictEqual(t.description, "Review a file");
+    assert.strictEqual(t.argumentHint, "what to focus on");
+    assert.deepStrictEqual(t.defaults, { ticket: "PROJ-" });
+    assert.strictEqual(t.resolve, undefined);
+    assert.ok(t.body.startsWith("Review {{file}}"));
+  });
+
+  test("a file without frontmatter is all body", () => {
+    const t = makeTemplate("Explain {{selection}}");
+    assert.strictEqual(t.description, "");
+    assert.strictEqual(t.body, "Explain {{selection}}");
+  });
+
+  test("placeholders are listed once, in order", () => {
+    assert.deepStrictEqual(templatePlaceholders(REVIEW), [
+      "file",
+      "ticket",
+      "branch",
+      "date",
+      "selection",
+      "git.diff",
+    ]);
+    assert.ok(usesArguments(makeTemplate(REVIEW)));
+    assert.ok(!usesArguments(makeTemplate("No args: $ARGUMENTSX")));
+  });
+});
+
+// ── Resolution time ────────────────────────────────────────────────────────
+
+suite("Templates — resolution time", () => {
+  test("default: git at delivery, everything else when queued", () => {
+    const t = makeTemplate(REVIEW);
+    assert.deepStrictEqual(customVariables(t), ["ticket"]);
+    assert.deepStrictEqual(queueTimeVariables(t), [
+      "file",
+      "branch",
+      "date",
+      "selection",
+    ]);
+  });
+
+  test("resolve: delivery defers branch and date, not the editor", () => {
+    const t = makeTemplate(
+      "---\nresolve: delivery\n---\n{{file}} {{branch}} {{date}} {{git.status}}",
+    );
+    assert.strictEqual(t.resolve, "delivery");
+    assert.deepStrictEqual(queueTimeVariables(t), ["file"]);
+  });
+
+  test("resolve: queue snapshots git too", () => {
+    const t = makeTemplate("---\nresolve: queue\n---\n{{git.diff}} {{x}}");
+    assert.deepStrictEqual(queueTimeVariables(t), ["git.diff"]);
+    assert.deepStrictEqual(customVariables(t), ["x"]);
+  });
+
+  test("deliveryVariables lists the movable built-ins left in a prompt", () => {
+    assert.deepStrictEqual(
+      deliveryVariables("{{git.diff}} {{file}} {{ticket}} {{date}}"),
+      ["git.diff", "date"],
+    );
+    assert.deepStrictEqual(deliveryVariables("plain text"), []);
+  });
+});
+
+// ── Filling ────────────────────────────────────────────────────────────────
+
+suite("Templates — filling", () => {
+  test("fills known placeholders and leaves the others", () => {
+    assert.strictEqual(
+      fillPlaceholders("{{a}} {{ b }} {{c}} {{a}}", { a: "1", b: "$&" }),
+      "1 $& {{c}} 1",
+    );
+  });
+
+  test("fills $ARGUMENTS literally", () => {
+    assert.strictEqual(
+      fillArguments("Fix $ARGUMENTS now ($ARGUMENTS)", "bug $1"),
+      "Fix bug $1 now (bug $1)",
+    );
+  });
+
+  test("date and time are local and zero-padded", () => {
+    assert.deepStrictEqual(dateVariables(new Date(2025, 0, 5, 7, 3)), {
+      date: "2025-01-05",
+      time: "07:03",
+    });
+  });
+});
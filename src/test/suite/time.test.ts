@@ -7,6 +7,7 @@ import {
   getWindowStart5h,
   getWindowStart7d,
   isOverdue,
+  formatCountdown,
   datesInRange,
   parseRateLimitDelay,
   parseRateLimitMessage,
@@ -96,6 +97,23 @@ suite('time utilities', () => {
     });
   });
 
+  // ── formatCountdown ────────────────────────────────────────────────────────
+  suite('formatCountdown', () => {
+    test('rounds up to whole minutes', () => {
+      assert.strictEqual(formatCountdown(0), '<1m');
+      assert.strictEqual(formatCountdown(-5_000), '<1m');
+      assert.strictEqual(formatCountdown(1_000), '1m');
+      assert.strictEqual(formatCountdown(12 * 60_000), '12m');
+    });
+
+    test('uses hours and days for longer durations', () => {
+      assert.strictEqual(formatCountdown(80 * 60_000), '1h20m');
+      assert.strictEqual(formatCountdown(2 * 3_600_000), '2h');
+      assert.strictEqual(formatCountdown(51 * 3_600_000), '2d3h');
+      assert.strictEqual(formatCountdown(48 * 3_600_000), '2d');
+    });
+  });
+
   // ── datesInRange ───────────────────────────────────────────────────────────
   suite('datesInRange', () => {
     test('returns single date for same-day range', () => {
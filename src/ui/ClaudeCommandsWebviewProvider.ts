@@ -4,6 +4,7 @@ import * as path from "path";
 import * as fs from "fs";
 import * as os from "os";
 import { execSync } from "child_process";
+import { parseFrontmatter } from "../util/frontmatter";
 
 export interface ClaudeCommand {
   /** e.g. "git-status" */
@@ -14,6 +15,8 @@ export interface ClaudeCommand {
   slash: string;
   /** Value of the `description` frontmatter field */
   description: string;
+  /** Value of the `argument-hint` frontmatter field, shown when queueing */
+  argumentHint?: string;
   /** Absolute path to the .md file, empty for built-ins */
   filePath: string;
   /** Where the command comes from */
@@ -29,6 +32,14 @@ export interface ClaudeCommand {
   plugin?: string;
 }
 
+/** How the card actions hand a prompt to the queue (wired in extension.ts). */
+export interface CommandQueueActions {
+  /** Ask when to deliver `promptText`, then queue it. */
+  queue(promptText: string): Promise<void>;
+  /** Queue `promptText` as due now and deliver it immediately. */
+  sendNow(promptText: string): Promise<void>;
+}
+
 // ── Native Claude Code built-in commands (extracted from binary v2.1.91) ────
 // Source: `strings` on Mach-O + local-jsx marker extraction. Re-run when
 // updating Claude Code: python3 script in docs/extract-builtins.md
@@ -359,6 +370,10 @@ export class ClaudeCommandsWebviewProvider
 {
   public static readonly viewType = "claudeCommandsView";
   private _view?: vscode.WebviewView;
+  /** Commands last rendered, looked up by slash for the card actions. */
+  private commands: ClaudeCommand[] = [];
+
+  constructor(private readonly queue: CommandQueueActions) {}
 
   resolveWebviewView(
     webviewView: vscode.WebviewView,
@@ -391,6 +406,9 @@ export class ClaudeCommandsWebviewProvider
       if (msg.type === "refresh") {
         this.loadAndRender();
       }
+      if (msg.type === "queueCommand" || msg.type === "sendCommand") {
+        await this.queueCommand(msg.slash, msg.type === "sendCommand");
+      }
     });
   }
 
@@ -398,6 +416,32 @@ export class ClaudeCommandsWebviewProvider
     this.loadAndRender();
   }
 
+  /**
+   * Ask for the arguments of a command and queue the prompt that runs it —
+   * or, with `now`, deliver it right away.
+   */
+  private async queueCommand(slash: string, now: boolean): Promise<void> {
+    const cmd = this.commands.find((c) => c.slash === slash);
+    if (!cmd || !isQueueable(cmd)) {
+      return;
+    }
+    const args = await vscode.window.showInputBox({
+      title: now ? `Send ${slash}` : `Queue ${slash}`,
+      prompt: "Arguments ($ARGUMENTS) — leave empty for none",
+      placeHolder: cmd.argumentHint,
+      ignoreFocusOut: true,
+    });
+    if (args === undefined) {
+      return;
+    }
+    const promptText = commandPrompt(cmd, args);
+    if (now) {
+      await this.queue.sendNow(promptText);
+    } else {
+      await this.queue.queue(promptText);
+    }
+  }
+
   /** Open a split WebviewPanel with the markdown content of a command file. */
   private previewCommand(filePath: string, slash: string): void {
     let content: string;
@@ -553,6 +597,7 @@ export class ClaudeCommandsWebviewProvider
 
   private loadAndRender(): void {
     const commands = this.scanCommands();
+    this.commands = commands;
     if (this._view) {
       this._view.webview.html = this.buildHtml(commands);
     }
@@ -851,6 +896,10 @@ export class ClaudeCommandsWebviewProvider
         const openBtn = cmd.filePath
           ? \`<button class="action-btn open-btn" data-path="\${esc(cmd.filePath)}" title="Open file">↗ open</button>\`
           : '';
+        const queueBtns = cmd.source !== 'mcp'
+          ? \`<button class="action-btn queue-btn" data-slash="\${esc(cmd.slash)}" title="Queue with arguments…">⏱ queue</button>
+      <button class="action-btn send-btn" data-slash="\${esc(cmd.slash)}" title="Send now with arguments…">▶ send</button>\`
+          : '';
         const previewBtn = cmd.filePath
           ? \`<button class="action-btn preview-btn" data-path="\${esc(cmd.filePath)}" data-slash="\${esc(cmd.slash)}" title="Preview content">👁 preview</button>\`
           : '';
@@ -860,6 +909,7 @@ export class ClaudeCommandsWebviewProvider
     <span class="source-badge \${cmd.source}">\${esc(sourceLabel)}</span>
     <div class="cmd-actions">
       <button class="action-btn copy-btn" data-slash="\${esc(cmd.slash)}" title="Copy slash command">⎘ copy</button>
+      \${queueBtns}
       \${previewBtn}
       \${openBtn}
     </div>
@@ -881,6 +931,15 @@ export class ClaudeCommandsWebviewProvider
       });
     });
 
+    // Wire queue / send buttons
+    commandList.querySelectorAll('.queue-btn, .send-btn').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        const type = btn.classList.contains('send-btn') ? 'sendCommand' : 'queueCommand';
+        vscode.postMessage({ type, slash: btn.dataset.slash });
+      });
+    });
+
     // Wire open buttons
     commandList.querySelectorAll('.open-btn').forEach(btn => {
       btn.addEventListener('click', (e) => {
@@ -980,11 +1039,9 @@ function scanDir(
       const category =
         parts.length > 1 ? parts.slice(0, -1).join("/") : "commands";
 
-      let description = "";
+      let info: CommandInfo = { description: "" };
       try {
-        description = parseFrontmatterDescription(
-          fs.readFileSync(entryPath, "utf8"),
-        );
+        info = parseCommandFrontmatter(fs.readFileSync(entryPath, "utf8"));
       } catch {
         /* ignore unreadable files */
       }
@@ -993,7 +1050,7 @@ function scanDir(
         name,
         category,
         slash,
-        description,
+        ...info,
         filePath: entryPath,
         source,
       });
@@ -1067,11 +1124,9 @@ function scanPlugins(): ClaudeCommand[] {
       const name = file.replace(/\.md$/, "");
       const slash = `/${pluginName}:${name}`;
 
-      let description = "";
+      let info: CommandInfo = { description: "" };
       try {
-        description = parseFrontmatterDescription(
-          fs.readFileSync(filePath, "utf8"),
-        );
+        info = parseCommandFrontmatter(fs.readFileSync(filePath, "utf8"));
       } catch {
         /* ignore */
       }
@@ -1080,7 +1135,7 @@ function scanPlugins(): ClaudeCommand[] {
         name,
         category: pluginName,
         slash,
-        description,
+        ...info,
         filePath,
         source: "plugin",
         plugin: pluginName,
@@ -1111,11 +1166,9 @@ export function scanAgents(
     }
     const filePath = path.join(dir, entry);
     const name = entry.replace(/\.md$/, "");
-    let description = "";
+    let info: CommandInfo = { description: "" };
     try {
-      description = parseFrontmatterDescription(
-        fs.readFileSync(filePath, "utf8"),
-      );
+      info = parseCommandFrontmatter(fs.readFileSync(filePath, "utf8"));
     } catch {
       /* ignore */
     }
@@ -1123,7 +1176,7 @@ export function scanAgents(
       name,
       category: "agents",
       slash: `@${name}`,
-      description,
+      ...info,
       filePath,
       source: "agent" as const,
     });
@@ -1162,11 +1215,9 @@ export function scanSkills(
       continue;
     }
 
-    let description = "";
+    let info: CommandInfo = { description: "" };
     try {
-      description = parseFrontmatterDescription(
-        fs.readFileSync(skillFile, "utf8"),
-      );
+      info = parseCommandFrontmatter(fs.readFileSync(skillFile, "utf8"));
     } catch {
       /* ignore */
     }
@@ -1175,7 +1226,7 @@ export function scanSkills(
       name: entry,
       category: "skills",
       slash: `/${entry}`,
-      description,
+      ...info,
       filePath: skillFile,
       source: "skill" as const,
     });
@@ -1402,15 +1453,35 @@ function extractBuiltinsFromBinary(): BuiltinEntry[] {
 // ── Frontmatter parser ──────────────────────────────────────────────────────
 
 export function parseFrontmatterDescription(content: string): string {
-  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
-  if (!match) {
-    return "";
-  }
-  const descMatch = match[1].match(/^description:\s*["']?(.*?)["']?\s*$/m);
-  if (!descMatch) {
-    return "";
-  }
-  return descMatch[1].trim().replace(/^["']|["']$/g, "");
+  return parseFrontmatter(content).fields.description?.trim() ?? "";
+}
+
+type CommandInfo = Pick<ClaudeCommand, "description" | "argumentHint">;
+
+/** `description` and `argument-hint` of a command, agent or skill file. */
+export function parseCommandFrontmatter(content: string): CommandInfo {
+  const { fields } = parseFrontmatter(content);
+  const argumentHint = fields["argument-hint"]?.trim();
+  return {
+    description: fields.description?.trim() ?? "",
+    ...(argumentHint ? { argumentHint } : {}),
+  };
+}
+
+// ── Queueing ─────────────────────────────────────────────────────────────────
+
+/** MCP servers are listed for reference — there is nothing to send. */
+export function isQueueable(cmd: ClaudeCommand): boolean {
+  return cmd.source !== "mcp";
+}
+
+/**
+ * The prompt that runs `cmd` with `args` ($ARGUMENTS): `/review src/foo.ts`
+ * for commands and skills, `@agent-name do X` for agents.
+ */
+export function commandPrompt(cmd: ClaudeCommand, args: string): string {
+  const trimmed = args.trim();
+  return trimmed ? `${cmd.slash} ${trimmed}` : cmd.slash;
 }
 
 // ── Preview panel HTML ────────────────────────────────────────────────────────
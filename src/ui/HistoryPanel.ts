@@ -0,0 +1,495 @@
+/**
+ * HistoryPanel — searchable view of every delivered or failed prompt
+ * (HistoryStore), opened in an editor tab. Filtering runs in the extension
+ * so the webview only receives the visible page of entries.
+ */
+import * as vscode from "vscode";
+import * as nodeCrypto from "crypto";
+import {
+  filterHistory,
+  HistoryEntry,
+  HistoryFilter,
+  HistoryStore,
+} from "../queue/HistoryStore";
+import { DeliveryTargetRegistry } from "../delivery/DeliveryTargetRegistry";
+
+/** Entries sent to the webview per query (newest first). */
+const MAX_RESULTS = 200;
+
+// ── Message types (webview → extension) ───────────────────────────────────────
+type InMsg =
+  | { type: "ready" }
+  | { type: "query"; filter: HistoryFilter }
+  | { type: "requeue"; id: string }
+  | { type: "copy"; id: string }
+  | { type: "delete"; id: string }
+  | { type: "clear" };
+
+// ── Message types (extension → webview) ───────────────────────────────────────
+type OutMsg =
+  | {
+      type: "historyUpdated";
+      entries: HistoryEntry[];
+      /** Entries matching the filter (entries is capped at MAX_RESULTS). */
+      matched: number;
+      total: number;
+      /** Filter choices. */
+      targets: { id: string; name: string }[];
+      workspaces: string[];
+    }
+  | { type: "toast"; level: "info" | "warn" | "error"; message: string };
+
+export class HistoryPanel {
+  public static readonly viewType = "promptQueueHistory";
+  private static current: HistoryPanel | undefined;
+
+  private filter: HistoryFilter = {};
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /** Open the history panel, or reveal it when already open. */
+  static show(
+    history: HistoryStore,
+    targets: DeliveryTargetRegistry,
+    requeue: (entry: HistoryEntry) => Promise<void>,
+    log: vscode.OutputChannel,
+  ): void {
+    if (HistoryPanel.current) {
+      HistoryPanel.current.panel.reveal();
+      return;
+    }
+    const panel = vscode.window.createWebviewPanel(
+      HistoryPanel.viewType,
+      "Prompt History",
+      vscode.ViewColumn.Active,
+      { enableScripts: true },
+    );
+    HistoryPanel.current = new HistoryPanel(
+      panel,
+      history,
+      targets,
+      requeue,
+      log,
+    );
+  }
+
+  private constructor(
+    private readonly panel: vscode.WebviewPanel,
+    private readonly history: HistoryStore,
+    private readonly targets: DeliveryTargetRegistry,
+    private readonly requeue: (entry: HistoryEntry) => Promise<void>,
+    private readonly log: vscode.OutputChannel,
+  ) {
+    panel.webview.html = this.buildHtml();
+    panel.webview.onDidReceiveMessage(
+      async (msg: InMsg) => {
+        try {
+          await this.handle(msg);
+        } catch (err) {
+          this.log.appendLine(`[HistoryPanel] ${err}`);
+          this.post({ type: "toast", level: "error", message: String(err) });
+        }
+      },
+      null,
+      this.disposables,
+    );
+    history.onDidChange(() => this.sendHistory(), null, this.disposables);
+    // Other windows append to the same file — refresh when shown again.
+    panel.onDidChangeViewState(
+      (e) => {
+        if (e.webviewPanel.visible) {
+          this.sendHistory();
+        }
+      },
+      null,
+      this.disposables,
+    );
+    panel.onDidDispose(() => this.dispose(), null, this.disposables);
+  }
+
+  private dispose(): void {
+    HistoryPanel.current = undefined;
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+  }
+
+  private post(msg: OutMsg): void {
+    this.panel.webview.postMessage(msg);
+  }
+
+  private sendHistory(): void {
+    const all = this.history.getAll();
+    const matched = filterHistory(all, this.filter);
+    this.post({
+      type: "historyUpdated",
+      entries: matched.slice(0, MAX_RESULTS),
+      matched: matched.length,
+      total: all.length,
+      targets: this.targets.list().map(({ id, name }) => ({ id, name })),
+      workspaces: [...new Set(all.map((e) => e.workspaceFolder))].sort(),
+    });
+  }
+
+  private async handle(msg: InMsg): Promise<void> {
+    switch (msg.type) {
+      case "ready":
+        this.sendHistory();
+        break;
+
+      case "query":
+        this.filter = msg.filter ?? {};
+        this.sendHistory();
+        break;
+
+      case "requeue": {
+        const entry = this.history.get(msg.id);
+        if (entry) {
+          await this.requeue(entry);
+        }
+        break;
+      }
+
+      case "copy": {
+        const entry = this.history.get(msg.id);
+        if (entry) {
+          await vscode.env.clipboard.writeText(entry.promptText);
+          this.post({
+            type: "toast",
+            level: "info",
+            message: "Prompt copied to clipboard.",
+          });
+        }
+        break;
+      }
+
+      case "delete":
+        await this.history.remove(msg.id);
+        break;
+
+      case "clear": {
+        const answer = await vscode.window.showWarningMessage(
+          "Delete the whole prompt history?",
+          { modal: true },
+          "Delete",
+        );
+        if (answer === "Delete") {
+          await this.history.clear();
+        }
+        break;
+      }
+    }
+  }
+
+  // ── HTML ───────────────────────────────────────────────────────────────────
+
+  private buildHtml(): string {
+    const nonce = nodeCrypto.randomBytes(16).toString("base64");
+    return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width,initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy"
+  content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+  *, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+
+  body {
+    font-family: var(--vscode-font-family);
+    font-size: var(--vscode-font-size, 13px);
+    color: var(--vscode-foreground);
+    background: var(--vscode-editor-background);
+    padding: 16px 20px 32px;
+    line-height: 1.5;
+    max-width: 960px;
+  }
+
+  /* ── Filters ──────────────────────────────────────────────────────────── */
+  .filters {
+    display: flex;
+    flex-wrap: wrap;
+    gap: 6px;
+    margin-bottom: 10px;
+  }
+  input, select {
+    background: var(--vscode-input-background);
+    color: var(--vscode-input-foreground);
+    border: 1px solid var(--vscode-input-border, transparent);
+    border-radius: 2px;
+    padding: 3px 6px;
+    font-family: inherit;
+    font-size: inherit;
+  }
+  #searchInput { flex: 1; min-width: 200px; }
+  button {
+    background: var(--vscode-button-secondaryBackground, #3a3d41);
+    color: var(--vscode-button-secondaryForeground, #fff);
+    border: none;
+    border-radius: 2px;
+    padding: 2px 8px;
+    cursor: pointer;
+    font-size: 0.85em;
+  }
+  button:hover { background: var(--vscode-button-secondaryHoverBackground, #45494e); }
+  .summary {
+    font-size: 0.85em;
+    color: var(--vscode-descriptionForeground);
+    margin-bottom: 8px;
+    display: flex;
+    align-items: center;
+    gap: 8px;
+  }
+  .summary span { flex: 1; }
+
+  /* ── Entries ──────────────────────────────────────────────────────────── */
+  .entry {
+    padding: 8px 10px;
+    margin-bottom: 6px;
+    border-radius: 3px;
+    border-left: 3px solid var(--vscode-testing-iconPassed, #73c991);
+    background: var(--vscode-list-inactiveSelectionBackground, rgba(128,128,128,.08));
+  }
+  .entry.failed { border-left-color: var(--vscode-errorForeground, #f48771); }
+  .entry-head {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 0.85em;
+  }
+  .entry-meta { flex: 1; color: var(--vscode-descriptionForeground); }
+  .entry-text {
+    margin-top: 4px;
+    white-space: pre-wrap;
+    word-break: break-word;
+    font-family: var(--vscode-editor-font-family);
+    font-size: 0.9em;
+    max-height: 4.5em;
+    overflow: hidden;
+    cursor: pointer;
+  }
+  .entry.expanded .entry-text { max-height: none; }
+  .entry-error {
+    margin-top: 4px;
+    font-size: 0.85em;
+    color: var(--vscode-errorForeground, #f48771);
+  }
+  .empty-state {
+    color: var(--vscode-descriptionForeground);
+    font-style: italic;
+    padding: 12px 0;
+  }
+
+  #toast {
+    position: fixed;
+    bottom: 12px;
+    right: 20px;
+    padding: 6px 10px;
+    border-radius: 3px;
+    font-size: 0.85em;
+    display: none;
+  }
+  #toast.info { background: var(--vscode-inputValidation-infoBackground, var(--vscode-editorInfo-background)); color: var(--vscode-inputValidation-infoForeground, var(--vscode-editorInfo-foreground)); }
+  #toast.warn { background: var(--vscode-inputValidation-warningBackground, var(--vscode-editorWarning-background)); color: var(--vscode-inputValidation-warningForeground, var(--vscode-editorWarning-foreground)); }
+  #toast.error { background: var(--vscode-inputValidation-errorBackground, #5a1d1d); color: var(--vscode-errorForeground, #f48771); }
+</style>
+</head>
+<body>
+
+<div class="filters">
+  <input id="searchInput" type="search" placeholder="Search prompt text, errors or ids…">
+  <select id="statusSelect" title="Status">
+    <option value="">All statuses</option>
+    <option value="delivered">Delivered</option>
+    <option value="failed">Failed</option>
+  </select>
+  <select id="targetSelect" title="Delivery target">
+    <option value="">All targets</option>
+  </select>
+  <select id="workspaceSelect" title="Workspace">
+    <option value="*">All workspaces</option>
+  </select>
+</div>
+<div class="summary">
+  <span id="summaryText"></span>
+  <button id="clearBtn" title="Delete the whole history">Clear history</button>
+</div>
+<div id="historyList"><div class="empty-state">No history yet.</div></div>
+<div id="toast"></div>
+
+<script nonce="${nonce}">
+(function () {
+  const vscode = acquireVsCodeApi();
+  const saved = vscode.getState() || {};
+
+  const searchInput     = document.getElementById('searchInput');
+  const statusSelect    = document.getElementById('statusSelect');
+  const targetSelect    = document.getElementById('targetSelect');
+  const workspaceSelect = document.getElementById('workspaceSelect');
+  const summaryText     = document.getElementById('summaryText');
+  const clearBtn        = document.getElementById('clearBtn');
+  const historyList     = document.getElementById('historyList');
+  const toast           = document.getElementById('toast');
+  let targets = [];
+  let toastTimer;
+  let searchTimer;
+
+  searchInput.value = saved.text ?? '';
+  statusSelect.value = saved.status ?? '';
+
+  // ── Filters ───────────────────────────────────────────────────────────────
+  function currentFilter() {
+    const filter = {};
+    if (searchInput.value.trim()) { filter.text = searchInput.value; }
+    if (statusSelect.value) { filter.status = statusSelect.value; }
+    if (targetSelect.value) { filter.target = targetSelect.value; }
+    if (workspaceSelect.value !== '*') { filter.workspaceFolder = workspaceSelect.value; }
+    return filter;
+  }
+
+  function query() {
+    vscode.setState({
+      text: searchInput.value, status: statusSelect.value,
+      target: targetSelect.value, workspace: workspaceSelect.value,
+    });
+    vscode.postMessage({ type: 'query', filter: currentFilter() });
+  }
+
+  searchInput.addEventListener('input', () => {
+    clearTimeout(searchTimer);
+    searchTimer = setTimeout(query, 200);
+  });
+  statusSelect.addEventListener('change', query);
+  targetSelect.addEventListener('change', query);
+  workspaceSelect.addEventListener('change', query);
+  clearBtn.addEventListener('click', () => vscode.postMessage({ type: 'clear' }));
+
+  function renderChoices(msg) {
+    targets = msg.targets || [];
+    const target = targetSelect.options.length > 1 ? targetSelect.value : (saved.target ?? '');
+    targetSelect.innerHTML = '<option value="">All targets</option>' + targets.map(t =>
+      '<option value="' + esc(t.id) + '">' + esc(t.name) + '</option>'
+    ).join('');
+    targetSelect.value = targets.some(t => t.id === target) ? target : '';
+
+    const workspace = workspaceSelect.options.length > 1 ? workspaceSelect.value : (saved.workspace ?? '*');
+    const workspaces = msg.workspaces || [];
+    workspaceSelect.innerHTML = '<option value="*">All workspaces</option>' + workspaces.map(w =>
+      '<option value="' + esc(w) + '">' + esc(workspaceLabel(w)) + '</option>'
+    ).join('');
+    workspaceSelect.value = workspace === '*' || workspaces.includes(workspace) ? workspace : '*';
+  }
+
+  // ── List ──────────────────────────────────────────────────────────────────
+  function render(msg) {
+    summaryText.textContent = msg.total === 0
+      ? 'No history yet.'
+      : (msg.matched > msg.entries.length
+          ? 'Showing the newest ' + msg.entries.length + ' of ' + msg.matched + ' matches'
+          : msg.matched + ' match' + (msg.matched === 1 ? '' : 'es')) +
+        ' · ' + msg.total + ' prompts in history';
+
+    if (msg.entries.length === 0) {
+      historyList.innerHTML = '<div class="empty-state">' + (msg.total === 0 ? 'Delivered and failed prompts appear here.' : 'Nothing matches the filter.') + '</div>';
+      return;
+    }
+
+    historyList.innerHTML = msg.entries.map(e => {
+      const failed = e.status === 'failed';
+      const meta = [
+        '→ ' + targetName(e.target),
+        workspaceLabel(e.workspaceFolder),
+        e.attempts + (e.attempts === 1 ? ' attempt' : ' attempts'),
+        e.durationMs !== undefined ? formatDuration(e.durationMs) : '',
+        'queued ' + formatTime(new Date(e.createdAt)),
+      ].filter(Boolean).map(esc).join(' · ');
+      return '<div class="entry' + (failed ? ' failed' : '') + '" data-id="' + esc(e.id) + '">' +
+        '<div class="entry-head">' +
+          '<span>' + (failed ? '✕' : '✓') + ' ' + esc(formatTime(new Date(e.finishedAt))) + '</span>' +
+          '<span class="entry-meta" title="Item ' + esc(e.itemId) + '">' + meta + '</span>' +
+          '<button class="act-requeue" data-id="' + esc(e.id) + '" title="Queue this prompt again">↻ Re-queue</button>' +
+          '<button class="act-copy" data-id="' + esc(e.id) + '" title="Copy the prompt text">📋 Copy</button>' +
+          '<button class="act-delete" data-id="' + esc(e.id) + '" title="Remove from history">×</button>' +
+        '</div>' +
+        '<div class="entry-text" title="Click to expand">' + esc(e.promptText) + '</div>' +
+        (e.error ? '<div class="entry-error">' + esc(e.error) + '</div>' : '') +
+      '</div>';
+    }).join('');
+
+    wire('.act-requeue', 'requeue');
+    wire('.act-copy', 'copy');
+    wire('.act-delete', 'delete');
+    historyList.querySelectorAll('.entry-text').forEach(el => {
+      el.addEventListener('click', () => el.closest('.entry').classList.toggle('expanded'));
+    });
+  }
+
+  function wire(selector, type) {
+    historyList.querySelectorAll(selector).forEach(btn => {
+      btn.addEventListener('click', () => vscode.postMessage({ type, id: btn.dataset.id }));
+    });
+  }
+
+  // ── Messages from extension ───────────────────────────────────────────────
+  window.addEventListener('message', event => {
+    const msg = event.data;
+    switch (msg.type) {
+      case 'historyUpdated':
+        renderChoices(msg);
+        render(msg);
+        break;
+      case 'toast':
+        showToast(msg.level, msg.message);
+        break;
+    }
+  });
+
+  // ── Helpers ───────────────────────────────────────────────────────────────
+  function targetName(id) {
+    const target = targets.find(t => t.id === id);
+    return target ? target.name : id;
+  }
+
+  function workspaceLabel(folder) {
+    if (!folder) { return 'Global'; }
+    return folder.split(/[\\\\/]/).filter(Boolean).pop() || folder;
+  }
+
+  function formatDuration(ms) {
+    if (ms < 1000) { return ms + 'ms'; }
+    if (ms < 60000) { return (ms / 1000).toFixed(1) + 's'; }
+    return Math.round(ms / 60000) + 'min';
+  }
+
+  function formatTime(d) {
+    const hh = String(d.getHours()).padStart(2, '0');
+    const mm = String(d.getMinutes()).padStart(2, '0');
+    const sameDay = d.toDateString() === new Date().toDateString();
+    return sameDay
+      ? 'today ' + hh + ':' + mm
+      : d.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) + ' ' + hh + ':' + mm;
+  }
+
+  function showToast(level, message) {
+    toast.textContent = message;
+    toast.className = level;
+    toast.style.display = 'block';
+    clearTimeout(toastTimer);
+    toastTimer = setTimeout(() => { toast.style.display = 'none'; }, 3500);
+  }
+
+  function esc(s) {
+    return String(s)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // ── Boot ──────────────────────────────────────────────────────────────────
+  vscode.postMessage({ type: 'ready' });
+  query();
+})();
+</script>
+</body>
+</html>`;
+  }
+}
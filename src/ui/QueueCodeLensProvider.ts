@@ -0,0 +1,96 @@
+/**
+ * QueueCodeLensProvider — "Queue: explain | test | refactor" above functions
+ * and methods when `promptQueue.codeLens` is on. Each lens runs
+ * promptQueue.queueAboutSymbol, which opens the queue form with a prompt
+ * about the symbol and a reference to its lines.
+ */
+import * as vscode from "vscode";
+import { CODE_ACTIONS } from "../util/promptContext";
+
+/** Symbols that get lenses. */
+const LENS_KINDS = [
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor,
+];
+
+export class QueueCodeLensProvider
+  implements vscode.CodeLensProvider, vscode.Disposable
+{
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.onDidChangeEmitter.event;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("promptQueue.codeLens")) {
+          this.onDidChangeEmitter.fire();
+        }
+      }),
+    );
+  }
+
+  async provideCodeLenses(
+    document: vscode.TextDocument,
+  ): Promise<vscode.CodeLens[]> {
+    if (
+      !vscode.workspace
+        .getConfiguration("promptQueue")
+        .get<boolean>("codeLens", false)
+    ) {
+      return [];
+    }
+    const symbols = await vscode.commands.executeCommand<
+      (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+    >("vscode.executeDocumentSymbolProvider", document.uri);
+
+    const lenses: vscode.CodeLens[] = [];
+    for (const { name, range } of functionSymbols(symbols ?? [])) {
+      CODE_ACTIONS.forEach((action, i) => {
+        lenses.push(
+          new vscode.CodeLens(range.with({ end: range.start }), {
+            title: i === 0 ? `Queue: ${action}` : action,
+            tooltip: `Queue a prompt to ${action} ${name}`,
+            command: "promptQueue.queueAboutSymbol",
+            arguments: [
+              document.uri,
+              range.start.line + 1,
+              range.end.line + 1,
+              name,
+              action,
+            ],
+          }),
+        );
+      });
+    }
+    return lenses;
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+    this.onDidChangeEmitter.dispose();
+  }
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+/** Functions and methods, nested ones included, with their full range. */
+function functionSymbols(
+  symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[],
+): { name: string; range: vscode.Range }[] {
+  const found: { name: string; range: vscode.Range }[] = [];
+  const visit = (s: vscode.DocumentSymbol | vscode.SymbolInformation) => {
+    if (LENS_KINDS.includes(s.kind)) {
+      found.push({
+        name: s.name,
+        range: "location" in s ? s.location.range : s.range,
+      });
+    }
+    if ("children" in s) {
+      s.children.forEach(visit);
+    }
+  };
+  symbols.forEach(visit);
+  return found;
+}
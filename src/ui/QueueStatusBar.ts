@@ -0,0 +1,231 @@
+/**
+ * QueueStatusBar — status bar item with the queue and quota state at a
+ * glance: pending prompts, time until the next delivery, 5h window usage
+ * and the countdown to the window reset. Turns yellow at
+ * usage.quotaAlertThreshold and red when the window is used up. Clicking it
+ * opens a quick pick with the main queue actions.
+ */
+import * as vscode from "vscode";
+import { countByScope, QueueItem, QueueStore } from "../queue/QueueStore";
+import { QueueProcessor } from "../queue/QueueProcessor";
+import { UsageService } from "../usage/UsageService";
+import { QuotaLevel, quotaLevel, usagePercent } from "../util/quota";
+import { formatCountdown, formatDisplayTime } from "../util/time";
+
+/** Countdowns are shown in minutes; refresh a few times per minute. */
+const UPDATE_INTERVAL_MS = 30_000;
+
+const LEVEL_COLORS: Record<QuotaLevel, string | undefined> = {
+  ok: undefined,
+  warning: "statusBarItem.warningBackground",
+  exhausted: "statusBarItem.errorBackground",
+};
+
+export interface StatusBarState {
+  /** Pending prompts this window delivers (its workspace plus global). */
+  pending: number;
+  paused: boolean;
+  /** Earliest notBefore of those prompts. */
+  nextDelivery?: Date;
+  /** 5h window usage in percent (undefined without claude.tokenLimit5h). */
+  usagePercent?: number;
+  /** When the current rate-limit window resets. */
+  windowEnd?: Date;
+}
+
+/** `$(clock) 3 · next 12m · 5h 64% · reset 1h20m` */
+export function statusBarText(
+  state: StatusBarState,
+  now = new Date(),
+): string {
+  const parts = [
+    `${state.paused ? "$(debug-pause)" : "$(clock)"} ${state.pending}`,
+  ];
+  if (state.paused) {
+    parts.push("paused");
+  } else if (state.pending > 0 && state.nextDelivery) {
+    const ms = state.nextDelivery.getTime() - now.getTime();
+    parts.push(ms <= 0 ? "due" : `next ${formatCountdown(ms)}`);
+  }
+  if (state.usagePercent !== undefined) {
+    parts.push(`5h ${state.usagePercent}%`);
+  }
+  if (state.windowEnd && state.windowEnd.getTime() > now.getTime()) {
+    parts.push(
+      `reset ${formatCountdown(state.windowEnd.getTime() - now.getTime())}`,
+    );
+  }
+  return parts.join(" · ");
+}
+
+/** Earliest notBefore among pending items for `folders` or global. */
+export function nextDeliveryTime(
+  items: QueueItem[],
+  folders: readonly string[],
+): Date | undefined {
+  let next: number | undefined;
+  for (const item of items) {
+    if (
+      item.processed ||
+      (item.workspaceFolder && !folders.includes(item.workspaceFolder))
+    ) {
+      continue;
+    }
+    const at = Date.parse(item.notBefore);
+    if (!isNaN(at) && (next === undefined || at < next)) {
+      next = at;
+    }
+  }
+  return next === undefined ? undefined : new Date(next);
+}
+
+export class QueueStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly disposables: vscode.Disposable[] = [];
+  private readonly timer: ReturnType<typeof setInterval>;
+
+  constructor(
+    private readonly store: QueueStore,
+    private readonly processor: QueueProcessor,
+    private readonly usage: UsageService,
+  ) {
+    this.item = vscode.window.createStatusBarItem(
+      "promptQueue.status",
+      vscode.StatusBarAlignment.Left,
+    );
+    this.item.name = "Prompt Queue";
+    this.item.command = "promptQueue.statusBarMenu";
+
+    this.disposables.push(
+      store.onDidChange(() => this.update()),
+      processor.onDidChange(() => this.update()),
+      usage.onDidChange(() => this.update()),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration("promptQueue.statusBar") ||
+          e.affectsConfiguration("claude.tokenLimit5h") ||
+          e.affectsConfiguration("usage.quotaAlertThreshold")
+        ) {
+          this.update();
+        }
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.update()),
+    );
+    // Countdowns tick, and other windows change the shared queue.
+    this.timer = setInterval(() => this.update(), UPDATE_INTERVAL_MS);
+    this.update();
+  }
+
+  update(): void {
+    if (
+      !vscode.workspace
+        .getConfiguration("promptQueue")
+        .get<boolean>("statusBar", true)
+    ) {
+      this.item.hide();
+      return;
+    }
+    const folders = (vscode.workspace.workspaceFolders ?? []).map(
+      (f) => f.uri.fsPath,
+    );
+    const items = this.store.getAll();
+    const usage = this.usage.getCached();
+    const limit5h = vscode.workspace
+      .getConfiguration("claude")
+      .get<number>("tokenLimit5h", 0);
+    const threshold = vscode.workspace
+      .getConfiguration("usage")
+      .get<number>("quotaAlertThreshold", 80);
+    const counts = countByScope(items, folders);
+
+    const state: StatusBarState = {
+      pending: counts.workspace + counts.global,
+      paused: this.processor.isPaused(),
+      nextDelivery: nextDeliveryTime(items, folders),
+      usagePercent: usage
+        ? usagePercent(usage.bestTokensLast5h, limit5h)
+        : undefined,
+      windowEnd: usage?.bestWindowEnd,
+    };
+    const level = quotaLevel(state.usagePercent, threshold);
+
+    this.item.text = statusBarText(state);
+    this.item.tooltip = tooltip(state, level, limit5h);
+    const color = LEVEL_COLORS[level];
+    this.item.backgroundColor = color
+      ? new vscode.ThemeColor(color)
+      : undefined;
+    this.item.show();
+  }
+
+  /** Quick pick with the main queue actions (the item's click command). */
+  async showMenu(): Promise<void> {
+    const actions: (vscode.QuickPickItem & { command: string })[] = [
+      {
+        label: "$(play) Process Queue Now",
+        description: "deliver due prompts",
+        command: "promptQueue.processNow",
+      },
+      {
+        label: this.processor.isPaused()
+          ? "$(debug-start) Resume Queue Processing"
+          : "$(debug-pause) Pause Queue Processing",
+        command: "promptQueue.togglePause",
+      },
+      {
+        label: "$(watch) I'm Rate Limited",
+        description: "queue a prompt for when the limit resets",
+        command: "promptQueue.imRateLimited",
+      },
+      {
+        label: "$(refresh) Refresh Usage",
+        command: "usage.refresh",
+      },
+    ];
+    const picked = await vscode.window.showQuickPick(actions, {
+      title: "Prompt Queue",
+      placeHolder: this.item.text.replace(/\$\([\w-]+\)\s*/g, ""),
+    });
+    if (picked) {
+      await vscode.commands.executeCommand(picked.command);
+    }
+  }
+
+  dispose(): void {
+    clearInterval(this.timer);
+    this.disposables.forEach((d) => d.dispose());
+    this.item.dispose();
+  }
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+function tooltip(
+  state: StatusBarState,
+  level: QuotaLevel,
+  limit5h: number,
+): string {
+  const lines = [
+    `Prompt Queue — ${state.pending} pending${state.paused ? " (paused)" : ""}`,
+  ];
+  if (state.pending > 0 && state.nextDelivery) {
+    lines.push(`Next delivery: ${formatDisplayTime(state.nextDelivery)}`);
+  }
+  if (state.usagePercent !== undefined) {
+    const note = {
+      ok: "",
+      warning: " — above the alert threshold",
+      exhausted: " — limit reached",
+    }[level];
+    lines.push(
+      `5h window: ${state.usagePercent}% of ${limit5h.toLocaleString()} tokens${note}`,
+    );
+  } else {
+    lines.push("5h window: set claude.tokenLimit5h to see usage");
+  }
+  if (state.windowEnd) {
+    lines.push(`Window resets: ${formatDisplayTime(state.windowEnd)}`);
+  }
+  lines.push("", "Click for queue actions");
+  return lines.join("\n");
+}
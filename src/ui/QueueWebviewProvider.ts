@@ -3,12 +3,68 @@ import * as nodeCrypto from "crypto";
 import {
   QueueStore,
   QueueItem,
+  QueuePriority,
+  QueueScope,
   DeliveryLogEntry,
-  isValidQueueItemShape,
+  DependencyStatus,
+  PromptContext,
+  getDependencyStatus,
+  countByScope,
+  WINDOW_RESET_BUFFER_MS,
+  workspaceFolderForScope,
 } from "../queue/QueueStore";
 import { QueueProcessor } from "../queue/QueueProcessor";
+import { PromptFileAfterDelivery } from "../queue/PromptFolderWatcher";
+import {
+  parseExport,
+  QueueSchemaError,
+  serializeExport,
+  validateQueueItem,
+} from "../queue/schema";
+import { deliveryVariables } from "../templates/promptTemplates";
+import { TemplateLibrary } from "../templates/TemplateLibrary";
+import {
+  DELIVERED_FIELD,
+  ExchangeFormat,
+  exportContext,
+  exportScope,
+  formatForPath,
+  ImportRecord,
+  MergeStrategy,
+  parseCsvQueue,
+  parseMarkdownQueue,
+  planMerge,
+  rebaseTimes,
+  resolveScope,
+  serializeCsvQueue,
+  serializeMarkdownQueue,
+} from "../queue/exchange";
+import { UsageService } from "../usage/UsageService";
+import {
+  readLastUserPrompt,
+  resolveSessionTarget,
+  SessionMode,
+} from "../util/claudeSessions";
 import { generateShortId } from "../util/crypto";
-import { addMinutes, formatDisplayTime, isOverdue } from "../util/time";
+import { setFrontmatterField } from "../util/frontmatter";
+import { readText, writeText } from "../util/fs";
+import {
+  addMinutes,
+  formatDisplayTime,
+  isOverdue,
+  parseScheduleInput,
+} from "../util/time";
+import {
+  describeRecurrence,
+  isValidRecurrence,
+  nextOccurrence,
+} from "../util/recurrence";
+import {
+  ContextDelivery,
+  contextLabel,
+  editorContext,
+  isValidPromptContext,
+} from "../util/promptContext";
 
 // ── Message types (webview → extension) ───────────────────────────────────────
 type InMsg =
@@ -16,36 +72,106 @@ type InMsg =
   | { type: "triggerRateLimitCommand" }
   | { type: "pasteClipboard" }
   | { type: "useSelection" }
-  | { type: "queuePrompt"; promptText: string; delayMinutes: number }
+  | { type: "useLastSessionPrompt" }
+  | { type: "useTemplate" }
+  | {
+      type: "queuePrompt";
+      promptText: string;
+      delayMinutes: number;
+      /** Free-form schedule ("tomorrow 9am") — takes precedence over delayMinutes. */
+      scheduleText?: string;
+      /** "windowReset" = follow the detected window end (takes precedence over both). */
+      scheduleMode?: "windowReset";
+      /** Claude session to deliver into; absent = promptQueue.defaultSessionMode. */
+      sessionMode?: SessionMode;
+      /** Delivery target id; absent = promptQueue.defaultTarget. */
+      target?: string;
+      /** Absent = promptQueue.defaultScope. */
+      scope?: QueueScope;
+      priority?: QueuePriority;
+      dependsOn?: string[];
+      /** Untrusted — validated with isValidRecurrence. */
+      recurrence?: unknown;
+      /** Attached file reference. Untrusted — validated with isValidPromptContext. */
+      context?: unknown;
+    }
   | { type: "deleteItem"; id: string }
   | { type: "processNow" }
   | { type: "forceSend"; id: string }
   | { type: "snoozeItem"; id: string; minutes: number }
-  | { type: "editItem"; id: string; promptText: string; notBefore: string }
+  | {
+      type: "editItem";
+      id: string;
+      promptText: string;
+      notBefore: string;
+      priority?: QueuePriority;
+    }
+  | { type: "reorderItems"; ids: string[] }
+  | { type: "stopRecurrence"; id: string }
+  | { type: "previewSchedule"; text: string }
+  | { type: "openResponse"; itemId: string; timestamp: string }
   | { type: "exportQueue" }
   | { type: "importQueue" }
+  | { type: "openHistory" }
   | { type: "togglePause" };
 
 // ── Message types (extension → webview) ───────────────────────────────────────
 type OutMsg =
-  | { type: "textLoaded"; text: string }
+  | {
+      type: "textLoaded";
+      text: string;
+      /** File reference to attach as well (see prefill). */
+      context?: PromptContext;
+      label?: string;
+    }
+  /** File reference to attach to the prompt being written (📎 Selection). */
+  | { type: "contextLoaded"; context: PromptContext; label: string }
   | {
       type: "queueUpdated";
       items: QueueItem[];
-      deliveryLog: DeliveryLogEntry[];
+      /** Responses are omitted (they can be large) — fetched via openResponse. */
+      deliveryLog: (Omit<DeliveryLogEntry, "response" | "stderr"> & {
+        hasResponse: boolean;
+      })[];
       paused: boolean;
+      /** Dependency status per pending item id (see getDependencyStatus). */
+      dependencies: Record<string, DependencyStatus>;
+      /** Human-readable repeat rule per recurring item id. */
+      recurrenceLabels: Record<string, string>;
+      /** Detected end of the current rate-limit window (ISO), if any. */
+      windowEnd?: string;
+      /** Reason per item id held back by the quota gate. */
+      quotaHolds: Record<string, string>;
+      /** Registered delivery targets, for the Target select and card labels. */
+      targets: { id: string; name: string }[];
+      /** Target used by items without one (promptQueue.defaultTarget). */
+      defaultTarget: string;
+      /** This window's workspace folders — items for them form the "workspace" scope. */
+      workspaceFolders: string[];
+      defaultScope: QueueScope;
     }
   | { type: "queued" }
+  | {
+      type: "schedulePreview";
+      text: string;
+      /** Resolved ISO time, absent when the text is not understood. */
+      at?: string;
+      error?: string;
+    }
   | { type: "toast"; level: "info" | "warn" | "error"; message: string };
 
 export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "promptQueueView";
   private _view?: vscode.WebviewView;
+  /** Form contents waiting for the view to load (see prefill). */
+  private pendingPrefill?: OutMsg;
 
   constructor(
     private readonly store: QueueStore,
     private readonly processor: QueueProcessor,
+    private readonly usageService: UsageService,
     private readonly log: vscode.OutputChannel,
+    private readonly templates: TemplateLibrary,
   ) {}
 
   resolveWebviewView(
@@ -73,6 +199,7 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     });
 
     this.processor.onDidChange(() => this.sendQueue());
+    this.usageService.onDidChange(() => this.sendQueue());
   }
 
   /** Force a queue-list refresh from outside (e.g. after command-palette queue). */
@@ -81,11 +208,36 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Export pending queue items to a JSON file chosen by the user.
-   * Machine-specific fields (workspaceFolder, targetTerminalName, deliveryAttempts)
-   * are stripped so the export is portable across machines.
+   * Reveal the queue form with `text` — and a file reference — filled in,
+   * for the Explorer, editor, SCM and CodeLens entry points.
    */
-  async exportQueue(): Promise<void> {
+  async prefill(text: string, context?: PromptContext): Promise<void> {
+    const msg: OutMsg = {
+      type: "textLoaded",
+      text,
+      ...(context ? { context, label: referenceLabel(context) } : {}),
+    };
+    if (this._view) {
+      this.post(msg);
+    } else {
+      // Not loaded yet — sent once the webview reports ready.
+      this.pendingPrefill = msg;
+    }
+    await vscode.commands.executeCommand(
+      `${QueueWebviewProvider.viewType}.focus`,
+    );
+  }
+
+  /**
+   * Export pending queue items to `target` or a file chosen by the user.
+   * The format follows the extension: .md (one frontmatter section per
+   * prompt), .csv, or versioned JSON (see serializeExport).
+   * Machine-specific fields (workspaceFolder, targetTerminalName, deliveryAttempts,
+   * sourceFile) are stripped so the export is portable across machines; the
+   * scope (workspace or global) is kept in place of workspaceFolder, and
+   * file references are made relative to it (exportContext).
+   */
+  async exportQueue(target?: vscode.Uri): Promise<void> {
     const items = this.store.getPending();
     if (items.length === 0) {
       vscode.window.showInformationMessage(
@@ -93,97 +245,347 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       );
       return;
     }
-    const uri = await vscode.window.showSaveDialog({
-      defaultUri: vscode.Uri.file("prompt-queue-export.json"),
-      filters: { JSON: ["json"] },
-      title: "Export Prompt Queue",
-    });
+    const uri =
+      target ??
+      (await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file("prompt-queue-export.json"),
+        filters: EXCHANGE_FILTERS,
+        title: "Export Prompt Queue",
+      }));
     if (!uri) {
       return;
     }
     // Strip machine-specific fields — they won't transfer to another workspace.
-    const portable = items.map(
+    const portable = items.map((item) => {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      ({
+      const {
         workspaceFolder: _wf,
         targetTerminalName: _tn,
         deliveryAttempts: _da,
+        lease: _ls,
+        sourceFile: _sf,
         ...rest
-      }) => rest,
-    );
-    await vscode.workspace.fs.writeFile(
-      uri,
-      Buffer.from(JSON.stringify(portable, null, 2), "utf8"),
-    );
+      } = item;
+      return {
+        ...rest,
+        scope: exportScope(item),
+        context: exportContext(item),
+      };
+    });
+    const format = formatForPath(uri.path);
+    const content =
+      format === "markdown"
+        ? serializeMarkdownQueue(items)
+        : format === "csv"
+          ? serializeCsvQueue(items)
+          : serializeExport(portable);
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
     vscode.window.showInformationMessage(
       `PromptQueue: Exported ${items.length} item(s).`,
     );
   }
 
   /**
-   * Import queue items from a JSON file chosen by the user.
-   * - Validates required fields (id, promptText, notBefore) before inserting.
-   * - Resets machine-specific fields to safe defaults for the current machine.
-   * - Skips duplicates (same id already in store).
+   * Import queue items from `source` (e.g. the Explorer context menu) or a
+   * file chosen by the user — JSON, Markdown or CSV (by extension).
+   * - Accepts every JSON export version; older files are migrated (parseExport).
+   * - Validates every field before inserting; invalid items are skipped and
+   *   their errors listed in the output channel.
+   * - Items whose id is already queued are skipped, overwritten or added
+   *   with a new id, as the user chooses; times can be shifted so the first
+   *   prompt is due at a chosen time.
+   * - Resets machine-specific fields to safe defaults for the current machine;
+   *   global items stay global, workspace items join the file's workspace.
    */
-  async importQueue(): Promise<void> {
-    const uris = await vscode.window.showOpenDialog({
-      canSelectMany: false,
-      filters: { JSON: ["json"] },
-      title: "Import Prompt Queue",
-    });
-    if (!uris || uris.length === 0) {
+  async importQueue(source?: vscode.Uri): Promise<void> {
+    let uri = source;
+    if (!uri) {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: EXCHANGE_FILTERS,
+        title: "Import Prompt Queue",
+      });
+      uri = uris?.[0];
+    }
+    if (!uri) {
       return;
     }
-    const content = await vscode.workspace.fs.readFile(uris[0]);
-    let rawItems: unknown[];
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+      "utf8",
+    );
+    let records: ImportRecord[];
     try {
-      const parsed: unknown = JSON.parse(Buffer.from(content).toString("utf8"));
-      if (!Array.isArray(parsed)) {
-        throw new Error("not an array");
+      records = readImportRecords(text, formatForPath(uri.path));
+    } catch (err) {
+      if (!(err instanceof QueueSchemaError)) {
+        throw err;
       }
-      rawItems = parsed;
-    } catch {
       this.post({
         type: "toast",
         level: "error",
-        message: "Invalid JSON file — expected an array of queue items.",
+        message: `Cannot import: ${err.message}`,
       });
       return;
     }
 
-    const existing = new Set(this.store.getAll().map((i) => i.id));
-    let added = 0;
-    for (const raw of rawItems) {
-      if (!isValidQueueItemShape(raw) || existing.has(raw.id)) {
+    // Workspace items go to the folder of the imported file.
+    const folder = (
+      vscode.workspace.getWorkspaceFolder(uri) ??
+      vscode.workspace.workspaceFolders?.[0]
+    )?.uri.fsPath;
+    const valid: QueueItem[] = [];
+    const invalid: string[] = [];
+    let invalidItems = 0;
+    for (const read of records) {
+      const record = resolveScope(read, folder ? [folder] : []);
+      const result = validateQueueItem(record.raw);
+      const errors = [...record.errors, ...(result.ok ? [] : result.errors)];
+      if (result.ok && errors.length === 0) {
+        valid.push(result.item);
         continue;
       }
-      await this.store.add({
-        ...raw,
-        processed: false,
-        deliveryAttempts: 0,
-        // Reset machine-specific routing to safe defaults for the current machine.
-        workspaceFolder:
-          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "",
-        targetTerminalName: undefined,
-      });
-      added++;
+      const id = record.raw?.id;
+      const label = `${record.label}${typeof id === "string" ? ` (${id})` : ""}`;
+      invalid.push(...errors.map((e) => `${label} ${e}`));
+      invalidItems++;
+    }
+    invalid.forEach((e) =>
+      this.log.appendLine(`[QueueWebviewProvider] Import: ${e}`),
+    );
+    if (valid.length === 0) {
+      await this.reportImportProblems(
+        "PromptQueue: Nothing imported",
+        invalidItems,
+        invalid,
+      );
+      return;
+    }
+
+    const queued = this.store.getAll();
+    const existingIds = new Set(queued.map((i) => i.id));
+    const conflicts = valid.filter((i) => existingIds.has(i.id)).length;
+    let strategy: MergeStrategy = "skip";
+    if (conflicts > 0) {
+      const picked = await vscode.window.showQuickPick(
+        [
+          {
+            label: "Skip",
+            description: "keep the queued prompts",
+            strategy: "skip" as const,
+          },
+          {
+            label: "Overwrite",
+            description: "replace the queued prompts with the imported ones",
+            strategy: "overwrite" as const,
+          },
+          {
+            label: "Duplicate",
+            description: "add the imported prompts with new ids",
+            strategy: "duplicate" as const,
+          },
+        ],
+        {
+          title: `${conflicts} imported prompt(s) are already queued`,
+          placeHolder: "What should happen to them?",
+          ignoreFocusOut: true,
+        },
+      );
+      if (!picked) {
+        return;
+      }
+      strategy = picked.strategy;
+    }
+
+    const firstAt = await this.askRebaseTime(valid);
+    if (firstAt === null) {
+      return;
+    }
+    const timed = firstAt ? rebaseTimes(valid, firstAt) : valid;
+
+    // Reset machine-specific routing to safe defaults for the current machine.
+    const local = (item: QueueItem): QueueItem => ({
+      ...item,
+      processed: false,
+      deliveryAttempts: 0,
+      // Let the store append imported items after the local ones.
+      position: undefined,
+      targetTerminalName: undefined,
+      lease: undefined,
+    });
+    const plan = planMerge(timed, existingIds, strategy);
+    for (const item of plan.add) {
+      await this.store.add(local(item));
+    }
+    for (const item of plan.replace) {
+      await this.store.replace(local(item));
     }
     this.sendQueue();
-    const skipped = rawItems.length - added;
-    vscode.window.showInformationMessage(
-      `PromptQueue: Imported ${added} item(s)${skipped > 0 ? ` (${skipped} skipped — invalid or duplicate)` : ""}.`,
+
+    const summary =
+      `PromptQueue: Imported ${plan.add.length + plan.replace.length} item(s)` +
+      (plan.replace.length > 0 ? ` (${plan.replace.length} overwritten)` : "") +
+      (plan.skipped.length > 0
+        ? `, ${plan.skipped.length} already queued`
+        : "");
+    if (invalid.length === 0) {
+      vscode.window.showInformationMessage(`${summary}.`);
+      return;
+    }
+    await this.reportImportProblems(summary, invalidItems, invalid);
+  }
+
+  /**
+   * Keep the prompt file of an item deleted in the panel from queueing it
+   * again: annotate it as delivered (promptFolderAfterDelivery "annotate"),
+   * or move it to the trash once the user agrees — deleting it for good
+   * only after asking again where there is no trash. False when the user
+   * cancels or the file cannot be changed; the item is then kept.
+   */
+  private async dropSourceFile(sourceFile: string): Promise<boolean> {
+    const uri = vscode.Uri.file(sourceFile);
+    const label = vscode.workspace.asRelativePath(uri);
+    const mode = vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<PromptFileAfterDelivery>("promptFolderAfterDelivery", "move");
+    try {
+      if (mode === "annotate") {
+        const text = await readText(uri);
+        await writeText(
+          uri,
+          setFrontmatterField(text, DELIVERED_FIELD, new Date().toISOString()),
+        );
+        this.post({
+          type: "toast",
+          level: "info",
+          message: `Marked ${label} delivered, so it is not queued again.`,
+        });
+        return true;
+      }
+      const answer = await vscode.window.showWarningMessage(
+        `Delete this prompt and move ${label} to the trash? Left in the prompt folder, the file would queue it again.`,
+        { modal: true },
+        "Move to Trash",
+      );
+      if (answer !== "Move to Trash") {
+        return false;
+      }
+      try {
+        await vscode.workspace.fs.delete(uri, { useTrash: true });
+      } catch (err) {
+        if (isFileNotFound(err)) {
+          return true;
+        }
+        this.log.appendLine(
+          `[QueueWebviewProvider] Cannot move ${label} to the trash: ${err}`,
+        );
+        const again = await vscode.window.showWarningMessage(
+          `${label} cannot be moved to the trash. Delete it permanently?`,
+          { modal: true },
+          "Delete Permanently",
+        );
+        if (again !== "Delete Permanently") {
+          return false;
+        }
+        await vscode.workspace.fs.delete(uri);
+      }
+      return true;
+    } catch (err) {
+      // Already gone: nothing will queue the prompt again.
+      if (isFileNotFound(err)) {
+        return true;
+      }
+      this.log.appendLine(
+        `[QueueWebviewProvider] Cannot ${mode === "annotate" ? "annotate" : "delete"} ${label}: ${err}`,
+      );
+      this.post({
+        type: "toast",
+        level: "error",
+        message: `Not deleted: ${label} could not be changed, and would queue the prompt again.`,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Ask whether to keep the imported times or shift them. Returns the new
+   * time of the earliest item, undefined to keep times, null if cancelled.
+   */
+  private async askRebaseTime(items: QueueItem[]): Promise<Date | null | undefined> {
+    const earliest = new Date(
+      Math.min(...items.map((i) => Date.parse(i.notBefore))),
     );
+    const choice = await vscode.window.showQuickPick(
+      [
+        {
+          label: "Keep scheduled times",
+          description: `first prompt due ${formatDisplayTime(earliest)}`,
+          rebase: false,
+        },
+        {
+          label: "Shift times…",
+          description: "choose when the first prompt is due; gaps are kept",
+          rebase: true,
+        },
+      ],
+      { title: "Import Prompt Queue", ignoreFocusOut: true },
+    );
+    if (!choice) {
+      return null;
+    }
+    if (!choice.rebase) {
+      return undefined;
+    }
+    const input = await vscode.window.showInputBox({
+      prompt:
+        "When should the first prompt be due? Minutes from now (0 = now), " +
+        'a time (22:00), "tomorrow 9am" or an ISO timestamp',
+      value: "0",
+      validateInput: (v) => {
+        const at = parseScheduleInput(v);
+        return at
+          ? {
+              message: `→ First prompt due ${formatDisplayTime(at)}`,
+              severity: vscode.InputBoxValidationSeverity.Info,
+            }
+          : 'Enter minutes (30), a time (22:00), "tomorrow 9am" or an ISO timestamp';
+      },
+      ignoreFocusOut: true,
+    });
+    if (input === undefined) {
+      return null;
+    }
+    return parseScheduleInput(input) ?? null;
+  }
+
+  private async reportImportProblems(
+    summary: string,
+    invalidItems: number,
+    problems: string[],
+  ): Promise<void> {
+    const answer = await vscode.window.showWarningMessage(
+      `${summary}; ${invalidItems} invalid item(s) skipped — first problem: ${problems[0]}`,
+      "Show All",
+    );
+    if (answer === "Show All") {
+      this.log.show(true);
+    }
   }
 
   private updateBadge(): void {
     if (!this._view) {
       return;
     }
-    const pending = this.store.getPending().length;
+    // Count what this window delivers: its workspace plus global items.
+    const counts = countByScope(this.store.getAll(), windowFolders());
+    const mine = counts.workspace + counts.global;
+    const others =
+      counts.other > 0 ? ` · ${counts.other} in other workspaces` : "";
     this._view.badge =
-      pending > 0
-        ? { value: pending, tooltip: `${pending} prompt(s) queued` }
+      mine > 0
+        ? {
+            value: mine,
+            tooltip: `${counts.workspace} prompt(s) for this workspace · ${counts.global} global${others}`,
+          }
         : undefined;
   }
 
@@ -195,11 +597,27 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
 
   private sendQueue(): void {
     this.updateBadge();
+    const { items, deliveryLog, dependencies, recurrenceLabels } =
+      queueView(this.store);
     this.post({
       type: "queueUpdated",
-      items: this.store.getAll(),
-      deliveryLog: this.store.getDeliveryLog(),
+      items,
+      deliveryLog: deliveryLog.map(({ response, stderr, ...entry }) => ({
+        ...entry,
+        hasResponse: response !== undefined || stderr !== undefined,
+      })),
       paused: this.processor.isPaused(),
+      dependencies,
+      recurrenceLabels,
+      windowEnd: this.usageService.getCached()?.bestWindowEnd?.toISOString(),
+      quotaHolds: this.processor.getQuotaHolds(),
+      targets: this.processor
+        .getTargets()
+        .list()
+        .map(({ id, name }) => ({ id, name })),
+      defaultTarget: this.processor.getTargets().defaultTargetId(),
+      workspaceFolders: windowFolders(),
+      defaultScope: defaultScope(),
     });
   }
 
@@ -207,6 +625,10 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     switch (msg.type) {
       case "ready":
         this.sendQueue();
+        if (this.pendingPrefill) {
+          this.post(this.pendingPrefill);
+          this.pendingPrefill = undefined;
+        }
         break;
 
       case "triggerRateLimitCommand":
@@ -237,6 +659,22 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
           });
           return;
         }
+        // A selection in a file on disk is attached as a reference; an
+        // untitled scratch buffer is taken as the prompt text.
+        const context = editorContext(
+          editor,
+          vscode.workspace
+            .getConfiguration("promptQueue")
+            .get<ContextDelivery>("contextDelivery", "mention") === "snapshot",
+        );
+        if (context) {
+          this.post({
+            type: "contextLoaded",
+            context,
+            label: referenceLabel(context),
+          });
+          return;
+        }
         this.post({
           type: "textLoaded",
           text: editor.document.getText(editor.selection),
@@ -244,8 +682,41 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
         break;
       }
 
+      case "useLastSessionPrompt": {
+        const workspacePath =
+          vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const text = workspacePath
+          ? readLastUserPrompt(workspacePath)
+          : undefined;
+        if (!text) {
+          this.post({
+            type: "toast",
+            level: "warn",
+            message: "No prompt found in the latest Claude session.",
+          });
+          return;
+        }
+        this.post({ type: "textLoaded", text });
+        break;
+      }
+
+      case "useTemplate": {
+        const template = await this.templates.pick();
+        const text = template && (await this.templates.expand(template));
+        if (text !== undefined) {
+          this.post({ type: "textLoaded", text });
+        }
+        break;
+      }
+
       case "queuePrompt": {
-        const { promptText, delayMinutes } = msg;
+        const { promptText, delayMinutes, priority } = msg;
+        // Only keep prerequisites that are still pending — a stale parent id
+        // from the webview would block the new item forever.
+        const pendingIds = new Set(this.store.getPending().map((i) => i.id));
+        const dependsOn = (msg.dependsOn ?? []).filter((id) =>
+          pendingIds.has(id),
+        );
         if (!promptText.trim()) {
           this.post({
             type: "toast",
@@ -254,16 +725,105 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
           });
           return;
         }
+        if (msg.recurrence !== undefined && !isValidRecurrence(msg.recurrence)) {
+          this.post({
+            type: "toast",
+            level: "warn",
+            message: "Invalid repeat rule.",
+          });
+          return;
+        }
+        if (msg.context !== undefined && !isValidPromptContext(msg.context)) {
+          this.post({
+            type: "toast",
+            level: "warn",
+            message: "Invalid file reference.",
+          });
+          return;
+        }
+        if (msg.target && !this.processor.getTargets().get(msg.target)) {
+          this.post({
+            type: "toast",
+            level: "warn",
+            message: `Unknown delivery target "${msg.target}".`,
+          });
+          return;
+        }
+        const recurrence = msg.recurrence;
         const now = new Date();
+        let scheduled = addMinutes(now, delayMinutes);
+        const windowEnd = this.usageService.getCached()?.bestWindowEnd;
+        if (msg.scheduleMode === "windowReset") {
+          if (!windowEnd) {
+            this.post({
+              type: "toast",
+              level: "warn",
+              message:
+                "No active rate-limit window detected — refresh usage or pick a time.",
+            });
+            return;
+          }
+          scheduled = new Date(windowEnd.getTime() + WINDOW_RESET_BUFFER_MS);
+        } else if (msg.scheduleText !== undefined) {
+          const parsed = parseScheduleInput(msg.scheduleText, now);
+          if (!parsed || parsed.getTime() < now.getTime()) {
+            this.post({
+              type: "toast",
+              level: "warn",
+              message: parsed
+                ? "That time is in the past."
+                : `Could not understand "${msg.scheduleText}".`,
+            });
+            return;
+          }
+          scheduled = parsed;
+        }
+        // Wall-clock rules (daily, weekdays, cron) start at their next
+        // occurrence; interval rules start at the chosen time.
+        const firstRun =
+          recurrence && recurrence.kind !== "interval"
+            ? nextOccurrence(recurrence, now)
+            : scheduled;
+        if (!firstRun) {
+          this.post({
+            type: "toast",
+            level: "warn",
+            message: "That repeat rule never fires.",
+          });
+          return;
+        }
+        const workspaceFolder = workspaceFolderForScope(
+          msg.scope ?? defaultScope(),
+          windowFolders(),
+        );
+        const session = resolveSessionTarget(
+          msg.sessionMode ??
+            vscode.workspace
+              .getConfiguration("promptQueue")
+              .get<SessionMode>("defaultSessionMode", "new"),
+          workspaceFolder,
+        );
+        const deferred = deliveryVariables(promptText);
         const item: QueueItem = {
           id: generateShortId(),
           createdAt: now.toISOString(),
-          notBefore: addMinutes(now, delayMinutes).toISOString(),
+          notBefore: firstRun.toISOString(),
           promptText,
-          workspaceFolder:
-            vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "",
+          workspaceFolder,
           processed: false,
-          targetTerminalName: vscode.window.activeTerminal?.name,
+          targetTerminalName: this.processor
+            .getTargets()
+            .terminalHint(msg.target),
+          priority: priority ?? "normal",
+          ...(dependsOn.length > 0 ? { dependsOn } : {}),
+          ...(recurrence ? { recurrence } : {}),
+          ...(msg.scheduleMode === "windowReset" && !recurrence
+            ? { scheduleMode: "windowReset" as const }
+            : {}),
+          ...(session.sessionMode !== "new" ? session : {}),
+          ...(msg.target ? { target: msg.target } : {}),
+          ...(deferred.length > 0 ? { deliveryVariables: deferred } : {}),
+          ...(msg.context ? { context: msg.context } : {}),
         };
         await this.store.add(item);
         this.log.appendLine(
@@ -277,10 +837,17 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
         break;
       }
 
-      case "deleteItem":
+      case "deleteItem": {
+        const sourceFile = this.store
+          .getAll()
+          .find((i) => i.id === msg.id)?.sourceFile;
+        if (sourceFile && !(await this.dropSourceFile(sourceFile))) {
+          break;
+        }
         await this.store.remove(msg.id);
         this.sendQueue();
         break;
+      }
 
       case "processNow": {
         const count = await this.processor.process();
@@ -315,9 +882,11 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
           Math.max(Date.now(), new Date(item.notBefore).getTime()),
         );
         // Reset deliveryAttempts: user is rescheduling, so start fresh.
+        // A fixed time replaces any "at window reset" schedule.
         await this.store.update(msg.id, {
           notBefore: addMinutes(base, msg.minutes).toISOString(),
           deliveryAttempts: 0,
+          scheduleMode: undefined,
         });
         this.sendQueue();
         break;
@@ -332,16 +901,80 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
           });
           return;
         }
+        // A changed time (the form has minute precision) pins an item that
+        // was following the window reset.
+        const current = this.store.getAll().find((i) => i.id === msg.id);
+        const timeChanged =
+          !current ||
+          Math.abs(
+            new Date(msg.notBefore).getTime() -
+              new Date(current.notBefore).getTime(),
+          ) >= 60_000;
+        const deferred = deliveryVariables(msg.promptText);
         // Reset deliveryAttempts: user is manually rescheduling, so start fresh.
         await this.store.update(msg.id, {
           promptText: msg.promptText,
+          deliveryVariables: deferred.length > 0 ? deferred : undefined,
           notBefore: msg.notBefore,
           deliveryAttempts: 0,
+          ...(timeChanged ? { scheduleMode: undefined } : {}),
+          ...(msg.priority ? { priority: msg.priority } : {}),
+        });
+        this.sendQueue();
+        break;
+      }
+
+      case "openResponse": {
+        const entry = this.store
+          .getDeliveryLog()
+          .find(
+            (e) => e.itemId === msg.itemId && e.timestamp === msg.timestamp,
+          );
+        if (!entry || (entry.response === undefined && !entry.stderr)) {
+          this.post({
+            type: "toast",
+            level: "warn",
+            message: "No captured response for this delivery.",
+          });
+          return;
+        }
+        const doc = await vscode.workspace.openTextDocument({
+          language: "markdown",
+          content: formatResponseDocument(entry),
         });
+        await vscode.window.showTextDocument(doc, { preview: false });
+        break;
+      }
+
+      case "reorderItems":
+        await this.store.reorder(msg.ids);
         this.sendQueue();
         break;
+
+      case "previewSchedule": {
+        const now = new Date();
+        const at = parseScheduleInput(msg.text, now);
+        this.post({
+          type: "schedulePreview",
+          text: msg.text,
+          at: at?.toISOString(),
+          error: !msg.text.trim()
+            ? undefined
+            : !at
+              ? "not understood"
+              : at.getTime() < now.getTime()
+                ? "in the past"
+                : undefined,
+        });
+        break;
       }
 
+      case "stopRecurrence":
+        // The pending occurrence is kept and delivered once more, then removed.
+        await this.store.update(msg.id, { recurrence: undefined });
+        this.sendQueue();
+        break;
+
       case "exportQueue":
         await this.exportQueue();
         break;
@@ -350,6 +983,10 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
         await this.importQueue();
         break;
 
+      case "openHistory":
+        await vscode.commands.executeCommand("promptQueue.showHistory");
+        break;
+
       case "togglePause":
         // Delegate to command so extension.ts can persist state in globalState.
         await vscode.commands.executeCommand("promptQueue.togglePause");
@@ -671,6 +1308,129 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   .item-snooze:hover { color: var(--vscode-testing-iconPassed, #89d185); }
   .item-edit:hover   { color: var(--vscode-foreground); }
   .item-snooze { font-size: 0.78em; padding: 0 4px; }
+  .history-open {
+    background: transparent;
+    border: none;
+    cursor: pointer;
+    padding: 0 3px;
+    color: var(--vscode-textLink-foreground, #4fc1ff);
+    flex-shrink: 0;
+  }
+
+  /* ── Priority + drag-to-reorder ───────────────────────────────────────── */
+  .priority-select, .edit-priority {
+    background: var(--vscode-dropdown-background, var(--vscode-input-background));
+    color: var(--vscode-dropdown-foreground, var(--vscode-input-foreground));
+    border: 1px solid var(--vscode-dropdown-border, var(--vscode-input-border, transparent));
+    border-radius: 2px;
+    padding: 2px 4px;
+    font-family: inherit;
+    font-size: 0.85em;
+  }
+  .item-priority {
+    font-size: 0.72em;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: .04em;
+    margin-left: 6px;
+    padding: 0 4px;
+    border-radius: 2px;
+  }
+  .item-priority.high {
+    color: var(--vscode-errorForeground, #f48771);
+    border: 1px solid var(--vscode-errorForeground, #f48771);
+  }
+  .item-priority.low {
+    color: var(--vscode-descriptionForeground);
+    border: 1px solid var(--vscode-panel-border, rgba(128,128,128,.3));
+  }
+  .parent-select { flex: 1; min-width: 0; }
+  .item-deps {
+    font-size: 0.78em;
+    color: var(--vscode-descriptionForeground);
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+  .item-deps.waiting { color: var(--vscode-descriptionForeground); }
+  .item-deps.blocked { color: var(--vscode-errorForeground, #f48771); }
+  .item-deps.ready   { color: var(--vscode-testing-iconPassed, #89d185); }
+  .item-quota-hold {
+    font-size: 0.78em;
+    color: var(--vscode-editorWarning-foreground, #cca700);
+    overflow: hidden;
+    white-space: nowrap;
+    text-overflow: ellipsis;
+  }
+  .context-chip {
+    display: flex;
+    align-items: center;
+    gap: 4px;
+    font-size: 0.8em;
+    color: var(--vscode-textLink-foreground, #4fc1ff);
+    margin-bottom: 4px;
+  }
+  .context-chip[hidden] { display: none; }
+  .context-chip .label {
+    flex: 1;
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+    font-family: var(--vscode-editor-font-family, monospace);
+  }
+  .item-session, .item-target, .item-source, .item-context {
+    font-size: 0.78em;
+    color: var(--vscode-descriptionForeground);
+  }
+
+  /* ── Scope tabs / workspace groups ────────────────────────────────────── */
+  .scope-tabs {
+    display: flex;
+    gap: 2px;
+    margin-bottom: 6px;
+    border-bottom: 1px solid var(--vscode-panel-border, rgba(128,128,128,.3));
+  }
+  .scope-tab {
+    background: none;
+    border: none;
+    border-bottom: 2px solid transparent;
+    color: var(--vscode-descriptionForeground);
+    cursor: pointer;
+    font-size: 0.85em;
+    padding: 3px 6px;
+  }
+  .scope-tab.active {
+    color: var(--vscode-foreground);
+    border-bottom-color: var(--vscode-focusBorder, #007fd4);
+  }
+  .scope-tab .tab-count { opacity: .75; }
+  .queue-group {
+    font-size: 0.8em;
+    font-weight: 600;
+    color: var(--vscode-descriptionForeground);
+    margin: 8px 0 3px;
+  }
+  .item-recurrence, .item-window-reset {
+    font-size: 0.78em;
+    color: var(--vscode-textLink-foreground, #4fc1ff);
+  }
+  .recurrence-input { flex: 1; min-width: 0; width: auto; }
+  .item-stop-repeat {
+    background: transparent;
+    border: none;
+    cursor: pointer;
+    padding: 0 3px;
+    font-size: 0.78em;
+    border-radius: 2px;
+    color: var(--vscode-descriptionForeground);
+  }
+  .item-stop-repeat:hover { color: var(--vscode-foreground); }
+  .queue-item[draggable="true"] { cursor: grab; }
+  .queue-item.dragging { opacity: .4; }
+  .queue-item.drop-target {
+    border-top: 2px solid var(--vscode-focusBorder, #007acc);
+  }
 
   /* ── Inline edit form ─────────────────────────────────────────────────── */
   .edit-form { margin-top: 5px; }
@@ -788,6 +1548,8 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     <div class="mode-toggle">
       <button class="mode-btn active" id="modeDelay">In X min</button>
       <button class="mode-btn" id="modeAt">At time</button>
+      <button class="mode-btn" id="modeWhen" title="Natural language: tomorrow 9am, next monday 08:00, ISO timestamp…">When…</button>
+      <button class="mode-btn" id="modeReset" title="Deliver when the current rate-limit window resets — follows the detected window end">At reset</button>
     </div>
     <button class="btn-rl-hint" id="rlHintBtn" title="Detect rate-limit reset time from clipboard">⚡ Rate-limited?</button>
   </div>
@@ -806,9 +1568,77 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     <span class="delivery-time" id="deliveryTimeAt"></span>
   </div>
 
+  <div class="delay-row" id="rowWhen" style="display:none">
+    <input class="delay-input recurrence-input" type="text" id="whenInput" placeholder="tomorrow 9am · next mon 08:00 · 2026-05-01T09:00">
+    <span class="arrow">→</span>
+    <span class="delivery-time" id="deliveryTimeWhen"></span>
+  </div>
+
+  <div class="delay-row" id="rowReset" style="display:none">
+    <label>Window resets</label>
+    <span class="arrow">→</span>
+    <span class="delivery-time" id="deliveryTimeReset"></span>
+  </div>
+
+  <div class="delay-row" id="rowRepeat">
+    <label for="repeatSelect">Repeat</label>
+    <select class="priority-select" id="repeatSelect">
+      <option value="">Once</option>
+      <option value="interval">Every N min</option>
+      <option value="daily">Daily at</option>
+      <option value="weekdays">Weekdays at</option>
+      <option value="cron">Cron</option>
+    </select>
+    <input class="delay-input recurrence-input" type="text" id="repeatInput" style="display:none">
+  </div>
+
+  <div class="delay-row" id="rowParent">
+    <label for="parentSelect">After</label>
+    <select class="priority-select parent-select" id="parentSelect" title="Only send this prompt once the selected prompt was delivered">
+      <option value="">(no prerequisite)</option>
+    </select>
+  </div>
+
+  <div class="delay-row" id="rowSession">
+    <label for="sessionSelect">Session</label>
+    <select class="priority-select parent-select" id="sessionSelect" title="Conversation to deliver into when a new Claude terminal has to be started">
+      <option value="">Default (setting)</option>
+      <option value="new">New conversation</option>
+      <option value="continue">Continue latest</option>
+      <option value="resume">Resume current session</option>
+    </select>
+  </div>
+
+  <div class="delay-row" id="rowScope">
+    <label for="scopeSelect">Scope</label>
+    <select class="priority-select parent-select" id="scopeSelect" title="Queue for this workspace, or globally (delivered by any window)">
+      <option value="workspace">This workspace</option>
+      <option value="global">Global</option>
+    </select>
+  </div>
+
+  <div class="delay-row" id="rowTarget">
+    <label for="targetSelect">Target</label>
+    <select class="priority-select parent-select" id="targetSelect" title="Where the prompt is delivered">
+      <option value="">Default (setting)</option>
+    </select>
+  </div>
+
   <div class="prompt-toolbar">
     <button class="btn-small" id="pasteBtn">📋 Paste clipboard</button>
-    <button class="btn-small" id="selBtn">✂️ Use selection</button>
+    <button class="btn-small" id="selBtn" title="Attach the editor selection as a file reference (@path#L10-40) — in an untitled editor, use its text as the prompt">📎 Selection</button>
+    <button class="btn-small" id="lastPromptBtn" title="Last prompt typed in this workspace's newest Claude session">↩ Last prompt</button>
+    <button class="btn-small" id="templateBtn" title="Fill in a prompt template ({{file}}, {{branch}}, $ARGUMENTS…)">🧩 Template</button>
+    <select class="priority-select" id="prioritySelect" title="Delivery priority when several prompts are due at once">
+      <option value="high">High</option>
+      <option value="normal" selected>Normal</option>
+      <option value="low">Low</option>
+    </select>
+  </div>
+
+  <div class="context-chip" id="contextChip" hidden>
+    <span class="label" id="contextLabel"></span>
+    <button class="btn-icon" id="contextClearBtn" title="Remove the file reference">✕</button>
   </div>
 
   <textarea id="promptInput"
@@ -827,10 +1657,16 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     <span class="title">Queue</span>
     <span class="badge" id="pendingBadge">0</span>
     <button class="btn-icon" id="pauseBtn" title="Pause queue processing">⏸</button>
-    <button class="btn-icon" id="exportBtn" title="Export queue to JSON">⬇</button>
-    <button class="btn-icon" id="importBtn" title="Import queue from JSON">⬆</button>
+    <button class="btn-icon" id="exportBtn" title="Export queue (JSON, Markdown or CSV)">⬇</button>
+    <button class="btn-icon" id="importBtn" title="Import queue (JSON, Markdown or CSV)">⬆</button>
+    <button class="btn-icon" id="historyBtn" title="Search the full prompt history">🕘</button>
     <button class="btn-icon" id="processNowBtn" title="Process due items now">↻</button>
   </div>
+  <div class="scope-tabs" id="scopeTabs">
+    <button class="scope-tab" data-tab="workspace" title="Prompts queued for this window's workspace">This workspace <span class="tab-count"></span></button>
+    <button class="scope-tab" data-tab="global" title="Prompts not tied to a workspace">Global <span class="tab-count"></span></button>
+    <button class="scope-tab" data-tab="all" title="Everything, grouped by workspace">All <span class="tab-count"></span></button>
+  </div>
   <div id="pauseNotice" class="pause-notice" style="display:none">⏸ Queue processing paused</div>
   <div id="queueList"><div class="empty-state">No prompts queued yet.</div></div>
 </div>
@@ -851,13 +1687,31 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   const saved = vscode.getState() || {};
   let delayMinutes = saved.delayMinutes ?? 30;
   let promptText = saved.promptText ?? '';
-  let delayMode = saved.delayMode ?? 'delay'; // 'delay' | 'at'
+  let attachedContext = saved.context ?? null; // file reference for the next prompt
+  let attachedLabel = saved.contextLabel ?? '';
+  let delayMode = saved.delayMode ?? 'delay'; // 'delay' | 'at' | 'when' | 'reset'
+  let priority = saved.priority ?? 'normal'; // 'high' | 'normal' | 'low'
   let lastItems = []; // last queue snapshot, used for local re-renders
+  let lastDeps = {};  // dependency status per item id
+  let lastRecurrence = {}; // repeat rule label per item id
+  let lastLog = [];   // last delivery log snapshot
+  let windowEnd = null; // detected rate-limit window end (ISO), if any
+  let lastHolds = {}; // quota-gate reason per held item id
+  let lastTargets = []; // registered delivery targets ({ id, name })
+  let windowFolders = []; // this window's workspace folders (absolute paths)
+  let scopeTab = saved.scopeTab ?? 'workspace'; // 'workspace' | 'global' | 'all'
 
   // ── DOM refs ─────────────────────────────────────────────────────────────
   const rlHintBtn     = document.getElementById('rlHintBtn');
   const modeDelayBtn  = document.getElementById('modeDelay');
   const modeAtBtn     = document.getElementById('modeAt');
+  const modeWhenBtn   = document.getElementById('modeWhen');
+  const rowWhen       = document.getElementById('rowWhen');
+  const whenInput     = document.getElementById('whenInput');
+  const deliveryTimeWhen = document.getElementById('deliveryTimeWhen');
+  const modeResetBtn  = document.getElementById('modeReset');
+  const rowReset      = document.getElementById('rowReset');
+  const deliveryTimeReset = document.getElementById('deliveryTimeReset');
   const rowDelay      = document.getElementById('rowDelay');
   const rowAt         = document.getElementById('rowAt');
   const delayInput    = document.getElementById('delayInput');
@@ -866,13 +1720,27 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   const deliveryTimeAt= document.getElementById('deliveryTimeAt');
   const pasteBtn      = document.getElementById('pasteBtn');
   const selBtn        = document.getElementById('selBtn');
+  const lastPromptBtn = document.getElementById('lastPromptBtn');
+  const templateBtn   = document.getElementById('templateBtn');
+  const prioritySelect= document.getElementById('prioritySelect');
+  const sessionSelect = document.getElementById('sessionSelect');
+  const targetSelect  = document.getElementById('targetSelect');
+  const scopeSelect   = document.getElementById('scopeSelect');
+  const scopeTabs     = document.getElementById('scopeTabs');
+  const parentSelect  = document.getElementById('parentSelect');
+  const repeatSelect  = document.getElementById('repeatSelect');
+  const repeatInput   = document.getElementById('repeatInput');
   const promptInput   = document.getElementById('promptInput');
+  const contextChip   = document.getElementById('contextChip');
+  const contextLabel  = document.getElementById('contextLabel');
+  const contextClearBtn = document.getElementById('contextClearBtn');
   const tokenHint     = document.getElementById('tokenHint');
   const queueBtn      = document.getElementById('queueBtn');
   const pendingBadge  = document.getElementById('pendingBadge');
   const queueList     = document.getElementById('queueList');
   const pauseBtn        = document.getElementById('pauseBtn');
   const exportBtn       = document.getElementById('exportBtn');
+  const historyBtn      = document.getElementById('historyBtn');
   const importBtn       = document.getElementById('importBtn');
   const pauseNotice     = document.getElementById('pauseNotice');
   const processNowBtn   = document.getElementById('processNowBtn');
@@ -883,7 +1751,13 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   // ── Restore persisted values ─────────────────────────────────────────────
   delayInput.value  = delayMinutes;
   promptInput.value = promptText;
+  prioritySelect.value = priority;
+  renderContext();
+  sessionSelect.value = saved.sessionMode ?? '';
+  repeatInput.value = saved.repeatValue ?? '';
+  applyRepeatKind(saved.repeatKind ?? '');
   if (saved.atTime) { atTimeInput.value = saved.atTime; }
+  if (saved.whenText) { whenInput.value = saved.whenText; }
   applyMode(delayMode);
   updateDeliveryTime();
   updateDeliveryTimeAt();
@@ -897,6 +1771,13 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
 
   modeDelayBtn.addEventListener('click', () => { applyMode('delay'); persist(); });
   modeAtBtn.addEventListener('click',    () => { applyMode('at');    persist(); });
+  modeWhenBtn.addEventListener('click',  () => { applyMode('when');  persist(); requestWhenPreview(); });
+  modeResetBtn.addEventListener('click', () => { applyMode('reset'); persist(); });
+
+  whenInput.addEventListener('input', () => {
+    persist();
+    requestWhenPreview();
+  });
 
   delayInput.addEventListener('input', () => {
     delayMinutes = parseFloat(delayInput.value) || 30;
@@ -913,10 +1794,48 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     vscode.postMessage({ type: 'pasteClipboard' });
   });
 
+  lastPromptBtn.addEventListener('click', () => {
+    vscode.postMessage({ type: 'useLastSessionPrompt' });
+  });
+
   selBtn.addEventListener('click', () => {
     vscode.postMessage({ type: 'useSelection' });
   });
 
+  contextClearBtn.addEventListener('click', () => {
+    setContext(null, '');
+  });
+
+  templateBtn.addEventListener('click', () => {
+    vscode.postMessage({ type: 'useTemplate' });
+  });
+
+  repeatSelect.addEventListener('change', () => {
+    applyRepeatKind(repeatSelect.value);
+    persist();
+  });
+
+  repeatInput.addEventListener('input', () => persist());
+
+  sessionSelect.addEventListener('change', () => persist());
+
+  targetSelect.addEventListener('change', () => persist());
+
+  scopeSelect.addEventListener('change', () => persist());
+
+  scopeTabs.querySelectorAll('.scope-tab').forEach(btn => {
+    btn.addEventListener('click', () => {
+      scopeTab = btn.dataset.tab;
+      persist();
+      renderQueueItems(lastItems);
+    });
+  });
+
+  prioritySelect.addEventListener('change', () => {
+    priority = prioritySelect.value;
+    persist();
+  });
+
   promptInput.addEventListener('input', () => {
     promptText = promptInput.value;
     persist();
@@ -927,11 +1846,18 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   queueBtn.addEventListener('click', () => {
     const text = promptInput.value.trim();
     if (!text) { showToast('warn', 'Please enter a prompt.'); return; }
+    if (delayMode === 'reset' && !windowEnd) { showToast('warn', 'No rate-limit window detected — refresh usage or pick a time.'); return; }
     const delay = delayMode === 'at' ? minutesUntilTime(atTimeInput.value) : (parseFloat(delayInput.value) || 30);
     if (delay === null) { showToast('warn', 'Invalid time.'); return; }
+    const scheduleText = delayMode === 'when' ? whenInput.value.trim() : undefined;
+    const scheduleMode = delayMode === 'reset' ? 'windowReset' : undefined;
+    if (scheduleText === '') { showToast('warn', 'Enter when to deliver.'); return; }
+    const dependsOn = parentSelect.value ? [parentSelect.value] : [];
+    const recurrence = buildRecurrence();
+    if (recurrence === null) { showToast('warn', 'Enter a value for the repeat rule.'); return; }
     queueBtn.disabled = true;
     queueBtn.textContent = 'Queuing…';
-    vscode.postMessage({ type: 'queuePrompt', promptText: text, delayMinutes: delay });
+    vscode.postMessage({ type: 'queuePrompt', promptText: text, delayMinutes: delay, scheduleText, scheduleMode, sessionMode: sessionSelect.value || undefined, target: targetSelect.value || undefined, scope: scopeSelect.value, priority, dependsOn, recurrence, context: attachedContext || undefined });
   });
 
   processNowBtn.addEventListener('click', () => {
@@ -950,11 +1876,16 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     vscode.postMessage({ type: 'importQueue' });
   });
 
+  historyBtn.addEventListener('click', () => {
+    vscode.postMessage({ type: 'openHistory' });
+  });
+
   // ── Messages from extension ───────────────────────────────────────────────
   window.addEventListener('message', ({ data: msg }) => {
     switch (msg.type) {
 
       case 'textLoaded':
+        if (msg.context) { setContext(msg.context, msg.label || ''); }
         promptInput.value = msg.text;
         promptText = msg.text;
         persist();
@@ -965,15 +1896,40 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
 
       case 'queueUpdated':
         lastItems = msg.items;
+        lastDeps = msg.dependencies || {};
+        lastRecurrence = msg.recurrenceLabels || {};
+        lastLog = msg.deliveryLog || [];
+        windowEnd = msg.windowEnd || null;
+        lastHolds = msg.quotaHolds || {};
+        lastTargets = msg.targets || [];
+        renderTargetOptions(lastTargets, msg.defaultTarget);
+        windowFolders = msg.workspaceFolders || [];
+        if (!scopeSelect.dataset.ready) {
+          scopeSelect.value = saved.scope ?? msg.defaultScope ?? 'workspace';
+          scopeSelect.dataset.ready = '1';
+        }
+        updateDeliveryTimeReset();
         updatePauseState(msg.paused); // update before render so item buttons reflect current state
+        renderParentOptions(lastItems);
         renderQueueItems(lastItems);
         renderDeliveryLog(msg.deliveryLog || []);
         break;
 
+      case 'contextLoaded':
+        setContext(msg.context, msg.label);
+        promptInput.focus();
+        break;
+
       case 'queued':
         // Reset form after successful queue
         promptInput.value = '';
         promptText = '';
+        attachedContext = null;
+        attachedLabel = '';
+        renderContext();
+        parentSelect.value = '';
+        repeatInput.value = '';
+        applyRepeatKind('');
         persist();
         updateTokenHint();
         updateQueueBtn();
@@ -982,6 +1938,13 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
         showToast('info', 'Prompt queued successfully!');
         break;
 
+      case 'schedulePreview':
+        if (msg.text !== whenInput.value) { break; } // stale reply
+        deliveryTimeWhen.textContent = msg.error
+          ? '⚠ ' + msg.error
+          : msg.at ? formatTime(new Date(msg.at)) : '';
+        break;
+
       case 'toast':
         showToast(msg.level, msg.message);
         if (msg.level !== 'info') {
@@ -996,11 +1959,19 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   // ── Mode helpers ──────────────────────────────────────────────────────────
   function applyMode(mode) {
     delayMode = mode;
-    const isAt = mode === 'at';
-    rowDelay.style.display = isAt ? 'none' : '';
-    rowAt.style.display    = isAt ? '' : 'none';
-    modeDelayBtn.classList.toggle('active', !isAt);
-    modeAtBtn.classList.toggle('active',    isAt);
+    rowDelay.style.display = mode === 'delay' ? '' : 'none';
+    rowAt.style.display    = mode === 'at' ? '' : 'none';
+    rowWhen.style.display  = mode === 'when' ? '' : 'none';
+    rowReset.style.display = mode === 'reset' ? '' : 'none';
+    modeDelayBtn.classList.toggle('active', mode === 'delay');
+    modeAtBtn.classList.toggle('active',    mode === 'at');
+    modeWhenBtn.classList.toggle('active',  mode === 'when');
+    modeResetBtn.classList.toggle('active', mode === 'reset');
+  }
+
+  /** Ask the extension to resolve the free-form schedule (single parser in util/time.ts). */
+  function requestWhenPreview() {
+    vscode.postMessage({ type: 'previewSchedule', text: whenInput.value });
   }
 
   /** Returns minutes until the given "HH:MM" string (next occurrence). */
@@ -1031,6 +2002,10 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     deliveryTimeAt.textContent = formatTime(d);
   }
 
+  function updateDeliveryTimeReset() {
+    deliveryTimeReset.textContent = windowEnd ? formatTime(new Date(windowEnd)) : 'no window detected';
+  }
+
   function formatTime(d) {
     const today = new Date();
     const isToday = d.toDateString() === today.toDateString();
@@ -1057,6 +2032,73 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     queueBtn.disabled = !promptInput.value.trim();
   }
 
+  // ── Repeat rule ───────────────────────────────────────────────────────────
+  // Called while restoring state, before later const declarations run —
+  // keep the placeholders inside the function.
+  function applyRepeatKind(kind) {
+    const placeholders = {
+      interval: 'minutes, e.g. 120',
+      daily: 'HH:MM, e.g. 09:00',
+      weekdays: 'HH:MM, e.g. 09:00',
+      cron: 'm h dom mon dow, e.g. 0 9 * * 1',
+    };
+    repeatSelect.value = kind;
+    repeatInput.style.display = kind ? '' : 'none';
+    repeatInput.placeholder = placeholders[kind] || '';
+  }
+
+  /** undefined = no repeat; null = repeat selected but value missing. */
+  function buildRecurrence() {
+    const kind = repeatSelect.value;
+    const value = repeatInput.value.trim();
+    if (!kind) { return undefined; }
+    if (!value) { return null; }
+    if (kind === 'interval') { return { kind, minutes: parseFloat(value) }; }
+    if (kind === 'cron') { return { kind, expression: value }; }
+    return { kind, time: value };
+  }
+
+  // ── Prerequisite picker ───────────────────────────────────────────────────
+  function renderParentOptions(items) {
+    const current = parentSelect.value;
+    const pending = items.filter(i => !i.processed).sort(compareDeliveryOrder);
+    parentSelect.innerHTML = '<option value="">(no prerequisite)</option>' + pending.map(i =>
+      \`<option value="\${i.id}">\${esc(shortPreview(i.promptText))}</option>\`
+    ).join('');
+    parentSelect.value = pending.some(i => i.id === current) ? current : '';
+  }
+
+  /** Describe an item's prerequisites: "after <preview>" for each parent. */
+  function dependencyLabel(item) {
+    const names = item.dependsOn.map(id => {
+      const parent = lastItems.find(i => i.id === id);
+      if (parent) { return shortPreview(parent.promptText); }
+      const entry = lastLog.find(e => e.itemId === id);
+      return entry ? shortPreview(entry.promptPreview) : id;
+    });
+    return 'after ' + names.map(n => '“' + n + '”').join(', ');
+  }
+
+  function shortPreview(text) {
+    const flat = String(text || '').replace(/\\s+/g, ' ').trim();
+    return flat.length > 40 ? flat.slice(0, 40) + '…' : flat;
+  }
+
+  // ── Target picker ─────────────────────────────────────────────────────────
+  function renderTargetOptions(targets, defaultTarget) {
+    const current = targetSelect.options.length > 1 ? targetSelect.value : (saved.target ?? '');
+    const def = targets.find(t => t.id === defaultTarget);
+    targetSelect.innerHTML = \`<option value="">Default (\${esc(def ? def.name : defaultTarget)})</option>\` + targets.map(t =>
+      \`<option value="\${esc(t.id)}">\${esc(t.name)}</option>\`
+    ).join('');
+    targetSelect.value = targets.some(t => t.id === current) ? current : '';
+  }
+
+  function targetName(id) {
+    const target = lastTargets.find(t => t.id === id);
+    return target ? target.name : id;
+  }
+
   // ── Pause state ───────────────────────────────────────────────────────────
   let queueIsPaused = false;
 
@@ -1071,22 +2113,36 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
   let editingId = null;
 
   function renderQueueItems(items) {
-    const pending = items.filter(i => !i.processed);
-    const done    = items.filter(i =>  i.processed).slice(0, 3);
+    renderScopeTabs(items);
+    const visible = items.filter(i => scopeTab === 'all' || scopeOf(i) === scopeTab);
+    const pending = visible.filter(i => !i.processed);
+    const done    = visible.filter(i =>  i.processed).slice(0, 3);
 
     pendingBadge.textContent = pending.length;
 
-    if (items.length === 0) {
-      queueList.innerHTML = '<div class="empty-state">No prompts queued yet.</div>';
+    if (visible.length === 0) {
+      queueList.innerHTML = items.length === 0
+        ? '<div class="empty-state">No prompts queued yet.</div>'
+        : '<div class="empty-state">No prompts in this tab.</div>';
       return;
     }
 
+    // Pending items are listed in delivery order (mirrors compareDeliveryOrder in QueueStore.ts);
+    // the All tab groups them by workspace first.
+    const byGroup = (a, b) => scopeTab === 'all' ? groupRank(a) - groupRank(b) || groupKey(a).localeCompare(groupKey(b)) : 0;
     const sorted = [
-      ...pending.sort((a, b) => new Date(a.notBefore) - new Date(b.notBefore)),
+      ...pending.sort((a, b) => byGroup(a, b) || compareDeliveryOrder(a, b)),
       ...done.sort((a, b) => new Date(b.notBefore) - new Date(a.notBefore)),
     ];
 
+    let lastGroup = null;
     queueList.innerHTML = sorted.map(item => {
+      let groupHeader = '';
+      if (scopeTab === 'all' && !item.processed && groupKey(item) !== lastGroup) {
+        lastGroup = groupKey(item);
+        const count = pending.filter(i => groupKey(i) === lastGroup).length;
+        groupHeader = \`<div class="queue-group" title="\${esc(item.workspaceFolder || 'Delivered by any window')}">\${esc(groupLabel(item))} (\${count})</div>\`;
+      }
       const due = !item.processed && new Date(item.notBefore) <= new Date();
       const cls = item.processed ? 'delivered' : due ? 'overdue' : '';
       const icon = item.processed ? '✓' : due ? '🔴' : '⏰';
@@ -1097,12 +2153,19 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       const preview = (item.promptText || '').replace(/\\n/g, ' ').slice(0, 200);
       const previewTrunc = item.promptText.length > 200 ? preview + '…' : preview;
       const isEditing = editingId === item.id;
+      const prio = item.priority || 'normal';
+      const prioBadge = prio !== 'normal' ? \`<span class="item-priority \${prio}">\${prio}</span>\` : '';
 
       const editForm = isEditing ? \`<div class="edit-form">
     <textarea class="edit-textarea" data-id="\${item.id}">\${esc(item.promptText)}</textarea>
     <div class="edit-time-row">
       <span>At</span>
       <input type="datetime-local" class="edit-datetime" data-id="\${item.id}" value="\${toDatetimeLocal(item.notBefore)}">
+      <select class="edit-priority" data-id="\${item.id}">
+        <option value="high"\${prio === 'high' ? ' selected' : ''}>High</option>
+        <option value="normal"\${prio === 'normal' ? ' selected' : ''}>Normal</option>
+        <option value="low"\${prio === 'low' ? ' selected' : ''}>Low</option>
+      </select>
     </div>
     <div class="edit-btn-row">
       <button class="btn-small item-save" data-id="\${item.id}">✓ Save</button>
@@ -1114,15 +2177,55 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       const actions = !item.processed ? \`<div class="item-actions">
     <button class="item-snooze" data-id="\${item.id}" data-minutes="15" title="Snooze +15 min">+15m</button>
     <button class="item-snooze" data-id="\${item.id}" data-minutes="60" title="Snooze +1 hour">+1h</button>
+    \${lastRecurrence[item.id] ? \`<button class="item-stop-repeat" data-id="\${item.id}" title="Stop repeating (this occurrence is still sent)">1×</button>\` : ''}
     <button class="item-edit" data-id="\${item.id}" title="Edit">✏</button>
     <button class="item-send" data-id="\${item.id}" title="\${sendTitle}">➤</button>
     <button class="item-delete" data-id="\${item.id}" title="Remove">×</button>
   </div>\` : '';
 
-      return \`<div class="queue-item \${cls}\${isEditing ? ' editing' : ''}" title="\${isEditing ? '' : esc(item.promptText)}">
+      const draggable = !item.processed && !isEditing ? ' draggable="true"' : '';
+      const depStatus = lastDeps[item.id];
+      const depIcon = depStatus === 'blocked' ? '⚠' : depStatus === 'waiting' ? '⛓' : '✓';
+      const depTitle = depStatus === 'blocked'
+        ? 'Blocked: a prerequisite was removed or never delivered — send manually or delete'
+        : depStatus === 'waiting' ? 'Waiting for prerequisite delivery' : 'Prerequisites delivered';
+      const repeatLine = lastRecurrence[item.id]
+        ? \`<div class="item-recurrence" title="Repeats — next run shown above">🔁 \${esc(lastRecurrence[item.id])}</div>\`
+        : '';
+      const resetLine = item.scheduleMode === 'windowReset'
+        ? \`<div class="item-window-reset" title="Moves with the detected window end; fixed once delivery is imminent. Edit or snooze to pin a time.">⏳ at window reset</div>\`
+        : '';
+      const holdLine = lastHolds[item.id]
+        ? \`<div class="item-quota-hold" title="\${esc(lastHolds[item.id])}">⏸ held: quota · \${esc(lastHolds[item.id])}</div>\`
+        : '';
+      const sessionLine = item.sessionMode === 'resume' || item.sessionMode === 'continue'
+        ? \`<div class="item-session" title="Used when a new Claude terminal is started">↪ \${item.sessionMode === 'resume' ? 'resume ' + esc((item.sessionId || '').slice(0, 8)) : 'continue latest session'}</div>\`
+        : '';
+      const targetLine = item.target
+        ? \`<div class="item-target" title="Delivery target">→ \${esc(targetName(item.target))}</div>\`
+        : '';
+      const sourceLine = item.sourceFile
+        ? \`<div class="item-source" title="From \${esc(item.sourceFile)} — edit the file to change this prompt">📄 \${esc(item.sourceFile.split(/[\\\\/]/).pop())}</div>\`
+        : '';
+      const contextLine = item.context
+        ? \`<div class="item-context" title="About \${esc(item.context.path)} — expanded when the prompt is delivered">📎 \${esc(contextName(item.context))}</div>\`
+        : '';
+      const depsLine = depStatus
+        ? \`<div class="item-deps \${depStatus}" title="\${depTitle}">\${depIcon} \${esc(dependencyLabel(item))}</div>\`
+        : '';
+
+      return groupHeader + \`<div class="queue-item \${cls}\${isEditing ? ' editing' : ''}" data-id="\${item.id}"\${draggable} title="\${isEditing ? '' : esc(item.promptText)}">
   <span class="item-icon">\${icon}</span>
   <div class="item-body">
-    <div class="\${timeCls}">\${timeLabel}</div>
+    <div class="\${timeCls}">\${timeLabel}\${prioBadge}</div>
+    \${repeatLine}
+    \${resetLine}
+    \${holdLine}
+    \${sessionLine}
+    \${targetLine}
+    \${sourceLine}
+    \${contextLine}
+    \${depsLine}
     \${editForm}
   </div>
   \${actions}
@@ -1137,6 +2240,14 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       });
     });
 
+    // Wire stop-repeat buttons
+    queueList.querySelectorAll('.item-stop-repeat').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        e.stopPropagation();
+        vscode.postMessage({ type: 'stopRecurrence', id: btn.dataset.id });
+      });
+    });
+
     // Wire edit buttons
     queueList.querySelectorAll('.item-edit').forEach(btn => {
       btn.addEventListener('click', (e) => {
@@ -1153,9 +2264,13 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
         const id = btn.dataset.id;
         const textarea = queueList.querySelector(\`.edit-textarea[data-id="\${id}"]\`);
         const dtInput  = queueList.querySelector(\`.edit-datetime[data-id="\${id}"]\`);
+        const prioInput = queueList.querySelector(\`.edit-priority[data-id="\${id}"]\`);
         if (!textarea || !dtInput) { return; }
         const newNotBefore = new Date(dtInput.value).toISOString();
-        vscode.postMessage({ type: 'editItem', id, promptText: textarea.value, notBefore: newNotBefore });
+        vscode.postMessage({
+          type: 'editItem', id, promptText: textarea.value, notBefore: newNotBefore,
+          priority: prioInput ? prioInput.value : undefined,
+        });
         editingId = null;
       });
     });
@@ -1185,6 +2300,35 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       });
     });
 
+    // Drag-to-reorder pending items
+    let dragId = null;
+    queueList.querySelectorAll('.queue-item[draggable="true"]').forEach(el => {
+      el.addEventListener('dragstart', (e) => {
+        dragId = el.dataset.id;
+        el.classList.add('dragging');
+        e.dataTransfer.effectAllowed = 'move';
+      });
+      el.addEventListener('dragend', () => {
+        dragId = null;
+        el.classList.remove('dragging');
+        queueList.querySelectorAll('.drop-target').forEach(t => t.classList.remove('drop-target'));
+      });
+      el.addEventListener('dragover', (e) => {
+        if (!dragId || dragId === el.dataset.id) { return; }
+        e.preventDefault();
+        el.classList.add('drop-target');
+      });
+      el.addEventListener('dragleave', () => el.classList.remove('drop-target'));
+      el.addEventListener('drop', (e) => {
+        e.preventDefault();
+        el.classList.remove('drop-target');
+        if (!dragId || dragId === el.dataset.id) { return; }
+        const ids = sorted.filter(i => !i.processed).map(i => i.id).filter(id => id !== dragId);
+        ids.splice(ids.indexOf(el.dataset.id), 0, dragId);
+        vscode.postMessage({ type: 'reorderItems', ids: mergeVisibleOrder(ids) });
+      });
+    });
+
     // Click on preview → toggle expand
     queueList.querySelectorAll('.item-preview').forEach(el => {
       el.addEventListener('click', (e) => {
@@ -1194,6 +2338,65 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  // ── Workspace scopes (mirrors countByScope in QueueStore.ts) ─────────────
+  /** 'workspace' (this window's folders), 'global' (no folder) or 'other'. */
+  function scopeOf(item) {
+    if (!item.workspaceFolder) { return 'global'; }
+    return windowFolders.includes(item.workspaceFolder) ? 'workspace' : 'other';
+  }
+
+  function renderScopeTabs(items) {
+    const pending = items.filter(i => !i.processed);
+    const counts = {
+      workspace: pending.filter(i => scopeOf(i) === 'workspace').length,
+      global: pending.filter(i => scopeOf(i) === 'global').length,
+      all: pending.length,
+    };
+    scopeTabs.querySelectorAll('.scope-tab').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.tab === scopeTab);
+      btn.querySelector('.tab-count').textContent = '(' + counts[btn.dataset.tab] + ')';
+    });
+  }
+
+  function groupKey(item) { return item.workspaceFolder || ''; }
+
+  /** This window's workspace first, then global, then other workspaces. */
+  function groupRank(item) {
+    const scope = scopeOf(item);
+    return scope === 'workspace' ? 0 : scope === 'global' ? 1 : 2;
+  }
+
+  function groupLabel(item) {
+    if (!item.workspaceFolder) { return '🌐 Global'; }
+    const name = item.workspaceFolder.split(/[\\\\/]/).filter(Boolean).pop() || item.workspaceFolder;
+    return scopeOf(item) === 'workspace' ? '📁 ' + name + ' (this window)' : '📁 ' + name;
+  }
+
+  /**
+   * The list shows one tab, but positions are global: slot the new order of
+   * the visible items into the full pending order so hidden items keep theirs.
+   */
+  function mergeVisibleOrder(visibleIds) {
+    const visible = new Set(visibleIds);
+    const queue = [...visibleIds];
+    return lastItems
+      .filter(i => !i.processed)
+      .sort(compareDeliveryOrder)
+      .map(i => visible.has(i.id) ? queue.shift() : i.id);
+  }
+
+  /** Priority first, then explicit position, then creation time. */
+  function compareDeliveryOrder(a, b) {
+    const rank = { high: 0, normal: 1, low: 2 };
+    const pa = rank[a.priority || 'normal'] ?? 1;
+    const pb = rank[b.priority || 'normal'] ?? 1;
+    if (pa !== pb) { return pa - pb; }
+    const posA = a.position ?? Number.MAX_SAFE_INTEGER;
+    const posB = b.position ?? Number.MAX_SAFE_INTEGER;
+    if (posA !== posB) { return posA - posB; }
+    return String(a.createdAt).localeCompare(String(b.createdAt));
+  }
+
   /** Convert ISO UTC string to datetime-local value (YYYY-MM-DDTHH:MM) in local time. */
   function toDatetimeLocal(iso) {
     const d = new Date(iso);
@@ -1226,14 +2429,24 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       const detail = entry.error
         ? esc(entry.promptPreview) + ' — ' + esc(entry.error.slice(0, 60))
         : esc(entry.promptPreview);
+      const open = entry.hasResponse
+        ? \`<button class="history-open" data-item="\${esc(entry.itemId)}" data-ts="\${esc(entry.timestamp)}" title="Open Claude's response">📄</button>\`
+        : '';
       return \`<div class="history-item \${cls}">
   <span class="history-icon">\${icon}</span>
   <div class="history-body">
     <div class="history-time">\${time}</div>
     <div class="history-preview">\${detail}</div>
   </div>
+  \${open}
 </div>\`;
     }).join('');
+
+    historyList.querySelectorAll('.history-open').forEach(btn => {
+      btn.addEventListener('click', () => {
+        vscode.postMessage({ type: 'openResponse', itemId: btn.dataset.item, timestamp: btn.dataset.ts });
+      });
+    });
   }
 
   // ── Helpers ───────────────────────────────────────────────────────────────
@@ -1245,15 +2458,156 @@ export class QueueWebviewProvider implements vscode.WebviewViewProvider {
       .replace(/"/g, '&quot;');
   }
 
+  function setContext(context, label) {
+    attachedContext = context;
+    attachedLabel = label;
+    renderContext();
+    persist();
+  }
+
+  function renderContext() {
+    contextChip.hidden = !attachedContext;
+    contextLabel.textContent = attachedContext ? '📎 ' + attachedLabel : '';
+    contextLabel.title = attachedContext
+      ? attachedContext.path + (attachedContext.snapshot !== undefined ? ' — snapshot inlined at delivery' : ' — mentioned at delivery')
+      : '';
+  }
+
+  /** "foo.ts#L10-40" — file name and line range of a file reference. */
+  function contextName(ctx) {
+    const name = ctx.path.split(/[\\\\/]/).pop();
+    if (!ctx.startLine) { return name; }
+    const end = ctx.endLine || ctx.startLine;
+    return name + '#L' + ctx.startLine + (end !== ctx.startLine ? '-' + end : '');
+  }
+
   function persist() {
-    vscode.setState({ delayMinutes, promptText, delayMode, atTime: atTimeInput.value });
+    vscode.setState({
+      context: attachedContext, contextLabel: attachedLabel,
+      delayMinutes, promptText, delayMode, priority, atTime: atTimeInput.value, whenText: whenInput.value,
+      repeatKind: repeatSelect.value, repeatValue: repeatInput.value, sessionMode: sessionSelect.value,
+      target: targetSelect.value, scope: scopeSelect.value, scopeTab,
+    });
   }
 
   // ── Boot ──────────────────────────────────────────────────────────────────
   vscode.postMessage({ type: 'ready' });
+  if (delayMode === 'when') { requestWhenPreview(); }
 })();
 </script>
 </body>
 </html>`;
   }
 }
+
+// ── Queue view ───────────────────────────────────────────────────────────────
+
+/**
+ * The queue as the panel shows it: items, the recent deliveries (the capped
+ * log), and per-item dependency status and repeat labels. Dependencies are
+ * resolved against the prerequisite log, which outlives the capped one.
+ */
+export function queueView(store: QueueStore): {
+  items: QueueItem[];
+  deliveryLog: DeliveryLogEntry[];
+  dependencies: Record<string, DependencyStatus>;
+  recurrenceLabels: Record<string, string>;
+} {
+  const items = store.getAll();
+  const prerequisites = store.getPrerequisiteLog();
+  const dependencies: Record<string, DependencyStatus> = {};
+  const recurrenceLabels: Record<string, string> = {};
+  for (const item of items) {
+    if (!item.processed && item.dependsOn?.length) {
+      dependencies[item.id] = getDependencyStatus(item, items, prerequisites);
+    }
+    if (item.recurrence) {
+      recurrenceLabels[item.id] = describeRecurrence(item.recurrence);
+    }
+  }
+  return {
+    items,
+    deliveryLog: store.getDeliveryLog(),
+    dependencies,
+    recurrenceLabels,
+  };
+}
+
+// ── Workspace scope helpers (not exported) ───────────────────────────────────
+
+/** Label of a file reference, relative to its workspace folder. */
+function referenceLabel(context: PromptContext): string {
+  return contextLabel(
+    context,
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(context.path))?.uri
+      .fsPath,
+  );
+}
+
+/** Absolute paths of this window's workspace folders. */
+function windowFolders(): string[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((f) => f.uri.fsPath);
+}
+
+function defaultScope(): QueueScope {
+  return vscode.workspace
+    .getConfiguration("promptQueue")
+    .get<QueueScope>("defaultScope", "workspace");
+}
+
+// ── File helpers (not exported) ──────────────────────────────────────────────
+
+function isFileNotFound(err: unknown): boolean {
+  return err instanceof vscode.FileSystemError && err.code === "FileNotFound";
+}
+
+// ── Formatting helpers (not exported) ─────────────────────────────────────────
+
+/** Markdown document for a captured headless response. */
+function formatResponseDocument(entry: DeliveryLogEntry): string {
+  const lines = [
+    `# Claude response — ${entry.itemId}`,
+    "",
+    `- Delivered: ${entry.timestamp}`,
+    ...(entry.exitCode !== undefined ? [`- Exit code: ${entry.exitCode}`] : []),
+    `- Prompt: ${entry.promptPreview}`,
+    "",
+    "---",
+    "",
+    entry.response ?? "",
+  ];
+  if (entry.stderr) {
+    lines.push("", "## stderr", "", "```", entry.stderr.trimEnd(), "```");
+  }
+  return lines.join("\n");
+}
+
+// ── Import/export helpers (not exported) ─────────────────────────────────────
+
+const EXCHANGE_FILTERS = {
+  JSON: ["json"],
+  Markdown: ["md", "markdown"],
+  CSV: ["csv"],
+};
+
+/**
+ * Raw items of an import file. JSON exports are migrated by parseExport
+ * (which throws QueueSchemaError); Markdown and CSV report per-record errors.
+ */
+function readImportRecords(
+  text: string,
+  format: ExchangeFormat,
+): ImportRecord[] {
+  if (format === "markdown") {
+    return parseMarkdownQueue(text);
+  }
+  if (format === "csv") {
+    return parseCsvQueue(text);
+  }
+  return parseExport(text).map((raw, idx) => ({
+    label: `item #${idx + 1}`,
+    // Non-objects are kept for validateQueueItem to report.
+    raw: raw as Record<string, unknown>,
+    errors: [],
+  }));
+}
@@ -17,7 +17,6 @@
  */
 import * as fs from "fs";
 import * as path from "path";
-import * as os from "os";
 import * as vscode from "vscode";
 import {
   IUsageProvider,
@@ -27,8 +26,9 @@ import {
 } from "./IUsageProvider";
 import { getWindowStart7d } from "../util/time";
 import { detectWindowStart, FIVE_HOURS_MS } from "../util/windowDetection";
+import { CLAUDE_PROJECTS_DIR } from "../util/claudeSessions";
 
-const CLAUDE_DIR = path.join(os.homedir(), ".claude", "projects");
+const CLAUDE_DIR = CLAUDE_PROJECTS_DIR;
 /** How far back to read entries for window-start detection (must be > 5h). */
 const WINDOW_LOOKBACK_MS = 12 * 3_600_000;
 
@@ -10,11 +10,7 @@
 import { IUsageProvider, TokenUsage, ProviderStatus } from './IUsageProvider';
 import { QueueStore } from '../queue/QueueStore';
 import { getWindowStart5h, getWindowStart7d } from '../util/time';
-
-/** Rough token estimate: 1 token ≈ 4 chars (English). */
-function estimateTokens(text: string): number {
-  return Math.ceil(text.length / 4);
-}
+import { estimateTokens } from '../util/quota';
 
 export class LocalEstimateProvider implements IUsageProvider {
   readonly name = 'Local Estimate';
@@ -0,0 +1,183 @@
+/**
+ * RateLimitWatcher — notices Claude rate-limit messages without the user
+ * having to copy them.
+ *
+ * Two sources:
+ *   1. Output of Claude terminals, via the shell-integration API
+ *      (VS Code ≥ 1.93, terminals with shell integration enabled).
+ *   2. The newest session transcript of each workspace folder, polled —
+ *      works without shell integration and for Claude sessions outside VS Code.
+ *
+ * Detections are de-duplicated by reset time, so the same notice seen in
+ * both sources fires once.
+ */
+import * as vscode from "vscode";
+import * as fs from "fs";
+import {
+  claudeTerminalSetting,
+  isClaudeTerminalName,
+} from "../delivery/ClaudeCliTarget";
+import {
+  entryText,
+  findLatestSessionFile,
+  readLastEntries,
+} from "../util/claudeSessions";
+import { findRateLimitNotice } from "../util/rateLimitDetection";
+import { RateLimitInfo } from "../util/time";
+
+/** Transcript poll interval. */
+const POLL_MS = 15_000;
+/** Terminal output kept for detection (notices can span several chunks). */
+const TERMINAL_BUFFER_CHARS = 4_096;
+/** Notices whose reset times are this close are the same notice. */
+const DUPLICATE_TOLERANCE_MS = 5 * 60_000;
+
+export interface RateLimitDetection {
+  info: RateLimitInfo;
+  /** Where the notice was seen, for display ("terminal \"Claude\""…). */
+  source: string;
+  /** Workspace folder of the transcript, when detected there. */
+  workspaceFolder?: string;
+}
+
+export class RateLimitWatcher implements vscode.Disposable {
+  private readonly log: vscode.OutputChannel;
+  private readonly disposables: vscode.Disposable[] = [];
+  private pollTimer: ReturnType<typeof setInterval> | undefined;
+  /** Transcript path → time of the last scan (epoch ms). */
+  private readonly scannedUntil = new Map<string, number>();
+  private readonly startedAt = Date.now();
+  private lastResetMs: number | undefined;
+
+  readonly onDidDetectEmitter = new vscode.EventEmitter<RateLimitDetection>();
+  readonly onDidDetect = this.onDidDetectEmitter.event;
+
+  constructor(log: vscode.OutputChannel) {
+    this.log = log;
+  }
+
+  start(): void {
+    // Feature-detect: the shell-integration API is newer than our minimum engine.
+    if (typeof vscode.window.onDidStartTerminalShellExecution === "function") {
+      this.disposables.push(
+        vscode.window.onDidStartTerminalShellExecution((e) =>
+          this.watchExecution(e.terminal, e.execution),
+        ),
+      );
+    } else {
+      this.log.appendLine(
+        "[RateLimitWatcher] Shell integration API unavailable — watching transcripts only",
+      );
+    }
+    this.pollTimer = setInterval(() => this.pollTranscripts(), POLL_MS);
+  }
+
+  dispose(): void {
+    if (this.pollTimer !== undefined) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    this.disposables.forEach((d) => d.dispose());
+    this.disposables.length = 0;
+    this.onDidDetectEmitter.dispose();
+  }
+
+  private isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration("promptQueue")
+      .get<boolean>("detectRateLimits", true);
+  }
+
+  private async watchExecution(
+    terminal: vscode.Terminal,
+    execution: vscode.TerminalShellExecution,
+  ): Promise<void> {
+    const isClaude =
+      isClaudeTerminalName(terminal.name, claudeTerminalSetting()) ||
+      /\bclaude\b/.test(execution.commandLine.value);
+    if (!isClaude) {
+      return;
+    }
+
+    let buffer = "";
+    try {
+      for await (const data of execution.read()) {
+        if (!this.isEnabled()) {
+          continue;
+        }
+        buffer = (buffer + data).slice(-TERMINAL_BUFFER_CHARS);
+        const info = findRateLimitNotice(buffer);
+        if (info) {
+          // Start over so the same notice is not parsed again later.
+          buffer = "";
+          this.report({ info, source: `terminal "${terminal.name}"` });
+        }
+      }
+    } catch (err) {
+      this.log.appendLine(
+        `[RateLimitWatcher] Stopped reading terminal "${terminal.name}": ${err}`,
+      );
+    }
+  }
+
+  private pollTranscripts(): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const workspace = folder.uri.fsPath;
+      const file = findLatestSessionFile(workspace);
+      if (!file) {
+        continue;
+      }
+      const since = this.scannedUntil.get(file) ?? this.startedAt;
+      let mtimeMs: number;
+      try {
+        mtimeMs = fs.statSync(file).mtimeMs;
+      } catch {
+        continue;
+      }
+      if (mtimeMs <= since) {
+        continue;
+      }
+      const nowMs = Date.now();
+      this.scannedUntil.set(file, nowMs);
+
+      // Only entries written since the last scan — older notices were
+      // either reported already or predate this VS Code session.
+      const text = readLastEntries(file)
+        .filter(
+          (e) =>
+            e.type === "assistant" &&
+            e.timestamp !== undefined &&
+            Date.parse(e.timestamp) > since,
+        )
+        .map(entryText)
+        .join("\n");
+      const info = text ? findRateLimitNotice(text) : undefined;
+      if (info) {
+        this.report({
+          info,
+          source: "Claude session transcript",
+          workspaceFolder: workspace,
+        });
+      }
+    }
+  }
+
+  private report(detection: RateLimitDetection): void {
+    const resetMs = detection.info.resetAt?.getTime();
+    if (
+      resetMs !== undefined &&
+      this.lastResetMs !== undefined &&
+      Math.abs(resetMs - this.lastResetMs) < DUPLICATE_TOLERANCE_MS
+    ) {
+      return;
+    }
+    this.lastResetMs = resetMs;
+    this.log.appendLine(
+      `[RateLimitWatcher] Rate limit detected in ${detection.source}: "${detection.info.rawMatch}"`,
+    );
+    this.onDidDetectEmitter.fire(detection);
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Helpers for Claude Code CLI session transcripts:
+ *   ~/.claude/projects/<encoded-workspace-path>/<session-id>.jsonl
+ *
+ * The CLI stores one directory per project, named after the absolute project
+ * path with every non-alphanumeric character replaced by "-"
+ * (e.g. /Users/me/my_app → -Users-me-my-app). Each session is a JSONL file
+ * whose basename is the session id.
+ *
+ * File access is synchronous and best-effort (errors → undefined), matching
+ * ClaudeLocalProvider. The decision logic is kept in pure functions.
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const CLAUDE_PROJECTS_DIR = path.join(
+  os.homedir(),
+  ".claude",
+  "projects",
+);
+
+/**
+ * How a prompt is delivered when a new Claude terminal has to be started:
+ *   "new"      — blank conversation (`claude "<prompt>"`)
+ *   "continue" — the most recent session of the workspace (`claude --continue`)
+ *   "resume"   — a specific session recorded at queue time (`claude --resume <id>`)
+ */
+export type SessionMode = "new" | "continue" | "resume";
+
+/** Bytes read from the end of a transcript when looking for the last entries. */
+const TAIL_BYTES = 64 * 1024;
+
+/** Subset of a transcript line this extension cares about. */
+export interface SessionEntry {
+  type?: string;
+  timestamp?: string;
+  sessionId?: string;
+  /** Set on lines the CLI injects (caveats, command output) — not typed by the user. */
+  isMeta?: boolean;
+  message?: {
+    role?: string;
+    stop_reason?: string | null;
+    content?: unknown;
+  };
+}
+
+/** Encode an absolute workspace path the way Claude Code names project dirs. */
+export function encodeProjectPath(workspacePath: string): string {
+  return workspacePath.replace(/[^a-zA-Z0-9]/g, "-");
+}
+
+/** Absolute path of the Claude project directory for a workspace folder. */
+export function projectDirFor(
+  workspacePath: string,
+  projectsDir = CLAUDE_PROJECTS_DIR,
+): string {
+  return path.join(projectsDir, encodeProjectPath(workspacePath));
+}
+
+/**
+ * Return the most recently modified session transcript for a workspace,
+ * or undefined if the project directory has none.
+ */
+export function findLatestSessionFile(
+  workspacePath: string,
+  projectsDir = CLAUDE_PROJECTS_DIR,
+): string | undefined {
+  const dir = projectDirFor(workspacePath, projectsDir);
+  let newest: { file: string; mtimeMs: number } | undefined;
+  try {
+    for (const name of fs.readdirSync(dir)) {
+      if (!name.endsWith(".jsonl")) {
+        continue;
+      }
+      const file = path.join(dir, name);
+      const { mtimeMs } = fs.statSync(file);
+      if (!newest || mtimeMs > newest.mtimeMs) {
+        newest = { file, mtimeMs };
+      }
+    }
+  } catch {
+    return undefined;
+  }
+  return newest?.file;
+}
+
+/** Session id = transcript basename. Undefined when the workspace has none. */
+export function findLatestSessionId(
+  workspacePath: string,
+  projectsDir = CLAUDE_PROJECTS_DIR,
+): string | undefined {
+  const file = findLatestSessionFile(workspacePath, projectsDir);
+  return file ? path.basename(file, ".jsonl") : undefined;
+}
+
+/** Session ids are UUIDs — anything else is not passed to the shell. */
+export function isValidSessionId(id: string): boolean {
+  return /^[A-Za-z0-9-]{1,64}$/.test(id);
+}
+
+/**
+ * Resolve the session fields recorded on a queue item. "resume" captures the
+ * workspace's newest session id now; without one it falls back to "continue".
+ */
+export function resolveSessionTarget(
+  mode: SessionMode,
+  workspacePath: string,
+  projectsDir = CLAUDE_PROJECTS_DIR,
+): { sessionMode: SessionMode; sessionId?: string } {
+  if (mode !== "resume") {
+    return { sessionMode: mode };
+  }
+  const sessionId = workspacePath
+    ? findLatestSessionId(workspacePath, projectsDir)
+    : undefined;
+  return sessionId
+    ? { sessionMode: "resume", sessionId }
+    : { sessionMode: "continue" };
+}
+
+/**
+ * Shell command that starts Claude with the prompt stored in `promptFile`
+ * and removes the file afterwards.
+ */
+export function claudeLaunchCommand(
+  promptFile: string,
+  mode: SessionMode = "new",
+  sessionId?: string,
+): string {
+  let flags = "";
+  if (mode === "resume" && sessionId && isValidSessionId(sessionId)) {
+    flags = `--resume ${sessionId} `;
+  } else if (mode === "resume" || mode === "continue") {
+    flags = "--continue ";
+  }
+  return `claude ${flags}"$(cat '${promptFile}')" ; rm -f '${promptFile}'`;
+}
+
+/**
+ * Parse the last entries of a transcript (newest last), reading only the
+ * tail of the file. Lines that are not valid JSON are skipped — the first
+ * line of the tail is usually cut in half.
+ */
+export function readLastEntries(file: string): SessionEntry[] {
+  let text: string;
+  try {
+    const { size } = fs.statSync(file);
+    const start = Math.max(0, size - TAIL_BYTES);
+    const fd = fs.openSync(file, "r");
+    try {
+      const buf = Buffer.alloc(size - start);
+      fs.readSync(fd, buf, 0, buf.length, start);
+      text = buf.toString("utf8");
+    } finally {
+      fs.closeSync(fd);
+    }
+  } catch {
+    return [];
+  }
+
+  const entries: SessionEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as SessionEntry);
+    } catch {
+      /* partial or corrupt line */
+    }
+  }
+  return entries;
+}
+
+/** Last user/assistant turn in `entries` (ignores summaries, system lines…). */
+export function lastConversationEntry(
+  entries: ReadonlyArray<SessionEntry>,
+): SessionEntry | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const t = entries[i].type;
+    if (t === "user" || t === "assistant") {
+      return entries[i];
+    }
+  }
+  return undefined;
+}
+
+/** Plain text of a transcript message (string content or text blocks). */
+export function entryText(entry: SessionEntry): string {
+  const content = entry.message?.content;
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((block: unknown) => {
+        const b = block as { type?: string; text?: unknown };
+        return b?.type === "text" && typeof b.text === "string" ? b.text : "";
+      })
+      .filter(Boolean)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Text of the last prompt the user typed, newest last in `entries`.
+ * Skips tool results (user entries without text), injected meta lines and
+ * slash-command bookkeeping ("<command-name>…", "<local-command-stdout>…").
+ */
+export function lastUserPrompt(
+  entries: ReadonlyArray<SessionEntry>,
+): string | undefined {
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const e = entries[i];
+    if (e.type !== "user" || e.isMeta) {
+      continue;
+    }
+    const text = entryText(e).trim();
+    if (text && !/^<(?:command-|local-command-)/.test(text)) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Last prompt typed in the newest Claude session of a workspace, or
+ * undefined if there is none within the transcript tail.
+ */
+export function readLastUserPrompt(
+  workspacePath: string,
+  projectsDir = CLAUDE_PROJECTS_DIR,
+): string | undefined {
+  const file = findLatestSessionFile(workspacePath, projectsDir);
+  return file ? lastUserPrompt(readLastEntries(file)) : undefined;
+}
+
+export interface IdleCheckInput {
+  /** Last user/assistant entry of the session transcript. */
+  lastEntry: SessionEntry | undefined;
+  /** Transcript modification time (epoch ms). */
+  fileMtimeMs: number;
+  /** Current time (epoch ms). */
+  nowMs: number;
+  /** When the previous prompt was sent (epoch ms). */
+  sentAtMs: number;
+  /** Transcript silence after which the session is considered idle. */
+  quietMs: number;
+}
+
+/**
+ * Decide whether a Claude session has finished handling the last prompt.
+ * Pure function — no side effects.
+ *
+ * Rules:
+ *   1. Transcript not written since the prompt was sent → busy (the prompt
+ *      has not been picked up yet).
+ *   2. Last turn is an assistant message that ended its turn → idle.
+ *   3. Otherwise idle only once the transcript has been quiet for `quietMs`
+ *      (tool calls and streaming keep appending to the file).
+ */
+export function isSessionIdle(input: IdleCheckInput): boolean {
+  const { lastEntry, fileMtimeMs, nowMs, sentAtMs, quietMs } = input;
+  if (fileMtimeMs < sentAtMs) {
+    return false;
+  }
+  if (
+    lastEntry?.type === "assistant" &&
+    lastEntry.message?.stop_reason === "end_turn"
+  ) {
+    return true;
+  }
+  return nowMs - fileMtimeMs >= quietMs;
+}
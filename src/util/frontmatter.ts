@@ -0,0 +1,153 @@
+/**
+ * Minimal YAML frontmatter — flat `key: value` lines between `---` fences,
+ * as used by Claude command files and prompt files. Pure functions, no
+ * VS Code dependency. Nested YAML (lists, maps) is skipped; values are
+ * strings, optionally quoted.
+ */
+
+export interface Frontmatter {
+  /** Keys as written; values unquoted. */
+  fields: Record<string, string>;
+  /** Text after the closing fence (leading blank lines removed). */
+  body: string;
+}
+
+const FENCE = /^---\s*$/;
+const FIELD = /^([A-Za-z_][\w-]*)\s*:\s?(.*)$/;
+/** Nested values (indented or list lines) and comments — skipped. */
+const SKIPPED = /^(\s|- |#)/;
+
+/**
+ * Split a leading frontmatter block off `content`. Without one, fields are
+ * empty and the body is the whole content.
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const lines = content.split(/\r?\n/);
+  const end = FENCE.test(lines[0] ?? "") ? closingFence(lines, 0) : -1;
+  if (end < 0) {
+    return { fields: {}, body: content };
+  }
+  return {
+    fields: parseFields(lines.slice(1, end)),
+    body: trimBody(lines.slice(end + 1)),
+  };
+}
+
+/**
+ * Split a document made of several frontmatter sections (`---` fields
+ * `---` body, repeated) into one entry per section. Text before the first
+ * section is ignored. A `---` line inside a body only starts a new section
+ * when it is followed by field lines and a closing fence.
+ */
+export function parseFrontmatterSections(content: string): Frontmatter[] {
+  const lines = content.split(/\r?\n/);
+  const sections: Frontmatter[] = [];
+  let current: { fields: Record<string, string>; body: string[] } | undefined;
+  let i = 0;
+  while (i < lines.length) {
+    const end = FENCE.test(lines[i]) ? closingFence(lines, i) : -1;
+    if (end >= 0) {
+      if (current) {
+        sections.push({ fields: current.fields, body: trimBody(current.body) });
+      }
+      current = { fields: parseFields(lines.slice(i + 1, end)), body: [] };
+      i = end + 1;
+      continue;
+    }
+    current?.body.push(lines[i]);
+    i++;
+  }
+  if (current) {
+    sections.push({ fields: current.fields, body: trimBody(current.body) });
+  }
+  return sections;
+}
+
+/**
+ * Set `key` in the leading frontmatter block of `content` (replacing an
+ * existing line, or appending one before the closing fence). A block is
+ * added when there is none. The body is left as written.
+ */
+export function setFrontmatterField(
+  content: string,
+  key: string,
+  value: string,
+): string {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const line = `${key}: ${formatFrontmatterValue(value)}`;
+  const lines = content.split(/\r?\n/);
+  const end = FENCE.test(lines[0] ?? "") ? closingFence(lines, 0) : -1;
+  if (end < 0) {
+    return ["---", line, "---", "", content].join(eol);
+  }
+  const existing = lines
+    .slice(1, end)
+    .findIndex((l) => l.match(FIELD)?.[1] === key);
+  if (existing >= 0) {
+    lines[existing + 1] = line;
+  } else {
+    lines.splice(end, 0, line);
+  }
+  return lines.join(eol);
+}
+
+/** Quote a value when plain YAML would misread it. */
+export function formatFrontmatterValue(value: string): string {
+  const plain =
+    value.length > 0 &&
+    value === value.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/: |\s#|[\r\n]/.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+// ── Helpers (not exported) ───────────────────────────────────────────────────
+
+/**
+ * Index of the fence closing a block opened at `start`, or -1 when the
+ * lines in between are not all fields (or blank, or nested values of a
+ * field).
+ */
+function closingFence(lines: string[], start: number): number {
+  let fields = 0;
+  for (let j = start + 1; j < lines.length; j++) {
+    if (FENCE.test(lines[j])) {
+      return fields > 0 ? j : -1;
+    }
+    if (FIELD.test(lines[j])) {
+      fields++;
+    } else if (lines[j].trim() && !(fields > 0 && SKIPPED.test(lines[j]))) {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+function parseFields(lines: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const line of lines) {
+    const m = line.match(FIELD);
+    if (m) {
+      fields[m[1]] = unquote(m[2].trim());
+    }
+  }
+  return fields;
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    try {
+      return JSON.parse(value) as string;
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function trimBody(lines: string[]): string {
+  return lines.join("\n").replace(/^(?:[ \t]*\n)+/, "").replace(/\s+$/, "");
+}
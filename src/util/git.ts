@@ -0,0 +1,34 @@
+import { execFile } from "child_process";
+
+/** Upper bound on git output kept (a large diff would flood the prompt). */
+const MAX_OUTPUT_CHARS = 50_000;
+const GIT_TIMEOUT_MS = 15_000;
+
+/**
+ * Output of `git <args>` in `cwd`, trimmed; undefined when git is missing,
+ * `cwd` is not a repository or the command fails.
+ */
+export function gitOutput(
+  args: string[],
+  cwd: string,
+): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    execFile(
+      "git",
+      args,
+      { cwd, timeout: GIT_TIMEOUT_MS, maxBuffer: 16 * 1024 * 1024 },
+      (err, stdout) => {
+        if (err) {
+          resolve(undefined);
+          return;
+        }
+        const out = stdout.trimEnd();
+        resolve(
+          out.length > MAX_OUTPUT_CHARS
+            ? `${out.slice(0, MAX_OUTPUT_CHARS)}\n… (truncated)`
+            : out,
+        );
+      },
+    );
+  });
+}
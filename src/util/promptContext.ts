@@ -0,0 +1,192 @@
+/**
+ * File and selection references attached to queued prompts, so "this
+ * function" still means something hours later. A reference records the
+ * lines and a hash of their text when the prompt is queued; at delivery it
+ * becomes an `@path#L10-40` mention — or, when a snapshot was stored, the
+ * text as it was — and the hash tells whether the code changed meanwhile.
+ * Also the prompts pre-filled by the context-menu, SCM and CodeLens entry
+ * points. No VS Code dependency at runtime (editorContext only reads the
+ * editor).
+ */
+import type * as vscode from "vscode";
+import * as nodeCrypto from "crypto";
+import * as path from "path";
+import { PromptContext } from "../queue/QueueStore";
+
+/** `promptQueue.contextDelivery` — how a reference reaches the prompt. */
+export type ContextDelivery = "mention" | "snapshot";
+
+/** Larger references are mentioned only, never stored or inlined. */
+export const MAX_SNAPSHOT_CHARS = 50_000;
+
+type LineRange = Pick<PromptContext, "startLine" | "endLine">;
+
+export function contextHash(text: string): string {
+  return nodeCrypto.createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * The referenced lines of `content` (1-based, inclusive), or all of it
+ * without a range. Undefined when the range is past the end of the file.
+ */
+export function contextText(
+  range: LineRange,
+  content: string,
+): string | undefined {
+  if (range.startLine === undefined) {
+    return content;
+  }
+  const lines = content.split(/\r?\n/);
+  const end = range.endLine ?? range.startLine;
+  if (end > lines.length) {
+    return undefined;
+  }
+  return lines.slice(range.startLine - 1, end).join("\n");
+}
+
+/** Reference to `range` of the file at `filePath` whose text is `content`. */
+export function captureContext(
+  filePath: string,
+  content: string,
+  range: { startLine: number; endLine: number } | undefined,
+  withSnapshot: boolean,
+): PromptContext {
+  const text = contextText(range ?? {}, content) ?? "";
+  return {
+    path: filePath,
+    ...(range ? { startLine: range.startLine, endLine: range.endLine } : {}),
+    hash: contextHash(text),
+    ...(withSnapshot && text.length <= MAX_SNAPSHOT_CHARS
+      ? { snapshot: text }
+      : {}),
+  };
+}
+
+/**
+ * Reference to the lines selected in `editor`, or to the whole file without
+ * a selection. Undefined for documents that are not files on disk.
+ */
+export function editorContext(
+  editor: vscode.TextEditor,
+  withSnapshot: boolean,
+): PromptContext | undefined {
+  const doc = editor.document;
+  if (doc.isUntitled || doc.uri.scheme !== "file") {
+    return undefined;
+  }
+  const sel = editor.selection;
+  // A selection ending at the start of a line does not include that line.
+  const endLine =
+    sel.end.character === 0 && sel.end.line > sel.start.line
+      ? sel.end.line
+      : sel.end.line + 1;
+  return captureContext(
+    doc.uri.fsPath,
+    doc.getText(),
+    sel.isEmpty ? undefined : { startLine: sel.start.line + 1, endLine },
+    withSnapshot,
+  );
+}
+
+/** True when the referenced text differs from `content` (undefined = gone). */
+export function contextChanged(
+  ctx: PromptContext,
+  content: string | undefined,
+): boolean {
+  if (content === undefined) {
+    return true;
+  }
+  const text = contextText(ctx, content);
+  return text === undefined || contextHash(text) !== ctx.hash;
+}
+
+/** `src/foo.ts#L10-40` — relative to `cwd` when the file is inside it. */
+export function contextLabel(ctx: PromptContext, cwd?: string): string {
+  const rel = cwd ? path.relative(cwd, ctx.path) : "";
+  const file =
+    rel && !rel.startsWith("..") && !path.isAbsolute(rel)
+      ? rel.split(path.sep).join("/")
+      : ctx.path;
+  if (ctx.startLine === undefined) {
+    return file;
+  }
+  const end = ctx.endLine ?? ctx.startLine;
+  return end === ctx.startLine
+    ? `${file}#L${ctx.startLine}`
+    : `${file}#L${ctx.startLine}-${end}`;
+}
+
+/**
+ * The prompt as delivered: the stored snapshot inlined in a code fence, or
+ * an `@` mention that lets Claude read the file as it is now.
+ */
+export function expandContext(
+  promptText: string,
+  ctx: PromptContext,
+  cwd?: string,
+): string {
+  const label = contextLabel(ctx, cwd);
+  if (ctx.snapshot === undefined) {
+    return `${promptText}\n\n@${label}`;
+  }
+  const longestRun = Math.max(
+    0,
+    ...Array.from(ctx.snapshot.matchAll(/`+/g), (m) => m[0].length),
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  return `${promptText}\n\n${label} (as of queueing):\n${fence}\n${ctx.snapshot}\n${fence}`;
+}
+
+export function isValidPromptContext(v: unknown): v is PromptContext {
+  if (!v || typeof v !== "object" || Array.isArray(v)) {
+    return false;
+  }
+  const ctx = v as Record<string, unknown>;
+  const isLine = (n: unknown) => Number.isInteger(n) && (n as number) >= 1;
+  return (
+    typeof ctx.path === "string" &&
+    ctx.path.length > 0 &&
+    typeof ctx.hash === "string" &&
+    (ctx.startLine === undefined || isLine(ctx.startLine)) &&
+    (ctx.endLine === undefined ||
+      (isLine(ctx.endLine) &&
+        ctx.startLine !== undefined &&
+        (ctx.endLine as number) >= (ctx.startLine as number))) &&
+    (ctx.snapshot === undefined || typeof ctx.snapshot === "string")
+  );
+}
+
+// ── Pre-filled prompts (context menus, SCM, CodeLens) ────────────────────────
+
+export type CodeAction = "explain" | "test" | "refactor";
+
+export const CODE_ACTIONS: CodeAction[] = ["explain", "test", "refactor"];
+
+export const FILE_PROMPT = "Review this file.";
+export const SELECTION_PROMPT = "Explain this code.";
+
+/** Prompt for a CodeLens action on the function or method `name`. */
+export function symbolPrompt(action: CodeAction, name: string): string {
+  switch (action) {
+    case "explain":
+      return `Explain how \`${name}\` works.`;
+    case "test":
+      return `Write tests for \`${name}\`.`;
+    case "refactor":
+      return `Refactor \`${name}\` to be simpler and easier to read without changing its behavior.`;
+  }
+}
+
+/**
+ * Prompt reviewing uncommitted changes: to the given workspace-relative
+ * files (as `@` mentions), or all of them — `{{git.diff}}` is filled in
+ * when the prompt is delivered.
+ */
+export function changesPrompt(files: string[]): string {
+  const focus = "for bugs, missing tests and unclear code";
+  if (files.length === 0) {
+    return `Review my uncommitted changes ${focus}:\n\n{{git.diff}}`;
+  }
+  const mentions = files.map((f) => `@${f}`).join(", ");
+  return `Review my uncommitted changes to ${mentions} ${focus}.`;
+}
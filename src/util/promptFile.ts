@@ -0,0 +1,101 @@
+/**
+ * Pure helpers for the file-drop target: filename templates and the
+ * frontmatter written at the top of each prompt file. Other tools watch the
+ * output folder as an inbox, so the format is kept simple and stable.
+ */
+import { QueueItem } from "../queue/QueueStore";
+import { formatTimestamp } from "./time";
+
+/** Values available to `promptQueue.filenameTemplate`. */
+export interface FilenameVars {
+  /** YYYYMMDD_HHMM (local time) */
+  timestamp: string;
+  /** YYYY-MM-DD (local time) */
+  date: string;
+  id: string;
+  /** Name of the item's workspace folder. */
+  workspace: string;
+  /** Slug of the prompt's first line. */
+  slug: string;
+  priority: string;
+}
+
+const SLUG_MAX = 40;
+
+/** "Fix the login bug!" → "fix-the-login-bug" ("prompt" when nothing is left). */
+export function slugify(text: string, maxLength = SLUG_MAX): string {
+  const firstLine = text.split(/\r?\n/).find((l) => l.trim()) ?? "";
+  const slug = firstLine
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  const cut = slug.slice(0, maxLength).replace(/-+$/, "");
+  return cut || "prompt";
+}
+
+/** Make a placeholder value safe inside a single path segment. */
+export function sanitizeFilenamePart(value: string): string {
+  return value
+    .replace(/[\\/:*?"<>|\x00-\x1f]/g, "-")
+    .replace(/^\.+/, "")
+    .trim();
+}
+
+export function filenameVars(
+  item: QueueItem,
+  workspaceName: string,
+  now = new Date(),
+): FilenameVars {
+  const stamp = formatTimestamp(now);
+  return {
+    timestamp: stamp,
+    date: `${stamp.slice(0, 4)}-${stamp.slice(4, 6)}-${stamp.slice(6, 8)}`,
+    id: item.id,
+    workspace: sanitizeFilenamePart(workspaceName) || "workspace",
+    slug: slugify(item.promptText),
+    priority: item.priority ?? "normal",
+  };
+}
+
+/**
+ * Expand placeholders in a filename template. Unknown placeholders are left
+ * as-is. "/" in the template creates subfolders; empty, "." and ".."
+ * segments are dropped so the result stays inside the output folder.
+ * Returns the path segments.
+ */
+export function renderFilename(
+  template: string,
+  vars: FilenameVars,
+): string[] {
+  const rendered = template.replace(
+    /\{(timestamp|date|id|workspace|slug|priority)\}/g,
+    (_m, key: keyof FilenameVars) => sanitizeFilenamePart(vars[key]),
+  );
+  return rendered
+    .split(/[\\/]/)
+    .map((s) => s.trim())
+    .filter((s) => s && s !== "." && s !== "..");
+}
+
+/**
+ * Prompt file contents: YAML frontmatter with the item's metadata, then the
+ * prompt text.
+ */
+export function buildPromptFile(
+  item: QueueItem,
+  deliveredAt: Date,
+  workspaceName?: string,
+): string {
+  const lines = [
+    "---",
+    `id: ${item.id}`,
+    `createdAt: ${item.createdAt}`,
+    `deliveredAt: ${deliveredAt.toISOString()}`,
+    `priority: ${item.priority ?? "normal"}`,
+    ...(workspaceName ? [`workspace: ${JSON.stringify(workspaceName)}`] : []),
+    "---",
+  ];
+  return `${lines.join("\n")}\n\n${item.promptText.replace(/\s+$/, "")}\n`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Quota gate for queued prompts — pure functions, no VS Code dependency.
+ *
+ * Before delivery, the prompt's cost is estimated and compared with the
+ * headroom left in the 5-hour window (claude.tokenLimit5h minus the tokens
+ * UsageService reports for the last 5h).
+ */
+
+/** Rough token estimate: 1 token ≈ 4 chars (English). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimated tokens a delivered prompt consumes: the prompt text plus a fixed
+ * overhead for context, tool calls and the response.
+ */
+export function estimatePromptCost(
+  promptText: string,
+  overheadTokens: number,
+): number {
+  return estimateTokens(promptText) + Math.max(0, overheadTokens);
+}
+
+export interface QuotaCheckInput {
+  promptText: string;
+  /** Configured 5h limit (claude.tokenLimit5h). 0 = unknown → gate is off. */
+  limit5h: number;
+  /** Tokens used in the current 5h window (UsageService.bestTokensLast5h). */
+  tokensLast5h: number;
+  /** Tokens already sent since the last usage refresh (not yet counted). */
+  unaccountedTokens: number;
+  /** Per-prompt overhead (promptQueue.quotaPromptOverheadTokens). */
+  overheadTokens: number;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  /** Estimated cost of the prompt in tokens. */
+  estimate: number;
+  /** Tokens left in the window (may be negative when over the limit). */
+  headroom: number;
+  /** Human-readable reason when the prompt is held. */
+  reason?: string;
+}
+
+/** Compact token count: 950 → "950", 12_345 → "12.3k", 2_500_000 → "2.5M". */
+function fmtTokens(n: number): string {
+  const abs = Math.abs(n);
+  if (abs >= 1_000_000) {
+    return `${(n / 1_000_000).toFixed(1)}M`;
+  }
+  if (abs >= 1_000) {
+    return `${(n / 1_000).toFixed(1)}k`;
+  }
+  return String(n);
+}
+
+/**
+ * Decide whether a prompt fits into the remaining quota.
+ * Without a configured limit the check always passes.
+ */
+export function checkQuota(input: QuotaCheckInput): QuotaCheck {
+  const estimate = estimatePromptCost(input.promptText, input.overheadTokens);
+  const headroom =
+    input.limit5h - input.tokensLast5h - Math.max(0, input.unaccountedTokens);
+  if (input.limit5h <= 0 || estimate <= headroom) {
+    return { allowed: true, estimate, headroom };
+  }
+  return {
+    allowed: false,
+    estimate,
+    headroom,
+    reason:
+      headroom > 0
+        ? `needs ~${fmtTokens(estimate)} tokens, ~${fmtTokens(headroom)} left in 5h window`
+        : `5h window exhausted (${fmtTokens(input.tokensLast5h)} / ${fmtTokens(input.limit5h)} tokens)`,
+  };
+}
+
+/**
+ * Share of the 5h limit used, in whole percent. Undefined without a
+ * configured limit (claude.tokenLimit5h = 0).
+ */
+export function usagePercent(
+  tokensLast5h: number,
+  limit5h: number,
+): number | undefined {
+  return limit5h > 0 ? Math.round((tokensLast5h / limit5h) * 100) : undefined;
+}
+
+export type QuotaLevel = "ok" | "warning" | "exhausted";
+
+/**
+ * Warning at or above usage.quotaAlertThreshold (≤ 0 = never), exhausted
+ * from 100%.
+ */
+export function quotaLevel(
+  percent: number | undefined,
+  alertThreshold: number,
+): QuotaLevel {
+  if (percent === undefined) {
+    return "ok";
+  }
+  if (percent >= 100) {
+    return "exhausted";
+  }
+  return alertThreshold > 0 && percent >= alertThreshold ? "warning" : "ok";
+}
@@ -0,0 +1,84 @@
+/**
+ * Rate-limit notice detection in Claude terminal output and session
+ * transcripts — pure functions, no VS Code dependency.
+ *
+ * parseRateLimitMessage() is deliberately lenient ("5 hours" anywhere
+ * matches), which is right for text the user pasted but far too eager for a
+ * stream of terminal output. Here a line must first look like a rate-limit
+ * notice before its reset time is parsed.
+ */
+import {
+  addBuffer,
+  parseRateLimitMessage,
+  parseScheduleInput,
+  RateLimitInfo,
+} from "./time";
+
+/** Phrases that mark a line as a rate-limit notice. */
+const NOTICE_RE =
+  /usage limit|rate[- ]limit|limit reached|limit will reset|too many requests|\b429\b/i;
+
+/** Claude Code transcript format: "Claude AI usage limit reached|<epoch seconds>". */
+const EPOCH_NOTICE_RE = /limit reached\|(\d{10})\b/i;
+
+/** Newer CLI wording without minutes: "5-hour limit reached ∙ resets 4pm". */
+const RESETS_CLOCK_RE = /resets\s+(\d{1,2}(?::\d{2})?\s*(?:am|pm))/i;
+
+/** Remove ANSI escape sequences (colors, cursor movement) from terminal output. */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, "")
+    .replace(/\x1b\[[0-?]*[ -/]*[@-~]/g, "")
+    .replace(/\x1b[@-_]/g, "");
+}
+
+/**
+ * Find a rate-limit notice in `text` (terminal output or transcript message)
+ * and return its reset time. Only the last notice counts — it is the most
+ * recent one in a stream.
+ */
+export function findRateLimitNotice(
+  text: string,
+  now = new Date(),
+): RateLimitInfo | undefined {
+  const lines = stripAnsi(text)
+    .split(/\r?\n|\r/)
+    .filter((l) => NOTICE_RE.test(l));
+
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i];
+
+    const epoch = EPOCH_NOTICE_RE.exec(line);
+    if (epoch) {
+      const resetAt = new Date(parseInt(epoch[1], 10) * 1000);
+      const rawHours = (resetAt.getTime() - now.getTime()) / 3_600_000;
+      if (rawHours > 0) {
+        return {
+          delayHours: addBuffer(rawHours),
+          resetAt,
+          rawMatch: epoch[0],
+          confidence: "high",
+        };
+      }
+      continue; // stale notice from an earlier window
+    }
+
+    const clock = RESETS_CLOCK_RE.exec(line);
+    const resetAt = clock ? parseScheduleInput(clock[1], now) : undefined;
+    if (clock && resetAt) {
+      const rawHours = (resetAt.getTime() - now.getTime()) / 3_600_000;
+      return {
+        delayHours: addBuffer(rawHours),
+        resetAt,
+        rawMatch: clock[0],
+        confidence: "high",
+      };
+    }
+
+    const parsed = parseRateLimitMessage(line);
+    if (parsed) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
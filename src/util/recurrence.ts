@@ -0,0 +1,238 @@
+/**
+ * Recurrence rules for repeating queue items — pure functions, no VS Code dependency.
+ *
+ * All wall-clock rules (daily, weekdays, cron) are evaluated in local time,
+ * like the "At time" mode of the queue form.
+ */
+
+export type RecurrenceRule =
+  /** Every N minutes after the previous delivery. */
+  | { kind: "interval"; minutes: number }
+  /** Every day at HH:MM. */
+  | { kind: "daily"; time: string }
+  /** Monday to Friday at HH:MM. */
+  | { kind: "weekdays"; time: string }
+  /** Standard 5-field cron expression: minute hour day-of-month month day-of-week. */
+  | { kind: "cron"; expression: string };
+
+/**
+ * Upper bound for the cron search. Feb 29 can be up to 8 years away (no leap
+ * day in 2100); expressions that match nothing within it never fire.
+ */
+const CRON_SEARCH_LIMIT_MS = 8 * 366 * 24 * 3_600_000;
+
+function parseHHMM(time: string): { h: number; m: number } | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) {
+    return undefined;
+  }
+  const h = parseInt(match[1], 10);
+  const m = parseInt(match[2], 10);
+  return h <= 23 && m <= 59 ? { h, m } : undefined;
+}
+
+// ── Cron ─────────────────────────────────────────────────────────────────────
+
+interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** True when the field was restricted (not "*") — affects day matching. */
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+/** Parse one cron field ("*", "5", "1-5", "*\/15", "0,30"…) into a set of values. */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+): Set<number> | undefined {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = /^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return undefined;
+    }
+    const step = match[3] !== undefined ? parseInt(match[3], 10) : 1;
+    let from: number;
+    let to: number;
+    if (match[1] === "*") {
+      if (match[2] !== undefined) {
+        return undefined;
+      }
+      from = min;
+      to = max;
+    } else {
+      from = parseInt(match[1], 10);
+      to =
+        match[2] !== undefined
+          ? parseInt(match[2], 10)
+          : match[3] !== undefined
+            ? max
+            : from;
+    }
+    if (step < 1 || from < min || to > max || from > to) {
+      return undefined;
+    }
+    for (let v = from; v <= to; v += step) {
+      values.add(v);
+    }
+  }
+  return values;
+}
+
+/** Parse a 5-field cron expression. Returns undefined if it is invalid. */
+export function parseCron(expression: string): CronSpec | undefined {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return undefined;
+  }
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const days = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const weekdays = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !days || !months || !weekdays) {
+    return undefined;
+  }
+  // 7 is an alias for Sunday.
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: fields[2] !== "*",
+    weekdaysRestricted: fields[4] !== "*",
+  };
+}
+
+function cronDayMatches(spec: CronSpec, d: Date): boolean {
+  const dom = spec.days.has(d.getDate());
+  const dow = spec.weekdays.has(d.getDay());
+  // Classic cron semantics: when both fields are restricted, either may match.
+  if (spec.daysRestricted && spec.weekdaysRestricted) {
+    return dom || dow;
+  }
+  return dom && dow;
+}
+
+function nextCronOccurrence(spec: CronSpec, after: Date): Date | undefined {
+  const cursor = new Date(after);
+  cursor.setSeconds(0, 0);
+  cursor.setMinutes(cursor.getMinutes() + 1);
+  const limit = after.getTime() + CRON_SEARCH_LIMIT_MS;
+
+  while (cursor.getTime() <= limit) {
+    if (!spec.months.has(cursor.getMonth() + 1)) {
+      cursor.setMonth(cursor.getMonth() + 1, 1);
+      cursor.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cronDayMatches(spec, cursor)) {
+      cursor.setDate(cursor.getDate() + 1);
+      cursor.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!spec.hours.has(cursor.getHours())) {
+      cursor.setHours(cursor.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!spec.minutes.has(cursor.getMinutes())) {
+      cursor.setMinutes(cursor.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return cursor;
+  }
+  return undefined;
+}
+
+// ── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Return the first occurrence of `rule` strictly after `after`,
+ * or undefined if the rule is invalid / never fires.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  after: Date,
+): Date | undefined {
+  switch (rule.kind) {
+    case "interval":
+      return rule.minutes > 0
+        ? new Date(after.getTime() + rule.minutes * 60_000)
+        : undefined;
+
+    case "daily":
+    case "weekdays": {
+      const hm = parseHHMM(rule.time);
+      if (!hm) {
+        return undefined;
+      }
+      const candidate = new Date(after);
+      candidate.setHours(hm.h, hm.m, 0, 0);
+      const isWeekend = (d: Date) => d.getDay() === 0 || d.getDay() === 6;
+      while (
+        candidate.getTime() <= after.getTime() ||
+        (rule.kind === "weekdays" && isWeekend(candidate))
+      ) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(hm.h, hm.m, 0, 0);
+      }
+      return candidate;
+    }
+
+    case "cron": {
+      const spec = parseCron(rule.expression);
+      return spec ? nextCronOccurrence(spec, after) : undefined;
+    }
+  }
+}
+
+/** Short human-readable description, e.g. "daily at 09:00". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  switch (rule.kind) {
+    case "interval":
+      return rule.minutes % 60 === 0
+        ? `every ${rule.minutes / 60}h`
+        : `every ${rule.minutes} min`;
+    case "daily":
+      return `daily at ${rule.time}`;
+    case "weekdays":
+      return `weekdays at ${rule.time}`;
+    case "cron":
+      return `cron: ${rule.expression}`;
+  }
+}
+
+/**
+ * Type-guard for recurrence rules coming from the webview or an imported file.
+ * Only accepts rules that actually produce a next occurrence.
+ */
+export function isValidRecurrence(raw: unknown): raw is RecurrenceRule {
+  if (!raw || typeof raw !== "object") {
+    return false;
+  }
+  const r = raw as Record<string, unknown>;
+  switch (r.kind) {
+    case "interval":
+      return typeof r.minutes === "number" && r.minutes > 0;
+    case "daily":
+    case "weekdays":
+      return typeof r.time === "string" && parseHHMM(r.time) !== undefined;
+    case "cron": {
+      const spec =
+        typeof r.expression === "string" ? parseCron(r.expression) : undefined;
+      // "0 0 30 2 *" parses but never fires.
+      return !!spec && nextCronOccurrence(spec, new Date()) !== undefined;
+    }
+    default:
+      return false;
+  }
+}
@@ -76,6 +76,26 @@ export function isOverdue(notBefore: Date, now = new Date()): boolean {
   return notBefore.getTime() <= now.getTime();
 }
 
+/**
+ * Compact countdown for a duration in ms: "<1m", "12m", "1h20m", "2d3h".
+ * Rounded up to the minute, so "1m" means at most one minute is left.
+ */
+export function formatCountdown(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes <= 0) {
+    return "<1m";
+  }
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return minutes % 60 ? `${hours}h${minutes % 60}m` : `${hours}h`;
+  }
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d${hours % 24}h` : `${days}d`;
+}
+
 /**
  * Returns a list of unique "YYYY-MM-DD" strings covering the range [from, to].
  * Used to build the list of dates to query from the usage APIs.
@@ -217,35 +237,45 @@ export function parseRateLimitMessage(text: string): RateLimitInfo | undefined {
   return undefined;
 }
 
+/** Convert a 12h/24h clock hour to 24h. Does not validate ranges. */
+function to24Hour(hour: number, ampm: string | undefined): number {
+  if (ampm) {
+    if (ampm.toLowerCase() === "pm" && hour !== 12) {
+      return hour + 12;
+    }
+    if (ampm.toLowerCase() === "am" && hour === 12) {
+      return 0;
+    }
+  }
+  return hour;
+}
+
+/** Next occurrence of HH:MM local time after `now` (today, or tomorrow if already past). */
+function nextTimeOfDay(now: Date, hour: number, minute: number): Date {
+  const at = new Date(now);
+  at.setHours(hour, minute, 0, 0);
+  if (at.getTime() <= now.getTime()) {
+    at.setDate(at.getDate() + 1);
+  }
+  return at;
+}
+
 function parseAbsoluteTime(
   hourStr: string,
   minuteStr: string,
   ampm: string | undefined,
   rawText: string,
 ): RateLimitInfo | undefined {
-  let hour = parseInt(hourStr, 10);
+  const parsedHour = parseInt(hourStr, 10);
   const minute = parseInt(minuteStr, 10);
-  if (isNaN(hour) || isNaN(minute)) {
+  if (isNaN(parsedHour) || isNaN(minute)) {
     return undefined;
   }
-
-  if (ampm) {
-    if (ampm.toLowerCase() === "pm" && hour !== 12) {
-      hour += 12;
-    }
-    if (ampm.toLowerCase() === "am" && hour === 12) {
-      hour = 0;
-    }
-  }
+  const hour = to24Hour(parsedHour, ampm);
 
   const now = new Date();
-  const resetAt = new Date(now);
-  resetAt.setHours(hour, minute, 0, 0);
-
   // If the time is in the past (today), assume it's tomorrow
-  if (resetAt.getTime() <= now.getTime()) {
-    resetAt.setDate(resetAt.getDate() + 1);
-  }
+  const resetAt = nextTimeOfDay(now, hour, minute);
 
   const rawHours = (resetAt.getTime() - now.getTime()) / 3_600_000;
   const delayHours = addBuffer(rawHours);
@@ -259,7 +289,7 @@ function parseAbsoluteTime(
 }
 
 /** Add a 5-minute safety buffer and round to 1 decimal. */
-function addBuffer(hours: number): number {
+export function addBuffer(hours: number): number {
   return Math.round((hours + 5 / 60) * 10) / 10;
 }
 
@@ -270,3 +300,136 @@ function addBuffer(hours: number): number {
 export function parseRateLimitDelay(text: string): number | undefined {
   return parseRateLimitMessage(text)?.delayHours;
 }
+
+// ── Schedule input parser ────────────────────────────────────────────────────
+
+/** Time used when only a day is given ("tomorrow", "next monday"). */
+const DEFAULT_DAY_TIME = { hour: 9, minute: 0 };
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/** Parse "14:30", "9am", "2:15 pm" → 24h hour/minute, or undefined. */
+function parseClock(text: string): { hour: number; minute: number } | undefined {
+  const m = text.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  // A bare number is a delay in minutes, not a clock time.
+  if (!m || (m[2] === undefined && m[3] === undefined)) {
+    return undefined;
+  }
+  const raw = parseInt(m[1], 10);
+  const minute = m[2] !== undefined ? parseInt(m[2], 10) : 0;
+  if (m[3] ? raw < 1 || raw > 12 : raw > 23) {
+    return undefined;
+  }
+  if (minute > 59) {
+    return undefined;
+  }
+  return { hour: to24Hour(raw, m[3]), minute };
+}
+
+/**
+ * Resolve a user-typed schedule into an absolute delivery time.
+ *
+ * Accepts:
+ *   - Delays:        "30" (minutes), "45m", "in 2h 30m", "1.5 hours"
+ *   - Clock times:   "14:30", "at 9am", "2:15 pm" → next occurrence
+ *   - Day + time:    "tomorrow 9am", "today at 18:00", "friday 08:00",
+ *                    "next monday 08:00" (a day alone means 09:00)
+ *   - ISO 8601:      "2026-04-10T09:00", "2026-04-10 09:00",
+ *                    "2026-04-10T09:00:00Z" (no offset → local time)
+ *
+ * A plain weekday is its soonest occurrence (today if the time is still
+ * ahead); "next <weekday>" always means a later day (1–7 days ahead).
+ * The result may lie in the past ("today 08:00" at noon) — callers decide
+ * whether to reject it. Returns undefined if the input is not understood.
+ */
+export function parseScheduleInput(
+  input: string,
+  now = new Date(),
+): Date | undefined {
+  const text = input.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!text) {
+    return undefined;
+  }
+
+  // ── 1. Relative delay ───────────────────────────────────────────────────
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    return addMinutes(now, parseFloat(text));
+  }
+  const rel = text.match(
+    /^(?:in )?(?:(\d+(?:\.\d+)?) ?h(?:ours?|rs?)?)? ?(?:(\d+(?:\.\d+)?) ?m(?:in(?:utes?|s)?)?)?$/,
+  );
+  if (rel && (rel[1] !== undefined || rel[2] !== undefined)) {
+    const minutes =
+      parseFloat(rel[1] ?? "0") * 60 + parseFloat(rel[2] ?? "0");
+    return addMinutes(now, minutes);
+  }
+
+  // ── 2. ISO 8601 ─────────────────────────────────────────────────────────
+  const iso = text.match(
+    /^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(z|[+-]\d{2}:?\d{2})?)?$/,
+  );
+  if (iso) {
+    if (iso[7]) {
+      // Explicit offset — let Date handle it.
+      const at = new Date(input.trim());
+      return isNaN(at.getTime()) ? undefined : at;
+    }
+    // No offset: build in local time (date-only strings would parse as UTC).
+    const at = new Date(
+      parseInt(iso[1], 10),
+      parseInt(iso[2], 10) - 1,
+      parseInt(iso[3], 10),
+      iso[4] !== undefined ? parseInt(iso[4], 10) : 0,
+      iso[5] !== undefined ? parseInt(iso[5], 10) : 0,
+      iso[6] !== undefined ? parseInt(iso[6], 10) : 0,
+    );
+    const valid =
+      at.getMonth() === parseInt(iso[2], 10) - 1 &&
+      at.getDate() === parseInt(iso[3], 10) &&
+      (iso[4] === undefined || at.getHours() === parseInt(iso[4], 10));
+    return valid ? at : undefined;
+  }
+
+  // ── 3. [day] [at] [time] ────────────────────────────────────────────────
+  const dayTime = text.match(
+    /^(?:(today|tomorrow|tmrw|(?:(next|this) )?(sun|mon|tue|wed|thu|fri|sat)[a-z]*) ?)?(?:at )?(.*)$/,
+  );
+  if (!dayTime) {
+    return undefined;
+  }
+  const [, dayWord, nextOrThis, weekdayPrefix, timePart] = dayTime;
+  if (weekdayPrefix && !isWeekdayName(dayWord.replace(/^(next|this) /, ""))) {
+    return undefined;
+  }
+
+  const clock = timePart ? parseClock(timePart) : DEFAULT_DAY_TIME;
+  if (!clock || (!dayWord && !timePart)) {
+    return undefined;
+  }
+  if (!dayWord) {
+    return nextTimeOfDay(now, clock.hour, clock.minute);
+  }
+
+  const at = new Date(now);
+  at.setHours(clock.hour, clock.minute, 0, 0);
+  if (dayWord === "tomorrow" || dayWord === "tmrw") {
+    at.setDate(at.getDate() + 1);
+  } else if (weekdayPrefix) {
+    const target = WEEKDAYS.indexOf(weekdayPrefix);
+    let ahead = (target - now.getDay() + 7) % 7;
+    if (nextOrThis === "next") {
+      ahead = ahead === 0 ? 7 : ahead;
+    } else if (ahead === 0 && at.getTime() <= now.getTime()) {
+      ahead = 7;
+    }
+    at.setDate(at.getDate() + ahead);
+  }
+  return at;
+}
+
+/** True for full or 3-letter English weekday names ("mon", "monday", "tues"…). */
+function isWeekdayName(word: string): boolean {
+  return /^(sun(day)?|mon(day)?|tue(s(day)?)?|wed(nesday)?|thu(r(s(day)?)?)?|fri(day)?|sat(urday)?)$/.test(
+    word,
+  );
+}